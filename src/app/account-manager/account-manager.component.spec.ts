@@ -0,0 +1,92 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AccountManagerComponent } from './account-manager.component';
+import { getAccountBalances, getRunningBalances } from '../services/account.service';
+import { CurrencyContext } from '../services/exchange-rate.service';
+import { Account } from '../models/account.model';
+import { Transaction } from '../models/transaction.model';
+
+describe('AccountManagerComponent', () => {
+  let component: AccountManagerComponent;
+  let fixture: ComponentFixture<AccountManagerComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AccountManagerComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AccountManagerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should not save an account without a name', () => {
+    component.form.name = '   ';
+    component.saveAccount();
+
+    expect(component.formError).toBe('Please give the account a name');
+  });
+});
+
+describe('account balances', () => {
+  const wallet: Account = { id: 'a1', name: 'Wallet', kind: 'cash', openingBalance: 100, currency: 'USD', createdAt: new Date() };
+  const bank: Account = { id: 'a2', name: 'Bank', kind: 'checking', openingBalance: 0, currency: 'USD', createdAt: new Date() };
+  const transaction = (id: string, day: number, overrides: Partial<Transaction>): Transaction => ({
+    id, amount: 0, type: 'expense', category: 'Food', description: '', tags: [],
+    createdAt: new Date(2026, 4, day), updatedAt: new Date(), ...overrides
+  });
+  const context: CurrencyContext = { baseCurrency: 'USD', rates: [] };
+
+  const transactions = [
+    transaction('t3', 3, { amount: 15.5, accountId: 'a1' }),
+    transaction('t1', 1, { amount: 20, accountId: 'a1' }),
+    transaction('t2', 2, { amount: 1000, type: 'revenue', accountId: 'a2' }),
+    transaction('t4', 4, { amount: 5 })
+  ];
+
+  it('should add revenue and subtract expenses from the opening balance', () => {
+    expect(getAccountBalances([wallet, bank], transactions, context).map(b => [b.account.name, b.balance, b.transactionCount]))
+      .toEqual([['Wallet', 64.5, 2], ['Bank', 1000, 1]]);
+  });
+
+  it('should compute running balances in date order per account', () => {
+    const running = getRunningBalances([wallet, bank], transactions, context);
+
+    expect(running.get('t1')?.get('a1')).toBe(80);
+    expect(running.get('t3')?.get('a1')).toBe(64.5);
+    expect(running.get('t2')?.get('a2')).toBe(1000);
+    expect(running.has('t4')).toBe(false);
+  });
+
+  it('should move transfers from the source to the destination account', () => {
+    const transfer = transaction('t5', 5, { amount: 300, type: 'transfer', accountId: 'a2', toAccountId: 'a1' });
+    const withTransfer = [...transactions, transfer];
+
+    expect(getAccountBalances([wallet, bank], withTransfer, context).map(b => b.balance)).toEqual([364.5, 700]);
+    expect([...getRunningBalances([wallet, bank], withTransfer, context).get('t5')!]).toEqual([['a2', 700], ['a1', 364.5]]);
+  });
+
+  it('should keep a foreign account in its own currency', () => {
+    const euros: Account = { ...bank, id: 'a3', name: 'Euro account', currency: 'EUR' };
+    const rows = [
+      transaction('t6', 6, { amount: 22, currency: 'EUR', originalAmount: 20, accountId: 'a3' }),
+      transaction('t7', 7, { amount: 50, type: 'revenue', accountId: 'a3' })
+    ];
+    const withRate: CurrencyContext = {
+      baseCurrency: 'USD',
+      rates: [{ id: 'r1', date: '2026-05-07', from: 'EUR', to: 'USD', rate: 1.25, createdAt: '' }]
+    };
+
+    expect(getAccountBalances([euros], rows, withRate).map(b => b.balance)).toEqual([20]);
+    expect(getRunningBalances([euros], rows, withRate).get('t7')?.get('a3')).toBe(20);
+    // No rate to convert the dollar revenue: unknown rather than wrong
+    expect(getAccountBalances([euros], rows, context).map(b => b.balance)).toEqual([null]);
+    expect(getRunningBalances([euros], rows, context).get('t6')?.get('a3')).toBe(-20);
+    expect(getRunningBalances([euros], rows, context).has('t7')).toBe(false);
+  });
+});
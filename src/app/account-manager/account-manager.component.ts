@@ -0,0 +1,128 @@
+// account-manager.component.ts
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ACCOUNT_KINDS, AccountService, getAccountBalances } from '../services/account.service';
+import { SettingsService } from '../services/settings.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { Account, AccountBalance, AccountDraft } from '../models/account.model';
+import { Transaction } from '../models/transaction.model';
+
+@Component({
+  selector: 'app-account-manager',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './account-manager.component.html',
+  styleUrls: ['./account-manager.component.scss']
+})
+export class AccountManagerComponent implements OnInit, OnDestroy {
+  @Input() transactions: Transaction[] = [];
+  @Output() closed = new EventEmitter<void>();
+
+  accounts: Account[] = [];
+  accountKinds = ACCOUNT_KINDS;
+  currencies = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'INR', 'CHF', 'CNY', 'BRL', 'TND'];
+
+  editingId: string | null = null;
+  form: AccountDraft;
+  formError = '';
+  isSaving = false;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private accountService: AccountService,
+    private settingsService: SettingsService,
+    private exchangeRateService: ExchangeRateService
+  ) {
+    this.form = this.getEmptyForm();
+  }
+
+  ngOnInit() {
+    const accountsSub = this.accountService.accounts$.subscribe(accounts => this.accounts = accounts);
+    this.subscriptions.push(accountsSub);
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  getBalances(): AccountBalance[] {
+    return getAccountBalances(this.accounts, this.transactions, this.exchangeRateService.getCurrencyContext());
+  }
+
+  editAccount(account: Account) {
+    this.editingId = account.id;
+    this.form = {
+      name: account.name,
+      kind: account.kind,
+      openingBalance: account.openingBalance,
+      currency: account.currency
+    };
+    this.formError = '';
+  }
+
+  cancelEdit() {
+    this.editingId = null;
+    this.form = this.getEmptyForm();
+    this.formError = '';
+  }
+
+  saveAccount() {
+    const name = this.form.name.trim();
+    if (!name) {
+      this.formError = 'Please give the account a name';
+      return;
+    }
+    if (this.accounts.some(a => a.id !== this.editingId && a.name.toLowerCase() === name.toLowerCase())) {
+      this.formError = `An account named "${name}" already exists`;
+      return;
+    }
+
+    const draft: AccountDraft = { ...this.form, name, openingBalance: Number(this.form.openingBalance) || 0 };
+    const request = this.editingId
+      ? this.accountService.updateAccount(this.editingId, draft)
+      : this.accountService.addAccount(draft);
+
+    this.isSaving = true;
+    request.subscribe({
+      next: () => {
+        this.isSaving = false;
+        this.cancelEdit();
+      },
+      error: () => {
+        this.isSaving = false;
+        this.formError = 'Failed to save account';
+      }
+    });
+  }
+
+  deleteAccount(balance: AccountBalance) {
+    const message = balance.transactionCount > 0
+      ? `Delete "${balance.account.name}"? Its ${balance.transactionCount} transaction(s) will no longer belong to an account.`
+      : `Delete "${balance.account.name}"?`;
+    if (!confirm(message)) return;
+
+    this.accountService.deleteAccount(balance.account.id).subscribe({
+      error: () => this.formError = 'Failed to delete account'
+    });
+  }
+
+  getKindIcon(account: Account): string {
+    return ACCOUNT_KINDS.find(k => k.value === account.kind)?.icon ?? '🏦';
+  }
+
+  formatCurrency(amount: number, currency?: string): string {
+    return this.settingsService.formatCurrency(amount, currency);
+  }
+
+  private getEmptyForm(): AccountDraft {
+    return {
+      name: '',
+      kind: 'checking',
+      openingBalance: 0,
+      currency: this.settingsService.getAppSettings().currency
+    };
+  }
+}
@@ -7,6 +7,7 @@ import { DashboardComponent } from './dashboard/dashboard.component';
 import { LayoutComponent } from './layout/layout.component';
 import { TransactionsComponent } from './transactions/transactions.component';
 import { CategoryStatsComponent } from './category-stats/category-stats.component';
+import { PayeesComponent } from './payees/payees.component';
 import { ReportsComponent } from './reports/reports.component';
 import { SettingsComponent } from './settings/settings.component';
 import { UserIdMatcherGuard } from './guards/user-id-matcher.guard';
@@ -25,6 +26,7 @@ export const routes: Routes = [
       { path: 'dashboard/:userId', component: DashboardComponent, },
       { path: 'transactions/:userId', component: TransactionsComponent },
       { path: 'category-stats/:userId', component: CategoryStatsComponent },
+      { path: 'payees/:userId', component: PayeesComponent },
       { path: 'reports/:userId', component: ReportsComponent },
       { path: 'settings/:userId', component: SettingsComponent },
       { path: '', redirectTo: 'dashboard/:userId', pathMatch: 'full' }
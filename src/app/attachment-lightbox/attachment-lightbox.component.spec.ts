@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AttachmentLightboxComponent } from './attachment-lightbox.component';
+
+describe('AttachmentLightboxComponent', () => {
+  let component: AttachmentLightboxComponent;
+  let fixture: ComponentFixture<AttachmentLightboxComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AttachmentLightboxComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AttachmentLightboxComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
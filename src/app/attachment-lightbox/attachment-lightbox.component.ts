@@ -0,0 +1,135 @@
+// attachment-lightbox.component.ts
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges,
+  ViewChild
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { Subscription } from 'rxjs';
+import { saveAs } from 'file-saver';
+import { TransactionService } from '../services/transaction.service';
+import { Attachment } from '../models/transaction.model';
+
+@Component({
+  selector: 'app-attachment-lightbox',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './attachment-lightbox.component.html',
+  styleUrls: ['./attachment-lightbox.component.scss']
+})
+export class AttachmentLightboxComponent implements OnChanges, AfterViewInit, OnDestroy {
+  @ViewChild('overlay') overlay?: ElementRef<HTMLElement>;
+  @Input() transactionId = '';
+  @Input() attachments: Attachment[] = [];
+  @Input() index = 0;
+  @Output() closed = new EventEmitter<void>();
+
+  objectUrl: string | null = null;
+  // PDFs render in an iframe, which needs an explicitly trusted URL
+  pdfUrl: SafeResourceUrl | null = null;
+  isLoading = false;
+  errorMessage = '';
+
+  private blob: Blob | null = null;
+  private loadSub: Subscription | null = null;
+
+  constructor(
+    private transactionService: TransactionService,
+    private sanitizer: DomSanitizer
+  ) { }
+
+  get current(): Attachment | null {
+    return this.attachments[this.index] ?? null;
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['attachments'] || changes['index'] || changes['transactionId']) {
+      this.load();
+    }
+  }
+
+  // Take the focus so Escape and the arrow keys reach the lightbox
+  ngAfterViewInit() {
+    this.overlay?.nativeElement.focus();
+  }
+
+  ngOnDestroy() {
+    this.reset();
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    if (event.key === 'Escape') {
+      this.closed.emit();
+    } else if (event.key === 'ArrowRight') {
+      this.next();
+    } else if (event.key === 'ArrowLeft') {
+      this.previous();
+    }
+  }
+
+  next() {
+    if (this.index < this.attachments.length - 1) {
+      this.index++;
+      this.load();
+    }
+  }
+
+  previous() {
+    if (this.index > 0) {
+      this.index--;
+      this.load();
+    }
+  }
+
+  download() {
+    if (this.blob && this.current) {
+      saveAs(this.blob, this.current.fileName);
+    }
+  }
+
+  isPdf(): boolean {
+    return this.current?.contentType === 'application/pdf';
+  }
+
+  private load() {
+    this.reset();
+    const attachment = this.current;
+    if (!attachment || !this.transactionId) return;
+
+    this.isLoading = true;
+    this.loadSub = this.transactionService.downloadAttachment(this.transactionId, attachment.id).subscribe({
+      next: blob => {
+        this.blob = blob;
+        this.objectUrl = URL.createObjectURL(blob);
+        if (this.isPdf()) {
+          this.pdfUrl = this.sanitizer.bypassSecurityTrustResourceUrl(this.objectUrl);
+        }
+        this.isLoading = false;
+      },
+      error: () => {
+        this.errorMessage = 'Could not load this attachment.';
+        this.isLoading = false;
+      }
+    });
+  }
+
+  private reset() {
+    this.loadSub?.unsubscribe();
+    this.loadSub = null;
+    this.blob = null;
+    this.pdfUrl = null;
+    this.errorMessage = '';
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
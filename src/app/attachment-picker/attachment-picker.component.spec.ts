@@ -0,0 +1,41 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AttachmentPickerComponent, formatFileSize } from './attachment-picker.component';
+import { getScaledSize } from './image-downscale';
+
+describe('AttachmentPickerComponent', () => {
+  let component: AttachmentPickerComponent;
+  let fixture: ComponentFixture<AttachmentPickerComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AttachmentPickerComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AttachmentPickerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should format file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(86_000)).toBe('84 KB');
+    expect(formatFileSize(2_516_582)).toBe('2.4 MB');
+  });
+});
+
+describe('getScaledSize', () => {
+  it('should fit the longest side and keep the aspect ratio', () => {
+    expect(getScaledSize(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(getScaledSize(3024, 4032, 1600)).toEqual({ width: 1200, height: 1600 });
+  });
+
+  it('should leave images that already fit unchanged', () => {
+    expect(getScaledSize(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  });
+});
@@ -0,0 +1,80 @@
+// attachment-picker.component.ts
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { Attachment } from '../models/transaction.model';
+import { downscaleImage } from './image-downscale';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Format a byte count as "512 B", "84 KB" or "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+@Component({
+  selector: 'app-attachment-picker',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './attachment-picker.component.html',
+  styleUrls: ['./attachment-picker.component.scss']
+})
+export class AttachmentPickerComponent {
+  // Already uploaded (edit modal)
+  @Input() attachments: Attachment[] = [];
+  @Output() attachmentRemoved = new EventEmitter<Attachment>();
+
+  // Picked but not uploaded yet; uploaded by the parent after saving
+  @Input() files: File[] = [];
+  @Output() filesChange = new EventEmitter<File[]>();
+
+  @Input() inputId = 'attachments';
+
+  isProcessing = false;
+  error = '';
+
+  readonly accept = 'image/*,application/pdf';
+
+  onFilesSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const selected = Array.from(input.files ?? []);
+    input.value = '';
+    this.error = '';
+
+    const accepted = selected.filter(file => {
+      if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+        this.error = `${file.name} is not an image or PDF`;
+        return false;
+      }
+      return true;
+    });
+    if (accepted.length === 0) return;
+
+    this.isProcessing = true;
+    forkJoin(accepted.map(file => downscaleImage(file))).subscribe(processed => {
+      this.isProcessing = false;
+
+      const tooLarge = processed.filter(file => file.size > MAX_FILE_SIZE);
+      if (tooLarge.length > 0) {
+        this.error = `${tooLarge.map(file => file.name).join(', ')} exceeds ${formatFileSize(MAX_FILE_SIZE)}`;
+      }
+      this.filesChange.emit([...this.files, ...processed.filter(file => file.size <= MAX_FILE_SIZE)]);
+    });
+  }
+
+  removeFile(index: number) {
+    this.filesChange.emit(this.files.filter((_, i) => i !== index));
+  }
+
+  isPdf(contentType: string): boolean {
+    return contentType === 'application/pdf';
+  }
+
+  formatSize(bytes: number): string {
+    return formatFileSize(bytes);
+  }
+}
@@ -0,0 +1,71 @@
+// attachment-picker/image-downscale.ts
+import { from, Observable, of } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+
+// Longest side after downscaling; enough to read any receipt
+export const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+// Formats that canvas re-encoding would break (animation, vectors)
+const KEEP_AS_IS = ['image/gif', 'image/svg+xml'];
+
+/**
+ * Fit width/height inside a square of maxDimension, keeping the aspect
+ * ratio. Images that already fit are returned unchanged.
+ */
+export function getScaledSize(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (longest <= maxDimension) {
+    return { width, height };
+  }
+
+  const scale = maxDimension / longest;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * Re-encode large images at a smaller size before upload. PDFs, small
+ * images and anything the browser can't decode are passed through.
+ */
+export function downscaleImage(file: File, maxDimension: number = MAX_IMAGE_DIMENSION): Observable<File> {
+  if (!file.type.startsWith('image/') || KEEP_AS_IS.includes(file.type) || typeof createImageBitmap !== 'function') {
+    return of(file);
+  }
+
+  return from(createImageBitmap(file)).pipe(
+    switchMap(bitmap => {
+      const size = getScaledSize(bitmap.width, bitmap.height, maxDimension);
+      if (size.width === bitmap.width && size.height === bitmap.height) {
+        bitmap.close();
+        return of(file);
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, size.width, size.height);
+      bitmap.close();
+
+      // PNG keeps transparency (screenshots); everything else becomes JPEG
+      const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+      return new Observable<File>(subscriber => {
+        canvas.toBlob(blob => {
+          if (!blob || blob.size >= file.size) {
+            subscriber.next(file);
+          } else {
+            const name = type === 'image/jpeg' ? file.name.replace(/\.[^.]+$/, '') + '.jpg' : file.name;
+            subscriber.next(new File([blob], name, { type, lastModified: file.lastModified }));
+          }
+          subscriber.complete();
+        }, type, JPEG_QUALITY);
+      });
+    }),
+    catchError(error => {
+      console.error('❌ Could not downscale image, uploading original:', error);
+      return of(file);
+    })
+  );
+}
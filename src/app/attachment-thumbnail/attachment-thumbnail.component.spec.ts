@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AttachmentThumbnailComponent } from './attachment-thumbnail.component';
+
+describe('AttachmentThumbnailComponent', () => {
+  let component: AttachmentThumbnailComponent;
+  let fixture: ComponentFixture<AttachmentThumbnailComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AttachmentThumbnailComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AttachmentThumbnailComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,65 @@
+// attachment-thumbnail.component.ts
+import { Component, Input, OnChanges, OnDestroy, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { TransactionService } from '../services/transaction.service';
+import { Attachment } from '../models/transaction.model';
+
+/**
+ * Small preview of an attachment. Images are fetched through the API
+ * (cookies are required) and shown from an object URL; PDFs get an icon.
+ */
+@Component({
+  selector: 'app-attachment-thumbnail',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './attachment-thumbnail.component.html',
+  styleUrls: ['./attachment-thumbnail.component.scss']
+})
+export class AttachmentThumbnailComponent implements OnChanges, OnDestroy {
+  @Input() transactionId = '';
+  @Input() attachment: Attachment | null = null;
+
+  objectUrl: string | null = null;
+  failed = false;
+
+  private loadSub: Subscription | null = null;
+
+  constructor(private transactionService: TransactionService) { }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['attachment'] || changes['transactionId']) {
+      this.load();
+    }
+  }
+
+  ngOnDestroy() {
+    this.reset();
+  }
+
+  isImage(): boolean {
+    return !!this.attachment?.contentType.startsWith('image/');
+  }
+
+  private load() {
+    this.reset();
+    if (!this.attachment || !this.transactionId || !this.isImage()) return;
+
+    this.loadSub = this.transactionService
+      .downloadAttachment(this.transactionId, this.attachment.id, true)
+      .subscribe({
+        next: blob => this.objectUrl = URL.createObjectURL(blob),
+        error: () => this.failed = true
+      });
+  }
+
+  private reset() {
+    this.loadSub?.unsubscribe();
+    this.loadSub = null;
+    this.failed = false;
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CategorizationRulesComponent } from './categorization-rules.component';
+import { CategorizationRule } from '../models/categorization-rule.model';
+import { applyRules, getRuleError, matchesRule } from '../services/categorization-rule.service';
+
+function rule(name: string, priority: number, changes: Partial<CategorizationRule>): CategorizationRule {
+  return {
+    id: name,
+    name,
+    conditions: { descriptionMatch: 'contains', descriptionPattern: '' },
+    actions: {},
+    priority,
+    enabled: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...changes
+  };
+}
+
+describe('CategorizationRulesComponent', () => {
+  let component: CategorizationRulesComponent;
+  let fixture: ComponentFixture<CategorizationRulesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CategorizationRulesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CategorizationRulesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should preview the rule being edited against the history', () => {
+    const day = new Date(2026, 4, 10);
+    component.transactions = [
+      { id: '1', amount: 18, type: 'expense', category: 'Other', description: 'UBER *TRIP', tags: [], createdAt: day, updatedAt: day },
+      { id: '2', amount: 18, type: 'expense', category: 'Transport', description: 'Uber', tags: [], createdAt: day, updatedAt: day },
+      { id: '3', amount: 9, type: 'expense', category: 'Food', description: 'Bakery', tags: [], createdAt: day, updatedAt: day }
+    ];
+    component.openAddModal();
+    component.form.name = 'Rides';
+    component.form.descriptionPattern = 'uber';
+    component.form.category = 'Transport';
+
+    component.testForm();
+
+    expect(component.formError).toBe('');
+    expect(component.previewRows?.map(row => row.transaction.id)).toEqual(['1']);
+  });
+
+  it('should match on description, amount range and type', () => {
+    const rides = rule('Rides', 1, {
+      conditions: { descriptionMatch: 'regex', descriptionPattern: '^(uber|lyft)', minAmount: 5, maxAmount: 50, type: 'expense' }
+    });
+
+    expect(matchesRule(rides, { amount: 12, type: 'expense', category: '', description: 'LYFT RIDE' })).toBe(true);
+    expect(matchesRule(rides, { amount: 80, type: 'expense', category: '', description: 'Uber' })).toBe(false);
+    expect(matchesRule(rides, { amount: 12, type: 'revenue', category: '', description: 'Uber' })).toBe(false);
+    expect(matchesRule(rides, { amount: 12, type: 'expense', category: '', description: 'My uber' })).toBe(false);
+    expect(matchesRule(rides, { amount: 12, type: 'transfer', category: '', description: 'Uber' })).toBe(false);
+  });
+
+  it('should let higher-priority rules win and add up tags', () => {
+    const rules = [
+      rule('Generic', 2, { actions: { category: 'Shopping', tags: ['online'] } }),
+      rule('Amazon', 1, {
+        conditions: { descriptionMatch: 'contains', descriptionPattern: 'amzn' },
+        actions: { category: 'Books', description: 'Amazon', tags: ['amazon'] }
+      }),
+      rule('Off', 0, { enabled: false, actions: { category: 'Bills' } })
+    ];
+
+    expect(applyRules(rules, { amount: 20, type: 'expense', category: '', description: 'AMZN Mktp', tags: ['gift'] })).toEqual({
+      changes: { category: 'Books', description: 'Amazon', tags: ['gift', 'amazon', 'online'] },
+      ruleNames: ['Amazon', 'Generic']
+    });
+    expect(applyRules(rules, { amount: 20, type: 'expense', category: 'Shopping', description: 'Shop', tags: ['online'] }).changes).toEqual({});
+  });
+
+  it('should reject invalid rules', () => {
+    expect(getRuleError(rule('Bad', 1, {
+      conditions: { descriptionMatch: 'regex', descriptionPattern: '(' },
+      actions: { category: 'Food' }
+    }))).toContain('Invalid regular expression');
+    expect(getRuleError(rule('Empty', 1, {}))).toBe('Pick at least one action');
+  });
+});
@@ -0,0 +1,252 @@
+// categorization-rules.component.ts
+import { Component, Input, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { CategorizationRuleService, getRuleError } from '../services/categorization-rule.service';
+import { SettingsService } from '../services/settings.service';
+import { Transaction } from '../models/transaction.model';
+import {
+  CategorizationRule,
+  CategorizationRuleDraft,
+  DescriptionMatch,
+  RulePreviewRow
+} from '../models/categorization-rule.model';
+import { TagInputComponent } from '../tag-input/tag-input.component';
+
+interface RuleForm {
+  name: string;
+  descriptionMatch: DescriptionMatch;
+  descriptionPattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  type: '' | 'expense' | 'revenue';
+  category: string;
+  tags: string[];
+  description: string;
+  enabled: boolean;
+}
+
+// Preview rows rendered at once; the count above the table covers the rest
+const PREVIEW_LIMIT = 100;
+
+@Component({
+  selector: 'app-categorization-rules',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TagInputComponent],
+  templateUrl: './categorization-rules.component.html',
+  styleUrls: ['./categorization-rules.component.scss']
+})
+export class CategorizationRulesComponent implements OnInit, OnDestroy {
+  @Input() categories: { expense: string[]; revenue: string[] } = { expense: [], revenue: [] };
+  // History the rules are tested against
+  @Input() transactions: Transaction[] = [];
+
+  rules: CategorizationRule[] = [];
+
+  // Add/edit modal
+  showFormModal = false;
+  editingId: string | null = null;
+  form: RuleForm = this.getEmptyForm();
+  formError = '';
+
+  // "Test against history"
+  previewTitle = '';
+  previewRows: RulePreviewRow[] | null = null;
+  readonly previewLimit = PREVIEW_LIMIT;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private ruleService: CategorizationRuleService,
+    private settingsService: SettingsService
+  ) { }
+
+  ngOnInit() {
+    const rulesSub = this.ruleService.rules$.subscribe(rules => this.rules = rules);
+    this.subscriptions.push(rulesSub);
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  // ===============================
+  // RULES
+  // ===============================
+
+  openAddModal() {
+    this.editingId = null;
+    this.form = this.getEmptyForm();
+    this.formError = '';
+    this.previewRows = null;
+    this.showFormModal = true;
+  }
+
+  openEditModal(rule: CategorizationRule) {
+    const { conditions, actions } = rule;
+    this.editingId = rule.id;
+    this.form = {
+      name: rule.name,
+      descriptionMatch: conditions.descriptionMatch,
+      descriptionPattern: conditions.descriptionPattern,
+      minAmount: conditions.minAmount ?? null,
+      maxAmount: conditions.maxAmount ?? null,
+      type: conditions.type ?? '',
+      category: actions.category ?? '',
+      tags: [...(actions.tags ?? [])],
+      description: actions.description ?? '',
+      enabled: rule.enabled
+    };
+    this.formError = '';
+    this.previewRows = null;
+    this.showFormModal = true;
+  }
+
+  closeFormModal() {
+    this.showFormModal = false;
+    this.editingId = null;
+    this.previewRows = null;
+  }
+
+  saveRule() {
+    const draft = this.buildDraft();
+    this.formError = getRuleError(draft) ?? '';
+    if (this.formError) return;
+
+    if (this.editingId) {
+      this.ruleService.update(this.editingId, draft);
+    } else {
+      this.ruleService.add(draft);
+    }
+    this.closeFormModal();
+  }
+
+  toggleEnabled(rule: CategorizationRule) {
+    this.ruleService.update(rule.id, { enabled: !rule.enabled });
+  }
+
+  moveRule(rule: CategorizationRule, direction: -1 | 1) {
+    this.ruleService.move(rule.id, direction);
+  }
+
+  deleteRule(rule: CategorizationRule) {
+    if (confirm(`Delete the rule "${rule.name}"?`)) {
+      this.ruleService.remove(rule.id);
+    }
+  }
+
+  // ===============================
+  // PREVIEW
+  // ===============================
+
+  /**
+   * Run the rule being edited alone against the history
+   */
+  testForm() {
+    const draft = this.buildDraft();
+    this.formError = getRuleError(draft) ?? '';
+    if (this.formError) return;
+
+    const rule: CategorizationRule = { ...draft, id: 'preview', priority: 0, enabled: true, createdAt: '' };
+    this.previewTitle = `"${draft.name}"`;
+    this.previewRows = this.ruleService.preview([rule], this.transactions);
+  }
+
+  /**
+   * Run every enabled rule in priority order against the history
+   */
+  testAll() {
+    this.previewTitle = 'All rules';
+    this.previewRows = this.ruleService.preview(this.rules, this.transactions);
+  }
+
+  closePreview() {
+    this.previewRows = null;
+  }
+
+  // ===============================
+  // HELPERS
+  // ===============================
+
+  private buildDraft(): CategorizationRuleDraft {
+    const { form } = this;
+    return {
+      name: form.name.trim(),
+      conditions: {
+        descriptionMatch: form.descriptionMatch,
+        descriptionPattern: form.descriptionPattern.trim(),
+        ...(form.minAmount != null && { minAmount: form.minAmount }),
+        ...(form.maxAmount != null && { maxAmount: form.maxAmount }),
+        ...(form.type && { type: form.type })
+      },
+      actions: {
+        ...(form.category && { category: form.category }),
+        ...(form.tags.length > 0 && { tags: [...form.tags] }),
+        ...(form.description.trim() && { description: form.description.trim() })
+      },
+      enabled: form.enabled
+    };
+  }
+
+  private getEmptyForm(): RuleForm {
+    return {
+      name: '',
+      descriptionMatch: 'contains',
+      descriptionPattern: '',
+      minAmount: null,
+      maxAmount: null,
+      type: '',
+      category: '',
+      tags: [],
+      description: '',
+      enabled: true
+    };
+  }
+
+  /**
+   * "Description contains “uber” · expense · 5 to 50"
+   */
+  describeConditions(rule: CategorizationRule): string {
+    const { conditions } = rule;
+    const parts: string[] = [];
+
+    if (conditions.descriptionPattern) {
+      parts.push(conditions.descriptionMatch === 'regex'
+        ? `Description matches /${conditions.descriptionPattern}/`
+        : `Description contains “${conditions.descriptionPattern}”`);
+    }
+    if (conditions.type) {
+      parts.push(conditions.type);
+    }
+    if (conditions.minAmount != null && conditions.maxAmount != null) {
+      parts.push(`${this.formatCurrency(conditions.minAmount)} to ${this.formatCurrency(conditions.maxAmount)}`);
+    } else if (conditions.minAmount != null) {
+      parts.push(`at least ${this.formatCurrency(conditions.minAmount)}`);
+    } else if (conditions.maxAmount != null) {
+      parts.push(`at most ${this.formatCurrency(conditions.maxAmount)}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'Every transaction';
+  }
+
+  describeActions(rule: CategorizationRule): string {
+    const { actions } = rule;
+    return [
+      actions.category && `Category → ${actions.category}`,
+      actions.tags?.length && `Tags + ${actions.tags.map(tag => '#' + tag).join(' ')}`,
+      actions.description && `Description → “${actions.description}”`
+    ].filter(Boolean).join(' · ');
+  }
+
+  getAllTags(): string[] {
+    return [...new Set(this.transactions.flatMap(t => t.tags))].sort();
+  }
+
+  formatCurrency(amount: number): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+
+  formatDate(date: Date | string): string {
+    return this.settingsService.formatDate(date);
+  }
+}
@@ -10,6 +10,8 @@ import {
 import { ThemeService } from '../theme.service';
 import { Subscription } from 'rxjs';
 import { SettingsService } from '../services/settings.service';
+import { DEFAULT_TRANSACTION_FILTERS, filtersToQueryParams, getTimeFrameDates } from '../services/filter-preset.service';
+import { AuthService } from '../auth/auth';
 
 @Component({
   selector: 'app-category-stats',
@@ -50,7 +52,8 @@ export class CategoryStatsComponent implements OnInit, OnDestroy {
     private transactionService: TransactionService,
     private themeService: ThemeService,
     private settingsService: SettingsService,
-    private router: Router
+    private router: Router,
+    private authService: AuthService
   ) { }
 
   ngOnInit(): void {
@@ -153,12 +156,13 @@ export class CategoryStatsComponent implements OnInit, OnDestroy {
   }
 
   viewTransactions(category: CategoryDetail): void {
-    this.router.navigate(['/transactions'], {
-      queryParams: {
+    this.router.navigate([`/transactions/${this.authService.getCurrentUser()?.id}`], {
+      queryParams: filtersToQueryParams({
+        ...DEFAULT_TRANSACTION_FILTERS,
         category: category.category,
         type: category.type,
-        timeFrame: this.selectedTimeFrame
-      }
+        ...getTimeFrameDates(this.selectedTimeFrame, new Date(), this.settingsService.getWeekStartDay())
+      })
     });
   }
 
@@ -2,15 +2,20 @@ import { Component, OnInit, OnDestroy, ViewChild, ElementRef, AfterViewInit } fr
 import { CommonModule } from '@angular/common';
 import { Router, RouterModule } from '@angular/router';
 import { FormsModule } from '@angular/forms';
-import { TransactionService } from '../services/transaction.service';
+import { TransactionService, fromDateKey } from '../services/transaction.service';
 import { ThemeService } from '../theme.service';
 import { SettingsService } from '../services/settings.service';
+import { AccountService, getAccountBalances } from '../services/account.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { DEFAULT_TRANSACTION_FILTERS, filtersToQueryParams, getTimeFrameDates } from '../services/filter-preset.service';
 import {
   Transaction,
   TransactionSummary,
   CategorySummary
 } from '../models/transaction.model';
-import { Subscription } from 'rxjs';
+import { AccountBalance } from '../models/account.model';
+import { forkJoin, Subscription } from 'rxjs';
 import Chart from 'chart.js/auto';
 import { AuthService } from '../auth/auth';
 
@@ -37,6 +42,7 @@ export class DashboardComponent implements OnInit, OnDestroy, AfterViewInit {
   transactions: Transaction[] = [];
   summary: TransactionSummary | null = null;
   categorySummary: CategorySummary[] = [];
+  accountBalances: AccountBalance[] = [];
   isLoading = true;
   isDarkMode = false;
   hasChartData = false;
@@ -55,7 +61,10 @@ export class DashboardComponent implements OnInit, OnDestroy, AfterViewInit {
     private themeService: ThemeService,
     private settingsService: SettingsService,
     private router: Router,
-    private authService: AuthService
+    private authService: AuthService,
+    private accountService: AccountService,
+    private reconciliationService: ReconciliationService,
+    private exchangeRateService: ExchangeRateService
   ) { }
 
   ngOnInit() {
@@ -88,6 +97,7 @@ export class DashboardComponent implements OnInit, OnDestroy, AfterViewInit {
     this.subscriptions.push(budgetSettingsSub);
 
     this.loadDashboardData();
+    this.loadAccountBalances();
   }
 
   ngAfterViewInit() {
@@ -177,6 +187,26 @@ export class DashboardComponent implements OnInit, OnDestroy, AfterViewInit {
       });
   }
 
+  /**
+   * Current balance of every account; balances are all-time, so they do not
+   * follow the selected time frame
+   */
+  loadAccountBalances() {
+    forkJoin({
+      accounts: this.accountService.loadAccounts(),
+      transactions: this.transactionService.getAllTransactions('all')
+    }).subscribe({
+      next: ({ accounts, transactions }) => {
+        this.accountBalances = getAccountBalances(accounts, transactions, this.exchangeRateService.getCurrencyContext());
+      },
+      // No card rather than balances missing part of the history
+      error: (error) => {
+        console.error('❌ Account balances failed:', error);
+        this.accountBalances = [];
+      }
+    });
+  }
+
   /**
    * Check if spending is approaching or exceeding budget limits
    */
@@ -302,14 +332,26 @@ export class DashboardComponent implements OnInit, OnDestroy, AfterViewInit {
     }
   }
 
-  formatCurrency(amount: number | null | undefined): string {
-    return this.settingsService.formatCurrency(amount);
+  formatCurrency(amount: number | null | undefined, currency?: string): string {
+    return this.settingsService.formatCurrency(amount, currency);
+  }
+
+  getOriginalAmount(row: { currency?: string; originalAmount?: number }): string | null {
+    return this.settingsService.formatOriginalAmount(row);
   }
 
   formatDate(date: Date | string): string {
     return this.settingsService.formatDate(date);
   }
 
+  /**
+   * When the account was last reconciled with a bank statement
+   */
+  getReconciledLabel(accountId: string): string {
+    const last = this.reconciliationService.getLast(accountId);
+    return last ? `Reconciled ${this.formatDate(fromDateKey(last.statementDate))}` : 'Never reconciled';
+  }
+
   getBudgetProgress(): number {
     const totalExpenses = Number(this.summary?.totalExpenses) || 0;
     const budgetSettings = this.settingsService.getBudgetSettings();
@@ -344,6 +386,20 @@ export class DashboardComponent implements OnInit, OnDestroy, AfterViewInit {
     this.router.navigate([`/transactions/${this.authService.getCurrentUser()?.id}`]);
   }
 
+  /**
+   * Open the transaction list filtered to a category over the selected time frame
+   */
+  viewCategoryTransactions(category: CategorySummary, type: 'expense' | 'revenue'): void {
+    this.router.navigate([`/transactions/${this.authService.getCurrentUser()?.id}`], {
+      queryParams: filtersToQueryParams({
+        ...DEFAULT_TRANSACTION_FILTERS,
+        category: category.name,
+        type,
+        ...getTimeFrameDates(this.selectedTimeFrame, new Date(), this.settingsService.getWeekStartDay())
+      })
+    });
+  }
+
   retryLoad(): void {
     this.loadDashboardData();
   }
@@ -0,0 +1,65 @@
+import { Transaction } from '../models/transaction.model';
+import {
+  findDuplicateGroups,
+  findLikelyDuplicates,
+  getDuplicateScore,
+  normalizeDescription
+} from './duplicate-detector';
+
+function transaction(id: string, changes: Partial<Transaction>): Transaction {
+  return {
+    id,
+    amount: 4.5,
+    type: 'expense',
+    category: 'Food',
+    description: 'Starbucks',
+    tags: [],
+    createdAt: new Date(2026, 4, 10),
+    updatedAt: new Date(2026, 4, 10),
+    ...changes
+  };
+}
+
+describe('duplicate-detector', () => {
+  it('should normalize bank descriptions', () => {
+    expect(normalizeDescription('CARD 1234 STARBUCKS #88')).toBe('card starbucks');
+    expect(normalizeDescription('Café  Crème')).toBe('cafe creme');
+  });
+
+  it('should score identical entries 1 and drop with distance in days', () => {
+    const original = transaction('1', {});
+    expect(getDuplicateScore(original, transaction('2', {}))).toBe(1);
+    expect(getDuplicateScore(original, transaction('3', { createdAt: new Date(2026, 4, 13) }))).toBeCloseTo(0.89);
+    expect(getDuplicateScore(original, transaction('4', { createdAt: new Date(2026, 4, 20) }))).toBe(0);
+  });
+
+  it('should never match different types or amounts', () => {
+    const original = transaction('1', {});
+    expect(getDuplicateScore(original, transaction('2', { type: 'revenue' }))).toBe(0);
+    expect(getDuplicateScore(original, transaction('3', { amount: 5 }))).toBe(0);
+  });
+
+  it('should find likely duplicates of a draft, best first', () => {
+    const existing = [
+      transaction('1', { createdAt: new Date(2026, 4, 8) }),
+      transaction('2', { description: 'Lunch' }),
+      transaction('3', { description: 'POS STARBUCKS 0042' })
+    ];
+    const draft = { amount: 4.5, type: 'expense' as const, category: 'Food', description: 'Starbucks', createdAt: new Date(2026, 4, 10) };
+
+    expect(findLikelyDuplicates(draft, existing).map(match => match.transaction.id)).toEqual(['3', '1']);
+  });
+
+  it('should group chains of duplicates and leave unique transactions out', () => {
+    const groups = findDuplicateGroups([
+      transaction('a', {}),
+      transaction('b', { createdAt: new Date(2026, 4, 11) }),
+      transaction('c', { description: 'Rent', category: 'Bills', amount: 800 }),
+      transaction('d', { description: 'Rent', category: 'Bills', amount: 800, createdAt: new Date(2026, 5, 10) })
+    ]);
+
+    expect(groups.length).toBe(1);
+    expect(groups[0].transactions.map(t => t.id)).toEqual(['a', 'b']);
+    expect(groups[0].score).toBeCloseTo(0.96);
+  });
+});
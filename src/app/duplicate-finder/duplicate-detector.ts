@@ -0,0 +1,168 @@
+// duplicate-finder/duplicate-detector.ts
+import { Transaction, TransactionDraft } from '../models/transaction.model';
+
+// Fields compared when looking for duplicates; drafts without a date count as today
+export type DuplicateCandidate = Pick<TransactionDraft, 'amount' | 'type' | 'category' | 'description'> & {
+  date?: Date | string;
+  createdAt?: Date | string;
+};
+
+export interface DuplicateMatch {
+  transaction: Transaction;
+  // 0..1, see getDuplicateScore
+  score: number;
+}
+
+export interface DuplicateGroup {
+  // Oldest first
+  transactions: Transaction[];
+  // Best score between two members of the group
+  score: number;
+}
+
+// Scores at or above this are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// Entries further apart than this (days) are never duplicates
+export const DUPLICATE_WINDOW_DAYS = 7;
+
+const WEIGHTS = {
+  amount: 0.4,
+  date: 0.25,
+  category: 0.1,
+  description: 0.25
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercase a description and drop digits and punctuation, which banks fill
+ * with card numbers, references and dates ("CARD 1234 STARBUCKS #88")
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+function getDescriptionSimilarity(a: string, b: string): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) return 0.8;
+
+  // Dice coefficient over words
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  return (2 * shared) / (leftWords.size + rightWords.size);
+}
+
+function getAmountSimilarity(a: number, b: number): number {
+  const difference = Math.abs(a - b);
+  if (difference < 0.005) return 1;
+  // Within 1%: a tip added later, a rounding difference on the statement
+  return difference <= Math.max(Math.abs(a), Math.abs(b)) * 0.01 ? 0.5 : 0;
+}
+
+// The value date, else the creation time, else today
+function getCandidateDate(candidate: DuplicateCandidate): Date {
+  const date = candidate.date ?? candidate.createdAt;
+  return date ? new Date(date) : new Date();
+}
+
+function getDaysApart(a: DuplicateCandidate, b: DuplicateCandidate): number {
+  const left = getCandidateDate(a);
+  const right = getCandidateDate(b);
+  const leftDay = Date.UTC(left.getFullYear(), left.getMonth(), left.getDate());
+  const rightDay = Date.UTC(right.getFullYear(), right.getMonth(), right.getDate());
+  return Math.abs(leftDay - rightDay) / DAY_MS;
+}
+
+/**
+ * How alike two entries are, from 0 to 1: a weighted mix of amount, date
+ * proximity, category and description. Different types or amounts more
+ * than 1% apart never match.
+ */
+export function getDuplicateScore(a: DuplicateCandidate, b: DuplicateCandidate): number {
+  if (a.type !== b.type) return 0;
+
+  const amount = getAmountSimilarity(a.amount, b.amount);
+  if (amount === 0) return 0;
+
+  const daysApart = getDaysApart(a, b);
+  if (daysApart > DUPLICATE_WINDOW_DAYS) return 0;
+
+  const score =
+    WEIGHTS.amount * amount +
+    WEIGHTS.date * (1 - daysApart / DUPLICATE_WINDOW_DAYS) +
+    WEIGHTS.category * (a.category.toLowerCase() === b.category.toLowerCase() ? 1 : 0) +
+    WEIGHTS.description * getDescriptionSimilarity(a.description, b.description);
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Existing transactions that the candidate likely duplicates, best match first
+ */
+export function findLikelyDuplicates(
+  candidate: DuplicateCandidate,
+  transactions: Transaction[],
+  threshold: number = DUPLICATE_THRESHOLD
+): DuplicateMatch[] {
+  return transactions
+    .map(transaction => ({ transaction, score: getDuplicateScore(candidate, transaction) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Group transactions that look like copies of each other; a transaction
+ * matching any member of a group joins it. Newest groups come first.
+ */
+export function findDuplicateGroups(
+  transactions: Transaction[],
+  threshold: number = DUPLICATE_THRESHOLD
+): DuplicateGroup[] {
+  const sorted = [...transactions].sort((a, b) => getCandidateDate(a).getTime() - getCandidateDate(b).getTime());
+  const parents = sorted.map((_, index) => index);
+  const scores = new Map<number, number>();
+
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  // Sorted by date, so each entry only needs comparing with the ones inside the window
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (getDaysApart(sorted[i], sorted[j]) > DUPLICATE_WINDOW_DAYS) break;
+
+      const score = getDuplicateScore(sorted[i], sorted[j]);
+      if (score < threshold) continue;
+
+      const root = findRoot(i);
+      const other = findRoot(j);
+      const best = Math.max(score, scores.get(root) ?? 0, scores.get(other) ?? 0);
+      parents[other] = root;
+      scores.set(root, best);
+    }
+  }
+
+  const groups = new Map<number, Transaction[]>();
+  sorted.forEach((transaction, index) => {
+    const root = findRoot(index);
+    groups.set(root, [...(groups.get(root) ?? []), transaction]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ transactions: members, score: scores.get(root)! }))
+    .reverse();
+}
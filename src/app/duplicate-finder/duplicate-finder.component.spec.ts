@@ -0,0 +1,39 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DuplicateFinderComponent } from './duplicate-finder.component';
+
+describe('DuplicateFinderComponent', () => {
+  let component: DuplicateFinderComponent;
+  let fixture: ComponentFixture<DuplicateFinderComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DuplicateFinderComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DuplicateFinderComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should create', () => {
+    fixture.detectChanges();
+    expect(component).toBeTruthy();
+  });
+
+  it('should keep the copy with receipts by default', () => {
+    const day = new Date(2026, 4, 10);
+    component.transactions = [
+      { id: '1', amount: 20, type: 'expense', category: 'Food', description: 'Market', tags: ['weekly'], createdAt: day, updatedAt: day },
+      {
+        id: '2', amount: 20, type: 'expense', category: 'Food', description: 'MARKET 0042', tags: [], createdAt: day, updatedAt: day,
+        attachments: [{ id: 'a', fileName: 'receipt.jpg', contentType: 'image/jpeg', size: 1, uploadedAt: day }]
+      }
+    ];
+    fixture.detectChanges();
+
+    expect(component.reviews.length).toBe(1);
+    expect(component.reviews[0].keepId).toBe('2');
+    expect(fixture.nativeElement.querySelectorAll('.duplicate-row').length).toBe(2);
+  });
+});
@@ -0,0 +1,130 @@
+// duplicate-finder.component.ts
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Observable, of, throwError } from 'rxjs';
+import { concatMap, map } from 'rxjs/operators';
+import { TransactionService } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { BulkResult, Transaction } from '../models/transaction.model';
+import { DuplicateGroup, findDuplicateGroups } from './duplicate-detector';
+
+export interface DuplicateReview extends DuplicateGroup {
+  // Transaction that survives the merge
+  keepId: string;
+  error: string;
+}
+
+export interface DuplicateMerge {
+  kept: Transaction;
+  // Moved to the trash
+  removed: Transaction[];
+}
+
+/**
+ * Scans the recent history for groups of likely duplicates; merging keeps one
+ * transaction (with every tag of the group) and moves the others to the trash
+ */
+@Component({
+  selector: 'app-duplicate-finder',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './duplicate-finder.component.html',
+  styleUrls: ['./duplicate-finder.component.scss']
+})
+export class DuplicateFinderComponent implements OnInit {
+  @Input() transactions: Transaction[] = [];
+  @Output() merged = new EventEmitter<DuplicateMerge>();
+  @Output() closed = new EventEmitter<void>();
+
+  reviews: DuplicateReview[] = [];
+  isWorking = false;
+
+  constructor(
+    private transactionService: TransactionService,
+    private settingsService: SettingsService
+  ) { }
+
+  ngOnInit() {
+    this.scan();
+  }
+
+  scan() {
+    this.reviews = findDuplicateGroups(this.transactions).map(group => ({
+      ...group,
+      keepId: this.getDefaultKeep(group).id,
+      error: ''
+    }));
+    console.log(`🔍 Found ${this.reviews.length} group(s) of likely duplicates`);
+  }
+
+  /**
+   * Keep the copy with receipts if there is one, else the oldest
+   */
+  private getDefaultKeep(group: DuplicateGroup): Transaction {
+    return group.transactions.find(t => (t.attachments?.length ?? 0) > 0) ?? group.transactions[0];
+  }
+
+  merge(review: DuplicateReview) {
+    const kept = review.transactions.find(t => t.id === review.keepId)!;
+    const removed = review.transactions.filter(t => t.id !== review.keepId);
+    const tags = [...new Set(review.transactions.flatMap(t => t.tags))];
+
+    const update$: Observable<BulkResult<Transaction>> = tags.length === kept.tags.length
+      ? of({ succeeded: [kept], failed: [] })
+      : this.transactionService.updateTransactions([{ transaction: kept, changes: { tags } }]);
+
+    this.isWorking = true;
+    review.error = '';
+
+    update$.pipe(
+      concatMap(updated => updated.failed.length > 0
+        ? throwError(() => new Error(updated.failed[0].error))
+        : this.transactionService.deleteTransactions(removed).pipe(
+          map(deleted => ({ kept: updated.succeeded[0], deleted }))
+        ))
+    ).subscribe({
+      next: ({ kept: updated, deleted }) => {
+        this.isWorking = false;
+        const deletedIds = new Set(deleted.succeeded);
+        const moved = removed.filter(t => deletedIds.has(t.id));
+
+        review.transactions = review.transactions
+          .filter(t => !deletedIds.has(t.id))
+          .map(t => t.id === updated.id ? updated : t);
+        if (deleted.failed.length > 0) {
+          review.error = `${deleted.failed.length} transaction(s) could not be removed: ${deleted.failed[0].error}`;
+        }
+        if (review.transactions.length < 2) {
+          this.dismiss(review);
+        }
+
+        this.merged.emit({ kept: updated, removed: moved });
+      },
+      error: (err: Error) => {
+        this.isWorking = false;
+        review.error = err.message || 'Failed to merge the transactions';
+      }
+    });
+  }
+
+  /**
+   * "Not duplicates": hide the group until the next scan
+   */
+  dismiss(review: DuplicateReview) {
+    this.reviews = this.reviews.filter(r => r !== review);
+  }
+
+  close() {
+    if (this.isWorking) return;
+    this.closed.emit();
+  }
+
+  formatCurrency(amount: number): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+
+  formatDate(date: Date | string): string {
+    return this.settingsService.formatDate(date);
+  }
+}
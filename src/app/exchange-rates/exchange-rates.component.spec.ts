@@ -0,0 +1,106 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ExchangeRatesComponent } from './exchange-rates.component';
+import { ExchangeRate } from '../models/exchange-rate.model';
+import {
+  ExchangeRateService,
+  findExchangeRate,
+  parseExchangeRatesCsv,
+  rebaseTransaction,
+  rescaleSplits
+} from '../services/exchange-rate.service';
+import { Transaction } from '../models/transaction.model';
+
+function rate(date: string, from: string, to: string, value: number): ExchangeRate {
+  return { id: `${from}-${to}-${date}`, date, from, to, rate: value, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('ExchangeRatesComponent', () => {
+  let component: ExchangeRatesComponent;
+  let fixture: ComponentFixture<ExchangeRatesComponent>;
+  let service: ExchangeRateService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [ExchangeRatesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ExchangeRatesComponent);
+    component = fixture.componentInstance;
+    service = TestBed.inject(ExchangeRateService);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should use the rate closest to the date, inverted when stored the other way', () => {
+    const rates = [
+      rate('2026-05-01', 'EUR', 'USD', 1.1),
+      rate('2026-05-20', 'EUR', 'USD', 1.2),
+      rate('2026-05-10', 'USD', 'TND', 3.125)
+    ];
+
+    expect(findExchangeRate(rates, 'EUR', 'USD', '2026-05-08')).toBe(1.1);
+    expect(findExchangeRate(rates, 'EUR', 'USD', '2026-06-30')).toBe(1.2);
+    expect(findExchangeRate(rates, 'TND', 'USD', '2026-05-10')).toBe(0.32);
+    expect(findExchangeRate(rates, 'GBP', 'USD', '2026-05-10')).toBeNull();
+    expect(findExchangeRate(rates, 'USD', 'USD', '2026-05-10')).toBe(1);
+  });
+
+  it('should rescale split lines to a converted total', () => {
+    const lines = rescaleSplits([{ category: 'Food', amount: 10 }, { category: 'Fun', amount: 20 }], 33.34);
+    expect(lines.map(line => line.amount)).toEqual([11.11, 22.23]);
+
+    const thirds = rescaleSplits(['A', 'B', 'C'].map(category => ({ category, amount: 1 })), 10);
+    expect(thirds.map(line => line.amount)).toEqual([3.34, 3.33, 3.33]);
+  });
+
+  it('should restate transactions in a new base currency from what was paid', () => {
+    const day = new Date(2026, 4, 1);
+    const base = (overrides: Partial<Transaction>): Transaction => ({
+      id: 't', amount: 10, type: 'expense', category: 'Food', description: '', tags: [],
+      date: day, createdAt: day, updatedAt: day, ...overrides
+    });
+    const rates = [rate('2026-05-01', 'USD', 'EUR', 0.5), rate('2026-05-01', 'GBP', 'EUR', 1.2)];
+
+    expect(rebaseTransaction(base({ splits: [{ category: 'Food', amount: 4 }, { category: 'Fun', amount: 6 }] }), 'USD', 'EUR', rates))
+      .toEqual({ amount: 5, currency: 'USD', originalAmount: 10, splits: [{ category: 'Food', amount: 2 }, { category: 'Fun', amount: 3 }] });
+    expect(rebaseTransaction(base({ amount: 24, currency: 'GBP', originalAmount: 20 }), 'USD', 'EUR', rates))
+      .toEqual({ amount: 24, currency: 'GBP', originalAmount: 20 });
+    // Paid in the new base: no conversion left to record
+    expect(rebaseTransaction(base({ amount: 22, currency: 'EUR', originalAmount: 11 }), 'USD', 'EUR', rates))
+      .toEqual({ amount: 11, currency: '', originalAmount: undefined });
+    expect(rebaseTransaction(base({}), 'USD', 'JPY', rates)).toBeNull();
+  });
+
+  it('should import rates from CSV and skip rows that do not parse', () => {
+    const csv = 'Date,From,To,Rate\n2026-05-01,eur,USD,"1,0825"\n2026-13-01,EUR,USD,1.1\n2026-05-02,EUR,EUR,1\n';
+
+    expect(parseExchangeRatesCsv('when,rate\n2026-05-01,1').errors.length).toBe(1);
+    expect(parseExchangeRatesCsv(csv).drafts).toEqual([{ date: '2026-05-01', from: 'EUR', to: 'USD', rate: 1.0825 }]);
+
+    component.importCsv(csv);
+    component.importCsv(csv);
+    expect(component.importErrors.length).toBe(2);
+    // The second import replaced the rate for the same pair and day
+    expect(service.getAll().length).toBe(1);
+    expect(service.getRate('USD', 'EUR', '2026-05-01')).toBeCloseTo(1 / 1.0825);
+  });
+
+  it('should validate rates typed in by hand', () => {
+    component.form = { date: '2026-05-01', from: 'EUR', to: 'EUR', rate: 1 };
+    component.addRate();
+    expect(component.formError).toBe('The two currencies must differ');
+
+    component.form = { date: '2026-05-01', from: 'EUR', to: 'TND', rate: 3.4 };
+    component.addRate();
+    expect(component.formError).toBe('');
+    expect(component.rates.map(r => `${r.from}/${r.to} ${r.rate}`)).toEqual(['EUR/TND 3.4']);
+  });
+});
@@ -0,0 +1,127 @@
+// exchange-rates.component.ts
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ExchangeRateService, parseExchangeRatesCsv } from '../services/exchange-rate.service';
+import { SettingsService } from '../services/settings.service';
+import { fromDateKey, toDateKey } from '../services/transaction.service';
+import { ExchangeRate } from '../models/exchange-rate.model';
+
+interface RateForm {
+  date: string;
+  from: string;
+  to: string;
+  rate: number | null;
+}
+
+/**
+ * Dated exchange rates, typed in or imported from CSV, that convert
+ * foreign-currency transactions into the base currency
+ */
+@Component({
+  selector: 'app-exchange-rates',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './exchange-rates.component.html',
+  styleUrls: ['./exchange-rates.component.scss']
+})
+export class ExchangeRatesComponent implements OnInit, OnDestroy {
+  rates: ExchangeRate[] = [];
+  currencies: string[] = [];
+  form: RateForm = { date: '', from: '', to: '', rate: null };
+  formError = '';
+
+  // Outcome of the last CSV import
+  importMessage = '';
+  importErrors: string[] = [];
+
+  private ratesSub: Subscription | null = null;
+
+  constructor(
+    private exchangeRateService: ExchangeRateService,
+    private settingsService: SettingsService
+  ) { }
+
+  ngOnInit() {
+    this.currencies = this.settingsService.getCurrencies();
+    this.resetForm();
+    this.ratesSub = this.exchangeRateService.rates$.subscribe(rates => this.rates = rates);
+  }
+
+  ngOnDestroy() {
+    this.ratesSub?.unsubscribe();
+  }
+
+  getBaseCurrency(): string {
+    return this.settingsService.getAppSettings().currency;
+  }
+
+  resetForm() {
+    const base = this.getBaseCurrency();
+    this.form = {
+      date: toDateKey(new Date()),
+      from: this.currencies.find(currency => currency !== base) ?? '',
+      to: base,
+      rate: null
+    };
+    this.formError = '';
+  }
+
+  addRate() {
+    const { date, from, to, rate } = this.form;
+    if (!date || !from || !to) {
+      this.formError = 'Pick a date and two currencies';
+      return;
+    }
+    if (from === to) {
+      this.formError = 'The two currencies must differ';
+      return;
+    }
+    if (!rate || rate <= 0) {
+      this.formError = 'The rate must be greater than zero';
+      return;
+    }
+
+    this.exchangeRateService.add({ date, from, to, rate });
+    this.resetForm();
+  }
+
+  removeRate(rate: ExchangeRate) {
+    this.exchangeRateService.remove(rate.id);
+  }
+
+  /**
+   * Import a CSV with date, from, to and rate columns; rows that do not
+   * parse are listed and skipped
+   */
+  onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    file.text().then(
+      text => this.importCsv(text),
+      () => {
+        this.importMessage = 'Could not read the selected file.';
+        this.importErrors = [];
+      }
+    );
+  }
+
+  importCsv(text: string) {
+    const { drafts, errors } = parseExchangeRatesCsv(text);
+    const added = this.exchangeRateService.addMany(drafts);
+    this.importMessage = `Imported ${added.length} rate(s)${errors.length ? `, skipped ${errors.length}` : ''}`;
+    this.importErrors = errors;
+  }
+
+  formatDate(dateKey: string): string {
+    return this.settingsService.formatDate(fromDateKey(dateKey));
+  }
+
+  trackRate(_: number, rate: ExchangeRate): string {
+    return rate.id;
+  }
+}
@@ -0,0 +1,138 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { convertToParamMap } from '@angular/router';
+
+import { FilterPresetsComponent, describeFilters } from './filter-presets.component';
+import {
+  DEFAULT_TRANSACTION_FILTERS,
+  FilterPresetService,
+  areFiltersEqual,
+  filtersFromQueryParams,
+  filtersToQueryParams,
+  getTimeFrameDates,
+  matchesTransactionFilters,
+  resolvePresetFilters
+} from '../services/filter-preset.service';
+import { FilterPreset } from '../models/filter-preset.model';
+import { Transaction } from '../models/transaction.model';
+
+describe('FilterPresetsComponent', () => {
+  let component: FilterPresetsComponent;
+  let fixture: ComponentFixture<FilterPresetsComponent>;
+  let service: FilterPresetService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [FilterPresetsComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(FilterPresetsComponent);
+    component = fixture.componentInstance;
+    service = TestBed.inject(FilterPresetService);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should save the current filters as a view and reject duplicate names', () => {
+    const opened: FilterPreset[] = [];
+    component.presetOpened.subscribe(preset => opened.push(preset));
+    component.currentFilters = { ...DEFAULT_TRANSACTION_FILTERS, type: 'expense', category: 'Food' };
+
+    component.startSave();
+    component.savePreset();
+    expect(component.formError).toBe('Give the view a name');
+
+    component.form.name = 'Groceries';
+    component.form.pinned = true;
+    component.savePreset();
+    expect(component.presets.length).toBe(1);
+    expect(component.presets[0]).toEqual(expect.objectContaining({ name: 'Groceries', pinned: true }));
+    expect(opened[0].filters.category).toBe('Food');
+
+    component.startSave();
+    component.form.name = ' groceries ';
+    component.savePreset();
+    expect(component.formError).toBe('A view named "groceries" already exists');
+    expect(service.getAll().length).toBe(1);
+  });
+
+  it('should flag a view as modified once the filters change', () => {
+    const preset = service.add({ name: 'Food', filters: { ...DEFAULT_TRANSACTION_FILTERS, category: 'Food' }, dateRange: 'fixed', pinned: false });
+    component.activePresetId = preset.id;
+    component.currentFilters = { ...preset.filters };
+    expect(component.isModified()).toBe(false);
+
+    component.currentFilters = { ...preset.filters, tag: 'work' };
+    expect(component.isModified()).toBe(true);
+  });
+});
+
+describe('filter presets', () => {
+  const transaction = (overrides: Partial<Transaction>): Transaction => ({
+    id: '1', amount: 20, type: 'expense', category: 'Food', description: 'Lunch', tags: [],
+    createdAt: new Date(2026, 3, 15, 12), updatedAt: new Date(2026, 3, 15, 12), ...overrides
+  });
+
+  it('should resolve rolling date ranges against today', () => {
+    const today = new Date(2026, 2, 10);
+    const filters = { ...DEFAULT_TRANSACTION_FILTERS, startDate: '2020-01-01', endDate: '2020-01-31' };
+
+    expect(resolvePresetFilters({ filters, dateRange: 'fixed' }, today)).toEqual(filters);
+    expect(resolvePresetFilters({ filters, dateRange: 'last-7-days' }, today)).toEqual(
+      expect.objectContaining({ startDate: '2026-03-04', endDate: '2026-03-10' }));
+    expect(resolvePresetFilters({ filters, dateRange: 'last-month' }, today)).toEqual(
+      expect.objectContaining({ startDate: '2026-02-01', endDate: '2026-02-28' }));
+    expect(resolvePresetFilters({ filters, dateRange: 'this-year' }, today)).toEqual(
+      expect.objectContaining({ startDate: '2026-01-01', endDate: '2026-12-31' }));
+  });
+
+  it('should round-trip filters through URL query parameters', () => {
+    const filters = { ...DEFAULT_TRANSACTION_FILTERS, category: 'Food', type: 'expense' as const, startDate: '2026-03-01' };
+    const params = filtersToQueryParams(filters);
+    const fallback = { ...DEFAULT_TRANSACTION_FILTERS, tag: 'work' };
+
+    expect(params).toEqual(expect.objectContaining({ category: 'Food', type: 'expense', from: '2026-03-01', q: null, to: null }));
+    expect(filtersFromQueryParams(convertToParamMap(params))).toEqual(filters);
+    expect(filtersFromQueryParams(convertToParamMap({ view: 'v1' }), fallback)).toEqual(fallback);
+    expect(filtersFromQueryParams(convertToParamMap({ type: 'gift', to: 'soon' }), fallback)).toEqual(DEFAULT_TRANSACTION_FILTERS);
+  });
+
+  it('should turn dashboard time frames into date ranges', () => {
+    const today = new Date(2026, 2, 10);
+
+    expect(getTimeFrameDates('day', today)).toEqual({ startDate: '2026-03-10', endDate: '2026-03-10' });
+    expect(getTimeFrameDates('week', today)).toEqual({ startDate: '2026-03-09', endDate: '2026-03-15' });
+    expect(getTimeFrameDates('week', today, 0)).toEqual({ startDate: '2026-03-08', endDate: '2026-03-14' });
+    expect(getTimeFrameDates('month', today)).toEqual({ startDate: '2026-03-01', endDate: '2026-03-31' });
+    expect(getTimeFrameDates('all', today)).toEqual({ startDate: '', endDate: '' });
+  });
+
+  it('should match transactions against filters and the search query', () => {
+    const filters = { ...DEFAULT_TRANSACTION_FILTERS, type: 'expense' as const, startDate: '2026-04-01', search: 'amount>10 -tag:work' };
+
+    expect(matchesTransactionFilters(transaction({}), filters)).toBe(true);
+    expect(matchesTransactionFilters(transaction({ tags: ['work'] }), filters)).toBe(false);
+    expect(matchesTransactionFilters(transaction({ createdAt: new Date(2026, 2, 31) }), filters)).toBe(false);
+    // The value date wins over when the transaction was entered
+    expect(matchesTransactionFilters(transaction({ date: new Date(2026, 2, 31) }), filters)).toBe(false);
+    expect(matchesTransactionFilters(transaction({ date: new Date(2026, 3, 1), createdAt: new Date(2026, 3, 3) }), filters)).toBe(true);
+    expect(matchesTransactionFilters(transaction({ type: 'revenue' }), filters)).toBe(false);
+    expect(matchesTransactionFilters(transaction({ accountId: 'a1' }), { ...filters, accountId: 'a2' })).toBe(false);
+    expect(matchesTransactionFilters(transaction({}), { ...filters, search: 'amount>' })).toBe(true);
+  });
+
+  it('should compare and describe filter states', () => {
+    const filters = { ...DEFAULT_TRANSACTION_FILTERS, type: 'expense' as const, tag: 'work', startDate: '2026-01-01', search: ' coffee ' };
+
+    expect(areFiltersEqual(filters, { ...filters })).toBe(true);
+    expect(areFiltersEqual(filters, { ...filters, tag: 'all' })).toBe(false);
+    expect(describeFilters(filters)).toBe('Expenses · #work · from 2026-01-01 · "coffee"');
+    expect(describeFilters(DEFAULT_TRANSACTION_FILTERS)).toBe('All transactions');
+  });
+});
@@ -0,0 +1,167 @@
+// filter-presets.component.ts
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { FilterPreset, PresetDateRange, TransactionFilters } from '../models/filter-preset.model';
+import {
+  DEFAULT_TRANSACTION_FILTERS,
+  FilterPresetService,
+  PRESET_DATE_RANGES,
+  areFiltersEqual,
+  resolvePresetFilters
+} from '../services/filter-preset.service';
+
+interface PresetForm {
+  name: string;
+  dateRange: PresetDateRange;
+  pinned: boolean;
+  replaceFilters: boolean; // editing only: save the current filters over the old ones
+}
+
+/**
+ * One-line summary of a filter state, e.g. "Expenses · Food · #work · from 2026-01-01"
+ */
+export function describeFilters(filters: TransactionFilters, getAccountName: (id: string) => string | undefined = () => undefined): string {
+  const typeLabels = { expense: 'Expenses', revenue: 'Revenue', transfer: 'Transfers' };
+  const parts = [
+    filters.accountId !== 'all' ? getAccountName(filters.accountId) ?? 'One account' : '',
+    filters.type !== 'all' ? typeLabels[filters.type] : '',
+    filters.category !== 'all' ? filters.category : '',
+    filters.tag !== 'all' ? `#${filters.tag}` : '',
+    filters.startDate && filters.endDate ? `${filters.startDate} → ${filters.endDate}` : '',
+    filters.startDate && !filters.endDate ? `from ${filters.startDate}` : '',
+    !filters.startDate && filters.endDate ? `until ${filters.endDate}` : '',
+    filters.search.trim() ? `"${filters.search.trim()}"` : ''
+  ];
+  return parts.filter(Boolean).join(' · ') || 'All transactions';
+}
+
+@Component({
+  selector: 'app-filter-presets',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './filter-presets.component.html',
+  styleUrls: ['./filter-presets.component.scss']
+})
+export class FilterPresetsComponent implements OnInit, OnDestroy {
+  @Input() currentFilters: TransactionFilters = { ...DEFAULT_TRANSACTION_FILTERS };
+  @Input() activePresetId: string | null = null;
+  @Input() getAccountName: (id: string) => string | undefined = () => undefined;
+
+  @Output() presetOpened = new EventEmitter<FilterPreset>();
+  @Output() presetClosed = new EventEmitter<void>();
+  @Output() exportRequested = new EventEmitter<FilterPreset>();
+
+  presets: FilterPreset[] = [];
+  dateRanges = PRESET_DATE_RANGES;
+
+  showForm = false;
+  editingId: string | null = null;
+  form: PresetForm = this.getEmptyForm();
+  formError = '';
+
+  private presetsSub?: Subscription;
+
+  constructor(private filterPresetService: FilterPresetService) { }
+
+  ngOnInit() {
+    this.presetsSub = this.filterPresetService.presets$.subscribe(presets => this.presets = presets);
+  }
+
+  ngOnDestroy() {
+    this.presetsSub?.unsubscribe();
+  }
+
+  getActivePreset(): FilterPreset | undefined {
+    return this.presets.find(p => p.id === this.activePresetId);
+  }
+
+  /**
+   * The list has been filtered differently since the view was opened
+   */
+  isModified(): boolean {
+    const active = this.getActivePreset();
+    return !!active && !areFiltersEqual(resolvePresetFilters(active), this.currentFilters);
+  }
+
+  describePreset(preset: FilterPreset): string {
+    const filters = describeFilters(resolvePresetFilters(preset), this.getAccountName);
+    const range = preset.dateRange === 'fixed' ? '' : ` (${this.dateRanges.find(r => r.value === preset.dateRange)?.label})`;
+    return filters + range;
+  }
+
+  describeCurrentFilters(): string {
+    return describeFilters(this.currentFilters, this.getAccountName);
+  }
+
+  startSave() {
+    this.editingId = null;
+    this.form = this.getEmptyForm();
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  startEdit(preset: FilterPreset) {
+    this.editingId = preset.id;
+    this.form = { name: preset.name, dateRange: preset.dateRange, pinned: preset.pinned, replaceFilters: this.isModified() };
+    this.formError = '';
+    this.showForm = true;
+  }
+
+  cancelForm() {
+    this.showForm = false;
+    this.editingId = null;
+  }
+
+  savePreset() {
+    const name = this.form.name.trim();
+    if (!name) {
+      this.formError = 'Give the view a name';
+      return;
+    }
+    if (this.presets.some(p => p.id !== this.editingId && p.name.toLowerCase() === name.toLowerCase())) {
+      this.formError = `A view named "${name}" already exists`;
+      return;
+    }
+
+    if (this.editingId) {
+      const id = this.editingId;
+      this.filterPresetService.update(id, {
+        name,
+        dateRange: this.form.dateRange,
+        pinned: this.form.pinned,
+        ...(this.form.replaceFilters && { filters: { ...this.currentFilters } })
+      });
+      if (this.form.replaceFilters || this.form.dateRange !== 'fixed') {
+        this.presetOpened.emit(this.filterPresetService.get(id));
+      }
+    } else {
+      const created = this.filterPresetService.add({
+        name,
+        filters: { ...this.currentFilters },
+        dateRange: this.form.dateRange,
+        pinned: this.form.pinned
+      });
+      this.presetOpened.emit(created);
+    }
+    this.cancelForm();
+  }
+
+  togglePin(preset: FilterPreset) {
+    this.filterPresetService.update(preset.id, { pinned: !preset.pinned });
+  }
+
+  deletePreset(preset: FilterPreset) {
+    if (!confirm(`Delete the view "${preset.name}"? Transactions are not affected.`)) return;
+
+    this.filterPresetService.remove(preset.id);
+    if (preset.id === this.activePresetId) {
+      this.presetClosed.emit();
+    }
+  }
+
+  private getEmptyForm(): PresetForm {
+    return { name: '', dateRange: 'fixed', pinned: false, replaceFilters: false };
+  }
+}
@@ -4,12 +4,13 @@ import { CommonModule } from '@angular/common';
 import { Router } from '@angular/router';
 import { AuthService } from '../auth/auth';
 import { ThemeService } from '../theme.service';
+import { QuickAddComponent } from '../quick-add/quick-add.component';
 import { Subscription } from 'rxjs';
 
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, QuickAddComponent],
   templateUrl: './header.component.html',
   styleUrls: ['./header.component.scss']
 })
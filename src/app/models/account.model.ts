@@ -0,0 +1,20 @@
+// models/account.model.ts
+export type AccountKind = 'cash' | 'checking' | 'savings' | 'credit-card';
+
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: number;
+  currency: string;
+  createdAt: Date;
+}
+
+export type AccountDraft = Omit<Account, 'id' | 'createdAt'>;
+
+export interface AccountBalance {
+  account: Account;
+  // In the account's currency; null when a transaction has no rate into it
+  balance: number | null;
+  transactionCount: number;
+}
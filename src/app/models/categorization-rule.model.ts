@@ -0,0 +1,48 @@
+// models/categorization-rule.model.ts
+import { Transaction, TransactionDraft } from './transaction.model';
+
+export type DescriptionMatch = 'contains' | 'regex';
+
+/**
+ * Every set condition must hold; an empty pattern or unset bound matches anything.
+ * Transfers never match.
+ */
+export interface RuleConditions {
+  descriptionMatch: DescriptionMatch;
+  // Case-insensitive text or regular expression
+  descriptionPattern: string;
+  minAmount?: number;
+  maxAmount?: number;
+  type?: 'expense' | 'revenue';
+}
+
+export interface RuleActions {
+  category?: string;
+  tags?: string[]; // added, existing tags are kept
+  description?: string;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  // Lower runs first; when two rules set the same field the first one wins
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type CategorizationRuleDraft = Omit<CategorizationRule, 'id' | 'priority' | 'createdAt'>;
+
+export interface RuleResult {
+  // Only the fields the rules actually change
+  changes: Partial<TransactionDraft>;
+  // Names of the rules that matched, in the order they ran
+  ruleNames: string[];
+}
+
+export interface RulePreviewRow {
+  transaction: Transaction;
+  result: RuleResult;
+}
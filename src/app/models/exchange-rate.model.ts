@@ -0,0 +1,15 @@
+// models/exchange-rate.model.ts
+
+/**
+ * On `date`, one unit of `from` was worth `rate` units of `to`
+ */
+export interface ExchangeRate {
+  id: string;
+  date: string; // YYYY-MM-DD
+  from: string; // currency code
+  to: string; // currency code
+  rate: number;
+  createdAt: string; // ISO timestamp
+}
+
+export type ExchangeRateDraft = Omit<ExchangeRate, 'id' | 'createdAt'>;
@@ -0,0 +1,31 @@
+// models/filter-preset.model.ts
+import { TransactionType } from './transaction.model';
+
+/**
+ * Rolling date windows, resolved against today whenever a preset is
+ * opened; 'fixed' keeps the saved start/end dates
+ */
+export type PresetDateRange = 'fixed' | 'last-7-days' | 'last-30-days' | 'this-month' | 'last-month' | 'this-year';
+
+// The filter state of the transaction list
+export interface TransactionFilters {
+  accountId: string; // 'all' or an account id
+  search: string; // search box query text
+  type: 'all' | TransactionType;
+  category: string; // 'all' or a category
+  tag: string; // 'all' or a tag
+  startDate: string; // YYYY-MM-DD or ''
+  endDate: string; // YYYY-MM-DD or ''
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: TransactionFilters;
+  dateRange: PresetDateRange;
+  pinned: boolean; // listed in the sidebar
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FilterPresetDraft = Pick<FilterPreset, 'name' | 'filters' | 'dateRange' | 'pinned'>;
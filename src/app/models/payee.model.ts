@@ -0,0 +1,29 @@
+// models/payee.model.ts
+import { Transaction } from './transaction.model';
+
+/**
+ * A merchant or person; aliases are the other spellings bank statements use
+ * for it ("STARBUCKS #123", "Starbucks Paris")
+ */
+export interface Payee {
+  id: string;
+  name: string;
+  aliases: string[];
+  // Suggested when the payee is picked for a new transaction
+  defaultCategory?: string;
+  // Hex color of the payee's badge
+  color?: string;
+  createdAt: Date;
+}
+
+export type PayeeDraft = Omit<Payee, 'id' | 'createdAt'>;
+
+export interface PayeeSummary {
+  payee: Payee;
+  totalExpenses: number;
+  totalRevenue: number;
+  transactionCount: number;
+  lastDate: Date | null;
+  // Transactions without a payee whose description matches this one
+  unlinked: Transaction[];
+}
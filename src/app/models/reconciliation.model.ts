@@ -0,0 +1,16 @@
+// models/reconciliation.model.ts
+
+/**
+ * A bank statement checked against the ledger: the transactions ticked off as
+ * cleared add up to the statement's ending balance
+ */
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string; // YYYY-MM-DD
+  statementBalance: number;
+  transactionIds: string[];
+  reconciledAt: string; // ISO timestamp
+}
+
+export type ReconciliationDraft = Omit<Reconciliation, 'id' | 'reconciledAt'>;
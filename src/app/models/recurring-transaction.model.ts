@@ -0,0 +1,46 @@
+// models/recurring-transaction.model.ts
+import { TransactionDraft } from './transaction.model';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Which day a monthly/yearly schedule lands on:
+ * - a number (1-31), clamped to the last day of shorter months
+ * - 'last' for the last day of the month
+ */
+export type DayOfMonthRule = number | 'last';
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive
+  count?: number; // total number of occurrences
+  dayOfMonth?: DayOfMonthRule; // monthly/yearly only, defaults to the start date's day
+}
+
+// The amount is in `currency` when one is set (what is paid each time), and
+// converted into the base currency at the rate of each occurrence's day
+export type RecurringTemplate = Pick<TransactionDraft, 'amount' | 'type' | 'category' | 'description' | 'tags' | 'accountId' | 'currency'>;
+
+export interface RecurringTransaction {
+  id: string;
+  template: RecurringTemplate;
+  schedule: RecurrenceSchedule;
+  active: boolean;
+  // Occurrence dates (YYYY-MM-DD) that were already created or skipped
+  generatedDates: string[];
+  skippedDates: string[];
+  // One-off edits keyed by occurrence date
+  overrides: Record<string, Partial<RecurringTemplate>>;
+  createdAt: string;
+}
+
+export interface RecurringOccurrence {
+  recurringId: string;
+  key: string; // YYYY-MM-DD
+  date: Date;
+  draft: TransactionDraft;
+  isDue: boolean;
+  isEdited: boolean;
+}
@@ -1,12 +1,133 @@
 // models/transaction.model.ts
+// Transfers move money between two of the user's accounts; they are not
+// income or spending
+export type TransactionType = 'expense' | 'revenue' | 'transfer';
+
 export interface Transaction {
   id: string;
+  // In the base currency; every total, budget and report adds these up
   amount: number;
-  type: 'expense' | 'revenue';
+  // Set when the money moved in another currency: what was actually paid,
+  // converted into `amount` at the exchange rate of the day
+  currency?: string;
+  originalAmount?: number;
+  type: TransactionType;
   category: string;
   description: string;
+  // Source account for transfers
+  accountId?: string;
+  // Destination account, only set on transfers
+  toAccountId?: string;
+  // Merchant or person the money went to / came from
+  payeeId?: string;
+  externalId?: string;
+  // Present when the amount is split across categories; `category` then
+  // holds the category of the largest line
+  splits?: SplitLine[];
+  tags: string[];
+  attachments?: Attachment[];
+  // When the money actually moved (value date); budgets, filters and reports
+  // use it. Older transactions without one fall back to createdAt.
+  date?: Date;
   createdAt: Date;
   updatedAt: Date;
+  // Set while the transaction is in the trash
+  deletedAt?: Date;
+}
+
+export interface SplitLine {
+  category: string;
+  amount: number;
+  note?: string;
+}
+
+// Receipt or invoice stored with a transaction (image or PDF)
+export interface Attachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number; // bytes
+  uploadedAt: Date;
+}
+
+/**
+ * Payload for creating a transaction (server assigns id and timestamps;
+ * imports pass the statement date as the value date)
+ */
+export type TransactionDraft = Omit<Transaction, 'id' | 'tags' | 'createdAt' | 'updatedAt' | 'deletedAt'> & {
+  tags?: string[];
+};
+
+/**
+ * Filters and page for a server-side transaction listing; unset filters
+ * are not sent
+ */
+export interface TransactionQuery {
+  page: number;
+  limit: number;
+  // Most significant key first
+  sort?: TransactionSort[];
+  search?: string;
+  type?: TransactionType;
+  category?: string;
+  tag?: string;
+  accountId?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+export type TransactionSortField = 'date' | 'amount' | 'category' | 'type';
+
+export interface TransactionSort {
+  field: TransactionSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  total: number; // matches across all pages
+  page: number;
+  limit: number;
+}
+
+/**
+ * One save in a transaction's audit trail: who made it, when, and the
+ * fields it changed
+ */
+export interface TransactionHistoryEntry {
+  id: string;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  changedAt: Date;
+  // Household members share transactions, so this is not always the viewer
+  changedBy: { id: string; username: string };
+  changes: TransactionFieldChange[];
+}
+
+export interface TransactionFieldChange {
+  field: string; // Transaction property, e.g. "category"
+  // Values as the server stores them; null when the field was empty
+  from: unknown;
+  to: unknown;
+}
+
+// One item of a bulk edit: the transaction as loaded and what to change on it
+export interface TransactionUpdate {
+  transaction: Transaction;
+  changes: Partial<TransactionDraft>;
+}
+
+/**
+ * Outcome of a bulk operation: items that went through and the ones the
+ * server rejected, with the reason
+ */
+export interface BulkResult<T> {
+  succeeded: T[];
+  failed: BulkFailure[];
+}
+
+export interface BulkFailure {
+  id: string;
+  error: string;
 }
 
 export interface TransactionSummary {
@@ -0,0 +1,45 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PayeeInputComponent } from './payee-input.component';
+import { Payee } from '../models/payee.model';
+
+function payee(id: string, name: string, aliases: string[] = []): Payee {
+  return { id, name, aliases, createdAt: new Date(2026, 0, 1) };
+}
+
+describe('PayeeInputComponent', () => {
+  let component: PayeeInputComponent;
+  let fixture: ComponentFixture<PayeeInputComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PayeeInputComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PayeeInputComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should suggest payees by name or alias and offer to create new ones', () => {
+    component.payees = [payee('1', 'Starbucks', ['sbux']), payee('2', 'Carrefour'), payee('3', 'Bus Company')];
+    const picked: (string | undefined)[] = [];
+    component.payeeIdChange.subscribe(id => picked.push(id));
+
+    component.query = 'sb';
+    expect(component.getMatches().map(p => p.name)).toEqual(['Starbucks']);
+    component.query = 'bu';
+    expect(component.getMatches().map(p => p.name)).toEqual(['Bus Company', 'Starbucks']);
+    expect(component.canCreate()).toBe(true);
+
+    component.pick(component.payees[0]);
+    expect(picked).toEqual(['1']);
+    expect(component.query).toBe('Starbucks');
+    expect(component.canCreate()).toBe(false);
+  });
+});
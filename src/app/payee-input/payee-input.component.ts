@@ -0,0 +1,123 @@
+// payee-input.component.ts
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Payee } from '../models/payee.model';
+import { searchPayees } from '../services/payee.service';
+
+/**
+ * Payee autocomplete; typing a name that is not a payee yet offers to create it
+ */
+@Component({
+  selector: 'app-payee-input',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './payee-input.component.html',
+  styleUrls: ['./payee-input.component.scss']
+})
+export class PayeeInputComponent implements OnChanges {
+  @Input() payees: Payee[] = [];
+  @Input() payeeId: string | undefined;
+  @Output() payeeIdChange = new EventEmitter<string | undefined>();
+  // A payee chosen from the list (not set from outside), e.g. to apply its default category
+  @Output() picked = new EventEmitter<Payee>();
+  @Output() createRequested = new EventEmitter<string>();
+
+  @Input() inputId = 'payee';
+
+  query = '';
+  highlightedIndex = -1;
+  showSuggestions = false;
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['payeeId'] || changes['payees']) {
+      const selected = this.getSelected();
+      if (selected) {
+        this.query = selected.name;
+      } else if (changes['payeeId'] && !this.payeeId) {
+        this.query = '';
+      }
+    }
+  }
+
+  getSelected(): Payee | undefined {
+    return this.payees.find(payee => payee.id === this.payeeId);
+  }
+
+  getMatches(): Payee[] {
+    return searchPayees(this.payees, this.getSelected() ? '' : this.query);
+  }
+
+  canCreate(): boolean {
+    const name = this.query.trim().toLowerCase();
+    return !!name && !this.payees.some(payee => payee.name.toLowerCase() === name);
+  }
+
+  pick(payee: Payee) {
+    this.query = payee.name;
+    this.showSuggestions = false;
+    this.highlightedIndex = -1;
+    this.payeeIdChange.emit(payee.id);
+    this.picked.emit(payee);
+  }
+
+  create() {
+    const name = this.query.trim();
+    this.showSuggestions = false;
+    if (name) {
+      this.createRequested.emit(name);
+    }
+  }
+
+  clear() {
+    this.query = '';
+    this.payeeIdChange.emit(undefined);
+  }
+
+  onInput() {
+    this.showSuggestions = true;
+    this.highlightedIndex = -1;
+    // Editing the text drops the selection until a payee is picked again
+    if (this.payeeId && this.getSelected()?.name !== this.query) {
+      this.payeeIdChange.emit(undefined);
+    }
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    const matches = this.getMatches();
+
+    switch (event.key) {
+      case 'Enter':
+        if (!this.showSuggestions) return;
+        event.preventDefault();
+        if (this.highlightedIndex >= 0 && matches[this.highlightedIndex]) {
+          this.pick(matches[this.highlightedIndex]);
+        } else if (this.highlightedIndex === matches.length && this.canCreate()) {
+          this.create();
+        }
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.showSuggestions = true;
+        this.highlightedIndex = Math.min(this.highlightedIndex + 1, matches.length - (this.canCreate() ? 0 : 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.highlightedIndex = Math.max(this.highlightedIndex - 1, -1);
+        break;
+      case 'Escape':
+        // Close an open list only, not a dialog the input sits in
+        if (this.showSuggestions && (matches.length > 0 || this.canCreate())) {
+          event.stopPropagation();
+        }
+        this.showSuggestions = false;
+        this.highlightedIndex = -1;
+        break;
+    }
+  }
+
+  onBlur() {
+    // Let a click on a suggestion land before the list disappears
+    setTimeout(() => this.showSuggestions = false, 150);
+  }
+}
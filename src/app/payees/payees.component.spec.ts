@@ -0,0 +1,97 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { PayeesComponent } from './payees.component';
+import { Payee } from '../models/payee.model';
+import { Transaction } from '../models/transaction.model';
+import { PayeeService, findPayeeByDescription, getMergedPayee, getPayeeSummaries } from '../services/payee.service';
+import { TransactionService } from '../services/transaction.service';
+
+function payee(id: string, name: string, changes: Partial<Payee> = {}): Payee {
+  return { id, name, aliases: [], createdAt: new Date(2026, 0, 1), ...changes };
+}
+
+function transaction(id: string, amount: number, description: string, changes: Partial<Transaction> = {}): Transaction {
+  const day = new Date(2026, 4, Number(id));
+  return { id, amount, type: 'expense', category: 'Food', description, tags: [], createdAt: day, updatedAt: day, ...changes };
+}
+
+describe('PayeesComponent', () => {
+  let component: PayeesComponent;
+  let fixture: ComponentFixture<PayeesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PayeesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PayeesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should find payees named in a description, longest alias first', () => {
+    const payees = [
+      payee('1', 'Starbucks', { aliases: ['SBUX'] }),
+      payee('2', 'Starbucks Airport', { aliases: ['Starbucks CDG'] }),
+      payee('3', 'Bus')
+    ];
+
+    expect(findPayeeByDescription(payees, 'CB SBUX 1234')?.id).toBe('1');
+    expect(findPayeeByDescription(payees, 'STARBUCKS CDG T2')?.id).toBe('2');
+    expect(findPayeeByDescription(payees, 'Business lunch')).toBeNull();
+  });
+
+  it('should total linked transactions and list matching unlinked ones', () => {
+    const payees = [payee('1', 'Bakery'), payee('2', 'Employer', { aliases: ['ACME Corp'] })];
+    const [bakery, employer] = getPayeeSummaries(payees, [
+      transaction('1', 4.2, 'Bread', { payeeId: '1' }),
+      transaction('2', 3.1, 'Croissant', { payeeId: '1' }),
+      transaction('3', 2000, 'Salary', { payeeId: '2', type: 'revenue', category: 'Salary' }),
+      transaction('4', 2000, 'ACME CORP PAYROLL', { type: 'revenue', category: 'Salary' })
+    ]);
+
+    expect(bakery).toEqual(expect.objectContaining({ transactionCount: 2, totalExpenses: 7.3, totalRevenue: 0 }));
+    expect(bakery.lastDate).toEqual(new Date(2026, 4, 2));
+    expect(employer.totalRevenue).toBe(2000);
+    expect(employer.unlinked.map(t => t.id)).toEqual(['4']);
+  });
+
+  it('should fold merged payees into the target as aliases', () => {
+    const target = payee('1', 'Starbucks', { aliases: ['SBUX'] });
+    const merged = getMergedPayee(target, [
+      payee('2', 'Starbucks Coffee', { aliases: ['sbux', 'STARBUCKS'], defaultCategory: 'Food', color: '#059669' })
+    ]);
+
+    expect(merged).toEqual({ name: 'Starbucks', aliases: ['SBUX', 'Starbucks Coffee'], defaultCategory: 'Food', color: '#059669' });
+  });
+
+  it('should move the whole history before deleting merged payees, and keep them while the trash points at them', () => {
+    const payeeService = TestBed.inject(PayeeService);
+    const transactionService = TestBed.inject(TransactionService);
+    const target = payee('1', 'Starbucks');
+    const source = payee('2', 'SBUX');
+    const history = [transaction('1', 4, 'Coffee', { payeeId: '2' }), transaction('2', 5, 'Old coffee', { payeeId: '2' })];
+    vi.spyOn(payeeService, 'updatePayee').mockReturnValue(of(target));
+    const link = vi.spyOn(transactionService, 'updateTransactions').mockReturnValue(of({ succeeded: history, failed: [] }));
+    const remove = vi.spyOn(payeeService, 'deletePayee').mockReturnValue(of(undefined));
+    vi.spyOn(transactionService, 'getAllTransactions').mockReturnValue(of(history));
+    const trash = vi.spyOn(transactionService, 'getDeletedTransactions')
+      .mockReturnValue(of([transaction('3', 6, 'Trashed coffee', { payeeId: '2' })]));
+
+    let failed: string[] = [];
+    payeeService.mergePayees(target, [source]).subscribe(result => failed = result.failed.map(f => f.id));
+    expect(link.mock.calls[0][0].map(update => update.transaction.id)).toEqual(['1', '2']);
+    expect(failed).toEqual(['3']);
+    expect(remove).not.toHaveBeenCalled();
+
+    trash.mockReturnValue(of([]));
+    payeeService.mergePayees(target, [source]).subscribe();
+    expect(remove).toHaveBeenCalledWith('2');
+  });
+});
@@ -0,0 +1,289 @@
+// payees.component.ts
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { PAYEE_COLORS, PayeeService, getMergedPayee, getPayeeSummaries } from '../services/payee.service';
+import { TransactionService, getTransactionDate } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { Payee, PayeeDraft, PayeeSummary } from '../models/payee.model';
+import { BulkResult, Transaction } from '../models/transaction.model';
+
+interface PayeeForm {
+  name: string;
+  // Comma-separated, as typed
+  aliases: string;
+  defaultCategory: string;
+  color: string;
+}
+
+// History rows shown under an expanded payee
+const HISTORY_LIMIT = 50;
+
+@Component({
+  selector: 'app-payees',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './payees.component.html',
+  styleUrls: ['./payees.component.scss']
+})
+export class PayeesComponent implements OnInit, OnDestroy {
+  readonly colors = PAYEE_COLORS;
+  readonly historyLimit = HISTORY_LIMIT;
+
+  payees: Payee[] = [];
+  transactions: Transaction[] = [];
+  summaries: PayeeSummary[] = [];
+  searchText = '';
+  expandedId: string | null = null;
+  errorMessage = '';
+
+  // Add/edit modal
+  showFormModal = false;
+  editingId: string | null = null;
+  form: PayeeForm = this.getEmptyForm();
+  formError = '';
+  isSaving = false;
+
+  // Merge tool: the payees ticked for merging and the one they fold into
+  mergeMode = false;
+  mergeIds = new Set<string>();
+  mergeTargetId = '';
+  isMerging = false;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private payeeService: PayeeService,
+    private transactionService: TransactionService,
+    private settingsService: SettingsService
+  ) { }
+
+  ngOnInit() {
+    const payeesSub = this.payeeService.payees$.subscribe(payees => {
+      this.payees = payees;
+      this.refresh();
+    });
+    this.subscriptions.push(payeesSub);
+
+    this.payeeService.loadPayees().subscribe();
+    this.transactionService.getAllTransactions('all').subscribe({
+      next: transactions => {
+        this.transactions = transactions;
+        this.refresh();
+      },
+      error: (err) => {
+        console.error('❌ Failed to load the transaction history', err);
+        this.errorMessage = 'Could not load your transactions; payee totals and history are unavailable';
+      }
+    });
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  refresh() {
+    this.summaries = getPayeeSummaries(this.payees, this.transactions);
+    this.mergeIds.forEach(id => {
+      if (!this.payees.some(payee => payee.id === id)) this.mergeIds.delete(id);
+    });
+  }
+
+  getVisibleSummaries(): PayeeSummary[] {
+    const query = this.searchText.trim().toLowerCase();
+    if (!query) return this.summaries;
+    return this.summaries.filter(({ payee }) =>
+      [payee.name, ...payee.aliases].some(name => name.toLowerCase().includes(query)));
+  }
+
+  toggleExpanded(payee: Payee) {
+    this.expandedId = this.expandedId === payee.id ? null : payee.id;
+  }
+
+  /**
+   * The payee's transactions, newest first
+   */
+  getHistory(payee: Payee): Transaction[] {
+    return this.transactions
+      .filter(t => t.payeeId === payee.id)
+      .sort((a, b) => getTransactionDate(b).getTime() - getTransactionDate(a).getTime());
+  }
+
+  /**
+   * Categories offered as a payee default: budget categories plus any used so far
+   */
+  getCategoryOptions(): string[] {
+    const budgetCategories = this.settingsService.getBudgetSettings().categories?.map(category => category.name) ?? [];
+    const used = this.transactions.filter(t => t.type !== 'transfer').map(t => t.category);
+    return [...new Set([...budgetCategories, ...used])].filter(category => !!category).sort();
+  }
+
+  // ===============================
+  // ADD / EDIT
+  // ===============================
+
+  openAddModal() {
+    this.editingId = null;
+    this.form = this.getEmptyForm();
+    this.formError = '';
+    this.showFormModal = true;
+  }
+
+  openEditModal(payee: Payee) {
+    this.editingId = payee.id;
+    this.form = {
+      name: payee.name,
+      aliases: payee.aliases.join(', '),
+      defaultCategory: payee.defaultCategory ?? '',
+      color: payee.color ?? ''
+    };
+    this.formError = '';
+    this.showFormModal = true;
+  }
+
+  closeFormModal() {
+    this.showFormModal = false;
+    this.editingId = null;
+  }
+
+  savePayee() {
+    const name = this.form.name.trim();
+    if (!name) {
+      this.formError = 'Please give the payee a name';
+      return;
+    }
+    if (this.payees.some(p => p.id !== this.editingId && p.name.toLowerCase() === name.toLowerCase())) {
+      this.formError = `A payee named "${name}" already exists`;
+      return;
+    }
+
+    const draft: PayeeDraft = {
+      name,
+      aliases: [...new Set(this.form.aliases.split(',').map(alias => alias.trim()).filter(alias => !!alias))],
+      ...(this.form.defaultCategory && { defaultCategory: this.form.defaultCategory }),
+      ...(this.form.color && { color: this.form.color })
+    };
+
+    this.isSaving = true;
+    const request = this.editingId
+      ? this.payeeService.updatePayee(this.editingId, draft)
+      : this.payeeService.addPayee(draft);
+
+    request.subscribe({
+      next: () => {
+        this.isSaving = false;
+        this.closeFormModal();
+      },
+      error: () => {
+        this.isSaving = false;
+        this.formError = 'Failed to save payee';
+      }
+    });
+  }
+
+  deletePayee(payee: Payee) {
+    const count = this.summaries.find(summary => summary.payee.id === payee.id)?.transactionCount ?? 0;
+    const message = count > 0
+      ? `Delete "${payee.name}"? Its ${count} transaction(s) are kept without a payee.`
+      : `Delete "${payee.name}"?`;
+    if (!confirm(message)) return;
+
+    this.payeeService.deletePayee(payee.id).subscribe({
+      next: () => {
+        this.transactions = this.transactions.map(t => t.payeeId === payee.id ? { ...t, payeeId: undefined } : t);
+        this.refresh();
+      },
+      error: () => this.errorMessage = 'Failed to delete payee'
+    });
+  }
+
+  /**
+   * Attach the transactions whose description names the payee
+   */
+  linkMatching(summary: PayeeSummary) {
+    this.payeeService.linkTransactions(summary.payee, summary.unlinked).subscribe(result => this.applyResult(result));
+  }
+
+  // ===============================
+  // MERGE
+  // ===============================
+
+  toggleMergeMode() {
+    this.mergeMode = !this.mergeMode;
+    this.mergeIds.clear();
+    this.mergeTargetId = '';
+  }
+
+  toggleMerge(payee: Payee) {
+    if (this.mergeIds.has(payee.id)) {
+      this.mergeIds.delete(payee.id);
+      if (this.mergeTargetId === payee.id) this.mergeTargetId = '';
+    } else {
+      this.mergeIds.add(payee.id);
+    }
+    // Default to the most used payee among the ticked ones
+    if (!this.mergeTargetId || !this.mergeIds.has(this.mergeTargetId)) {
+      this.mergeTargetId = this.summaries.find(summary => this.mergeIds.has(summary.payee.id))?.payee.id ?? '';
+    }
+  }
+
+  getMergeSelection(): Payee[] {
+    return this.payees.filter(payee => this.mergeIds.has(payee.id));
+  }
+
+  /**
+   * The canonical payee as it will look after the merge
+   */
+  getMergePreview(): PayeeDraft | null {
+    const target = this.payees.find(payee => payee.id === this.mergeTargetId);
+    if (!target) return null;
+    return getMergedPayee(target, this.getMergeSelection().filter(payee => payee.id !== target.id));
+  }
+
+  mergeSelected() {
+    const target = this.payees.find(payee => payee.id === this.mergeTargetId);
+    const sources = this.getMergeSelection().filter(payee => payee.id !== this.mergeTargetId);
+    if (!target || sources.length === 0) return;
+    if (!confirm(`Merge ${sources.map(s => `"${s.name}"`).join(', ')} into "${target.name}"?`)) return;
+
+    this.isMerging = true;
+    this.errorMessage = '';
+    this.payeeService.mergePayees(target, sources).subscribe({
+      next: result => {
+        this.isMerging = false;
+        this.applyResult(result);
+        if (result.failed.length === 0) this.toggleMergeMode();
+      },
+      error: () => {
+        this.isMerging = false;
+        this.errorMessage = 'Failed to merge payees';
+      }
+    });
+  }
+
+  private applyResult(result: BulkResult<Transaction>) {
+    const updated = new Map(result.succeeded.map(t => [t.id, t]));
+    this.transactions = this.transactions.map(t => updated.get(t.id) ?? t);
+    this.refresh();
+
+    if (result.failed.length > 0) {
+      console.error('❌ Payee link failures:', result.failed);
+      const trashed = result.failed.filter(failure => failure.error === 'In the trash').length;
+      this.errorMessage = `${result.failed.length} transaction(s) could not be moved` +
+        (trashed > 0 ? `; ${trashed} are in the trash, restore or purge them first` : '');
+    }
+  }
+
+  private getEmptyForm(): PayeeForm {
+    return { name: '', aliases: '', defaultCategory: '', color: PAYEE_COLORS[0] };
+  }
+
+  formatCurrency(amount: number): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+
+  formatDate(date: Date | string): string {
+    return this.settingsService.formatDate(date);
+  }
+}
@@ -0,0 +1,131 @@
+import { parseQuickAdd, parseQuickAddNumber } from './quick-add-parser';
+
+describe('parseQuickAdd', () => {
+  // A Wednesday
+  const today = new Date(2026, 9, 14);
+  const categories = {
+    expense: ['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Shoes', 'Eating Out'],
+    revenue: ['Salary', 'Freelance', 'Gift']
+  };
+  const parse = (text: string) => parseQuickAdd(text, categories, { today });
+
+  it('should split an expense into amount, category, description and date', () => {
+    const result = parse('12.50 lunch food yesterday');
+
+    expect(result).toEqual(expect.objectContaining({
+      amount: 12.5, type: 'expense', category: 'Food', description: 'lunch', errors: [], warnings: []
+    }));
+    expect(result.date).toEqual(new Date(2026, 9, 13));
+  });
+
+  it('should read a leading + as revenue and an ordinal as a day of this month', () => {
+    const result = parse('+2500 salary 1st');
+
+    expect(result).toEqual(expect.objectContaining({ amount: 2500, type: 'revenue', category: 'Salary', description: 'Salary' }));
+    expect(result.date).toEqual(new Date(2026, 9, 1));
+  });
+
+  it('should let the category decide the type when there is no sign', () => {
+    expect(parse('300 website freelance').type).toBe('revenue');
+    expect(parse('300 bills').type).toBe('expense');
+    expect(parseQuickAdd('300 bills', categories, { today, defaultType: 'revenue' }).type).toBe('expense');
+    expect(parseQuickAdd('300 something', categories, { today, defaultType: 'revenue' }).type).toBe('revenue');
+  });
+
+  it('should keep a category from the other side in the description when the sign disagrees', () => {
+    const result = parse('+20 food refund');
+
+    expect(result.type).toBe('revenue');
+    expect(result.category).toBeNull();
+    expect(result.description).toBe('food refund');
+    expect(result.warnings).toContain('"food" is an expense category; it stays in the description');
+    expect(result.errors).toContain('Add a category, e.g. Salary, Freelance, Gift');
+  });
+
+  it('should resolve thousands and decimal separators', () => {
+    expect(parseQuickAddNumber('12,50')).toEqual({ value: 12.5, guessed: false });
+    expect(parseQuickAddNumber('1.234,56')).toEqual({ value: 1234.56, guessed: false });
+    expect(parseQuickAddNumber('1,234,567')).toEqual({ value: 1234567, guessed: false });
+    expect(parseQuickAddNumber('2,500')).toEqual({ value: 2500, guessed: true });
+    expect(parseQuickAddNumber('1.2.3')).toBeNull();
+
+    const result = parse('2,500 freelance');
+    expect(result.amount).toBe(2500);
+    expect(result.warnings).toEqual(['Read "2,500" as 2500']);
+    expect(parse('€4,20 transport bus').amount).toBe(4.2);
+  });
+
+  it('should prefer the number written like money when there are several', () => {
+    const result = parse('2 coffees 7.80 food');
+
+    expect(result.amount).toBe(7.8);
+    expect(result.description).toBe('2 coffees');
+    expect(result.warnings).toEqual(['Using 7.80 as the amount; 2 stays in the description']);
+
+    expect(parse('3 tickets 45 entertainment').amount).toBe(3);
+  });
+
+  it('should read relative dates before amounts', () => {
+    const result = parse('12 food 3 days ago');
+
+    expect(result.amount).toBe(12);
+    expect(result.description).toBe('Food');
+    expect(result.date).toEqual(new Date(2026, 9, 11));
+
+    expect(parse('9 transport on monday').date).toEqual(new Date(2026, 9, 12));
+    expect(parse('9 transport on monday').description).toBe('Transport');
+    expect(parse('9 transport wednesday').date).toEqual(new Date(2026, 9, 14));
+    expect(parse('9 transport last wednesday').date).toEqual(new Date(2026, 9, 7));
+    expect(parse('9 transport').date).toEqual(today);
+  });
+
+  it('should move ordinals still ahead to last month and clamp short months', () => {
+    expect(parse('60 bills 25th').date).toEqual(new Date(2026, 8, 25));
+    expect(parse('60 bills 31st').date).toEqual(new Date(2026, 8, 30));
+    expect(parse('60 bills 14th').date).toEqual(today);
+  });
+
+  it('should use the first date and accept ISO dates', () => {
+    const result = parse('8 food 2026-10-02 yesterday');
+
+    expect(result.date).toEqual(new Date(2026, 9, 2));
+    expect(result.warnings).toEqual(['Only the first date is used; "yesterday" is ignored']);
+    expect(parse('8 food 2026-13-02').description).toBe('2026-13-02');
+    expect(parse('8 food 2026-12-24').warnings).toContain('The date is in the future');
+  });
+
+  it('should match multi-word, plural and abbreviated categories', () => {
+    expect(parse('30 eating out with Sam').category).toBe('Eating Out');
+    expect(parse('30 eating out with Sam').description).toBe('with Sam');
+    expect(parse('45 bill electricity').category).toBe('Bills');
+    expect(parse('15 ent movie').category).toBe('Entertainment');
+    expect(parse('15 movie ent food').category).toBe('Food');
+  });
+
+  it('should report ambiguous category prefixes instead of guessing', () => {
+    const result = parse('80 sho sneakers');
+
+    expect(result.category).toBeNull();
+    expect(result.warnings).toContain('"sho" could be Shopping or Shoes');
+    expect(result.errors).toContain('Add a category, e.g. Food, Transport, Entertainment');
+  });
+
+  it('should ask for a suggested category only when none is named', () => {
+    const asked: string[] = [];
+    const suggestCategory = ({ description }: { description: string }) => {
+      asked.push(description);
+      return description.toLowerCase().includes('uber') ? 'Transport' : null;
+    };
+
+    const result = parseQuickAdd('14 Uber home', categories, { today, suggestCategory });
+    expect(result).toEqual(expect.objectContaining({ category: 'Transport', description: 'Uber home', errors: [] }));
+    expect(parseQuickAdd('14 uber food', categories, { today, suggestCategory }).category).toBe('Food');
+    expect(asked).toEqual(['Uber home']);
+  });
+
+  it('should require an amount greater than zero', () => {
+    expect(parse('lunch food').errors).toEqual(['Add an amount, e.g. 12.50']);
+    expect(parse('0 lunch food').errors).toEqual(['The amount must be greater than zero']);
+    expect(parse('').errors.length).toBe(2);
+  });
+});
@@ -0,0 +1,286 @@
+// quick-add-parser.ts
+// One-line entries for the quick-add bar, e.g.
+//   12.50 lunch food yesterday
+//   +2500 salary 1st
+// "+" records a revenue and "-" an expense; without a sign the category
+// decides, and expenses are the default. The category must be a known one;
+// the words left over become the description.
+import { fromDateKey, toDateKey } from '../services/transaction.service';
+
+export interface QuickAddCategories {
+  expense: string[];
+  revenue: string[];
+}
+
+export interface QuickAddOptions {
+  // Dates like "yesterday" count from this day
+  today?: Date;
+  // Type used when neither a sign nor the category decides
+  defaultType?: 'expense' | 'revenue';
+  // Category for entries that name none, e.g. from categorization rules
+  suggestCategory?: (entry: { amount: number | null; type: 'expense' | 'revenue'; description: string }) => string | null;
+}
+
+export interface QuickAddResult {
+  amount: number | null;
+  type: 'expense' | 'revenue';
+  category: string | null;
+  description: string;
+  date: Date;
+  // Missing pieces; the entry cannot be saved until they are fixed
+  errors: string[];
+  // Guesses the user should check in the preview
+  warnings: string[];
+}
+
+interface AmountToken {
+  index: number;
+  amount: number;
+  sign: '+' | '-' | null;
+  // Written with a sign, currency symbol or decimals: clearly meant as money
+  explicit: boolean;
+  warning?: string;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const AMOUNT_PATTERN = /^([+-])?([$€£])?(\d[\d.,]*)([$€£])?$/;
+const ORDINAL_PATTERN = /^(\d{1,2})(st|nd|rd|th)$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * A number written with "," or "." as thousands or decimal separator.
+ * A single separator before exactly three digits reads as thousands
+ * ("2,500" is 2500) and is reported as a guess.
+ */
+export function parseQuickAddNumber(text: string): { value: number; guessed: boolean } | null {
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both used: the last one is the decimal separator
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    const [whole, fraction, ...rest] = text.split(decimal);
+    if (rest.length > 0 || !/^\d{1,2}$/.test(fraction)) return null;
+    if (!new RegExp(`^\\d{1,3}(\\${thousands}\\d{3})+$`).test(whole)) return null;
+    return { value: Number(`${whole.split(thousands).join('')}.${fraction}`), guessed: false };
+  }
+
+  const separator = lastComma !== -1 ? ',' : lastDot !== -1 ? '.' : null;
+  if (!separator) return /^\d+$/.test(text) ? { value: Number(text), guessed: false } : null;
+
+  const parts = text.split(separator);
+  if (parts.length === 2 && /^\d+$/.test(parts[0]) && /^\d{1,2}$/.test(parts[1])) {
+    return { value: Number(`${parts[0]}.${parts[1]}`), guessed: false };
+  }
+  if (/^\d{1,3}$/.test(parts[0]) && parts.slice(1).every(part => /^\d{3}$/.test(part))) {
+    return { value: Number(parts.join('')), guessed: parts.length === 2 };
+  }
+  return null;
+}
+
+function readAmount(word: string, index: number): AmountToken | null {
+  const match = AMOUNT_PATTERN.exec(word);
+  if (!match || (match[2] && match[4])) return null;
+
+  const number = parseQuickAddNumber(match[3]);
+  if (!number) return null;
+
+  return {
+    index,
+    amount: Math.round(number.value * 100) / 100,
+    sign: (match[1] as '+' | '-' | undefined) ?? null,
+    explicit: !!(match[1] || match[2] || match[4] || /[.,]\d{1,2}$/.test(match[3])),
+    ...(number.guessed && { warning: `Read "${match[3]}" as ${number.value}` })
+  };
+}
+
+/**
+ * The date a phrase starting at `index` names, and how many words it uses:
+ * today, yesterday, "3 days ago", weekdays ("monday" is the latest one,
+ * today included; "last monday" the one before today), ordinals ("1st" of
+ * this month, or last month when still ahead) and YYYY-MM-DD
+ */
+function readDate(words: string[], index: number, today: Date): { date: Date; length: number } | null {
+  const word = words[index];
+  const next = words[index + 1];
+
+  if (word === 'today') return { date: today, length: 1 };
+  if (word === 'yesterday') return { date: addDays(today, -1), length: 1 };
+
+  if (/^\d+$/.test(word) && (next === 'day' || next === 'days') && words[index + 2] === 'ago') {
+    return { date: addDays(today, -Number(word)), length: 3 };
+  }
+
+  const weekdayAt = (position: number) => WEEKDAYS.indexOf(words[position] ?? '');
+  if (word === 'last' && weekdayAt(index + 1) !== -1) {
+    const back = (today.getDay() - weekdayAt(index + 1) + 7) % 7 || 7;
+    return { date: addDays(today, -back), length: 2 };
+  }
+  if (weekdayAt(index) !== -1) {
+    return { date: addDays(today, -((today.getDay() - weekdayAt(index) + 7) % 7)), length: 1 };
+  }
+
+  const ordinal = ORDINAL_PATTERN.exec(word);
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    if (day < 1 || day > 31) return null;
+    const inMonth = (monthOffset: number) => {
+      const lastDay = new Date(today.getFullYear(), today.getMonth() + monthOffset + 1, 0).getDate();
+      return new Date(today.getFullYear(), today.getMonth() + monthOffset, Math.min(day, lastDay));
+    };
+    const date = inMonth(0) > today ? inMonth(-1) : inMonth(0);
+    return { date, length: 1 };
+  }
+
+  if (ISO_DATE_PATTERN.test(word)) {
+    const date = fromDateKey(word);
+    return toDateKey(date) === word ? { date, length: 1 } : null;
+  }
+
+  return null;
+}
+
+function normalizeCategoryWord(text: string): string {
+  const lower = text.toLowerCase();
+  return lower.length > 3 && lower.endsWith('s') ? lower.slice(0, -1) : lower;
+}
+
+/**
+ * Known categories named by the words at `index`, longest phrase first so
+ * "eating out" wins over "eating". Exact names (ignoring case and a plural
+ * "s") come before names the word is the start of.
+ */
+function matchCategories(
+  words: string[],
+  index: number,
+  maxLength: number,
+  categories: string[]
+): { names: string[]; length: number; exact: boolean } {
+  for (let length = Math.min(4, maxLength); length >= 1; length--) {
+    const phrase = normalizeCategoryWord(words.slice(index, index + length).join(' '));
+    const names = categories.filter(category => normalizeCategoryWord(category) === phrase);
+    if (names.length > 0) return { names, length, exact: true };
+  }
+
+  const word = words[index].toLowerCase();
+  const names = word.length >= 3 ? categories.filter(category => category.toLowerCase().startsWith(word)) : [];
+  return { names, length: 1, exact: false };
+}
+
+/**
+ * Split a quick-add line into the fields of a transaction
+ */
+export function parseQuickAdd(text: string, categories: QuickAddCategories, options: QuickAddOptions = {}): QuickAddResult {
+  const today = startOfDay(options.today ?? new Date());
+  const words = text.trim().split(/\s+/).filter(word => !!word);
+  const lower = words.map(word => word.toLowerCase());
+  const used = new Set<number>();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // Dates first, so "3 days ago" is not read as an amount of 3
+  let date: Date | null = null;
+  for (let i = 0; i < lower.length; i++) {
+    const found = readDate(lower, i, today);
+    if (!found) continue;
+    if (date) {
+      warnings.push(`Only the first date is used; "${words.slice(i, i + found.length).join(' ')}" is ignored`);
+    } else {
+      date = found.date;
+      if (lower[i - 1] === 'on') used.add(i - 1);
+    }
+    for (let j = i; j < i + found.length; j++) used.add(j);
+    i += found.length - 1;
+  }
+  if (date && date > today) warnings.push('The date is in the future');
+
+  // The amount: the first number written like money, else the first number
+  const amounts = lower
+    .map((word, index) => used.has(index) ? null : readAmount(word, index))
+    .filter((token): token is AmountToken => !!token);
+  const amountToken = amounts.find(token => token.explicit) ?? amounts[0] ?? null;
+  if (amountToken) {
+    used.add(amountToken.index);
+    if (amountToken.warning) warnings.push(amountToken.warning);
+    if (amounts.length > 1) {
+      const others = amounts.filter(token => token !== amountToken).map(token => words[token.index]);
+      warnings.push(`Using ${words[amountToken.index]} as the amount; ${others.join(', ')} stays in the description`);
+    }
+  }
+
+  const amount = amountToken?.amount ?? null;
+  if (amount === null) {
+    errors.push('Add an amount, e.g. 12.50');
+  } else if (amount <= 0) {
+    errors.push('The amount must be greater than zero');
+  }
+
+  // A sign limits the category to that side
+  const sign = amountToken?.sign ?? null;
+  const sides: ('expense' | 'revenue')[] = sign === '+' ? ['revenue'] : sign === '-' ? ['expense'] : ['expense', 'revenue'];
+  const candidates = [...new Set(sides.flatMap(side => categories[side]))];
+  const otherSide = sign === '+' ? categories.expense : sign === '-' ? categories.revenue : [];
+
+  let category: string | null = null;
+  let prefixMatch: { index: number; name: string } | null = null;
+  for (let i = 0; i < lower.length && !category; i++) {
+    if (used.has(i)) continue;
+    let free = 1;
+    while (i + free < words.length && !used.has(i + free)) free++;
+    const match = matchCategories(words, i, free, candidates);
+
+    if (match.exact) {
+      category = match.names[0];
+      for (let j = i; j < i + match.length; j++) used.add(j);
+    } else if (match.names.length === 1 && !prefixMatch) {
+      prefixMatch = { index: i, name: match.names[0] };
+    } else if (match.names.length > 1) {
+      warnings.push(`"${words[i]}" could be ${match.names.join(' or ')}`);
+    } else if (matchCategories(words, i, free, otherSide).exact) {
+      warnings.push(`"${words[i]}" is ${sign === '+' ? 'an expense' : 'a revenue'} category; it stays in the description`);
+    }
+  }
+  if (!category && prefixMatch) {
+    category = prefixMatch.name;
+    used.add(prefixMatch.index);
+  }
+
+  let type: 'expense' | 'revenue' = options.defaultType ?? 'expense';
+  if (sign) {
+    type = sign === '+' ? 'revenue' : 'expense';
+  } else if (category) {
+    const isExpense = categories.expense.includes(category);
+    const isRevenue = categories.revenue.includes(category);
+    if (isExpense !== isRevenue) type = isRevenue ? 'revenue' : 'expense';
+  }
+
+  const description = words.filter((_, index) => !used.has(index)).join(' ');
+
+  if (!category && options.suggestCategory) {
+    category = options.suggestCategory({ amount, type, description });
+  }
+  if (!category) {
+    const known = categories[type].slice(0, 3).join(', ');
+    errors.push(`Add a category${known ? `, e.g. ${known}` : ''}`);
+  }
+
+  return {
+    amount,
+    type,
+    category,
+    description: description || category || '',
+    date: date ?? today,
+    errors,
+    warnings
+  };
+}
@@ -0,0 +1,77 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { of } from 'rxjs';
+import { QuickAddComponent } from './quick-add.component';
+import { Transaction } from '../models/transaction.model';
+import { TransactionService } from '../services/transaction.service';
+import { AccountService } from '../services/account.service';
+
+describe('QuickAddComponent', () => {
+  let component: QuickAddComponent;
+  let fixture: ComponentFixture<QuickAddComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [QuickAddComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(QuickAddComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should open on Ctrl+K and preview the parsed entry', () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'k', ctrlKey: true }));
+    expect(component.isOpen).toBe(true);
+
+    component.text = '12.50 lunch food yesterday';
+    component.updatePreview();
+    fixture.detectChanges();
+
+    expect(component.result).toEqual(expect.objectContaining({ amount: 12.5, category: 'Food', description: 'lunch' }));
+    expect(component.canSubmit()).toBe(true);
+    expect(fixture.nativeElement.querySelector('.preview-fields').textContent).toContain('Food');
+
+    component.text = 'lunch';
+    component.updatePreview();
+    expect(component.canSubmit()).toBe(false);
+
+    fixture.nativeElement.querySelector('.quick-add-input').dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+    expect(component.isOpen).toBe(false);
+    expect(component.text).toBe('');
+  });
+
+  it('should hold back a likely duplicate and add it to the selected account when confirmed', () => {
+    const transactionService = TestBed.inject(TransactionService);
+    const accountService = TestBed.inject(AccountService);
+    const today = new Date();
+    const existing = {
+      id: 't1', amount: 12.5, type: 'expense', category: 'Food', description: 'lunch',
+      date: today, createdAt: today, tags: []
+    } as unknown as Transaction;
+    vi.spyOn(transactionService, 'getAllTransactions').mockReturnValue(of([existing]));
+    vi.spyOn(accountService, 'getAccounts').mockReturnValue([
+      { id: 'a1', name: 'Cash', kind: 'cash', openingBalance: 0, currency: 'USD', createdAt: today },
+      { id: 'a2', name: 'Card', kind: 'checking', openingBalance: 0, currency: 'USD', createdAt: today }
+    ]);
+    accountService.setSelectedAccount('a2');
+    const add = vi.spyOn(transactionService, 'addTransaction').mockReturnValue(of({ ...existing, id: 't2' }));
+
+    component.open();
+    component.text = '12.50 lunch food';
+    component.updatePreview();
+    component.submit();
+
+    expect(component.duplicateMatches.map(m => m.transaction.id)).toEqual(['t1']);
+    expect(add).not.toHaveBeenCalled();
+
+    component.submit(true);
+    expect(add).toHaveBeenCalledWith(expect.objectContaining({ amount: 12.5, accountId: 'a2' }));
+    accountService.setSelectedAccount(null);
+  });
+});
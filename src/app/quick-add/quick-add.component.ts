@@ -0,0 +1,188 @@
+// quick-add.component.ts
+import { Component, ElementRef, HostListener, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { Transaction } from '../models/transaction.model';
+import { TransactionService } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { AccountService } from '../services/account.service';
+import { DuplicateMatch, findLikelyDuplicates } from '../duplicate-finder/duplicate-detector';
+import { QuickAddCategories, QuickAddResult, parseQuickAdd } from './quick-add-parser';
+
+@Component({
+  selector: 'app-quick-add',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './quick-add.component.html',
+  styleUrls: ['./quick-add.component.scss']
+})
+export class QuickAddComponent {
+  @ViewChild('quickInput') quickInput?: ElementRef<HTMLInputElement>;
+
+  isOpen = false;
+  text = '';
+  result: QuickAddResult | null = null;
+  // Rules that picked the category when the text named none
+  ruleNames: string[] = [];
+  isSaving = false;
+  formError = '';
+  lastAdded: Transaction | null = null;
+  // Existing transactions the entry looks like; Enter again saves it anyway
+  duplicateMatches: DuplicateMatch[] = [];
+
+  private categories: QuickAddCategories = { expense: [], revenue: [] };
+  // The whole history, for the duplicate check; loaded each time the bar opens
+  private history: Transaction[] = [];
+  private historySub: Subscription | null = null;
+
+  constructor(
+    private transactionService: TransactionService,
+    private settingsService: SettingsService,
+    private ruleService: CategorizationRuleService,
+    private accountService: AccountService
+  ) { }
+
+  // Ctrl+K (⌘K on macOS) opens the bar from any page; Escape is handled by
+  // the overlay, which holds the focus while the bar is open
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      if (this.isOpen) {
+        this.close();
+      } else {
+        this.open();
+      }
+    }
+  }
+
+  open() {
+    this.categories = this.settingsService.getCategories();
+    this.isOpen = true;
+    this.formError = '';
+    this.lastAdded = null;
+    this.loadHistory();
+    if (this.accountService.getAccounts().length === 0) {
+      this.accountService.loadAccounts().subscribe();
+    }
+    setTimeout(() => this.quickInput?.nativeElement.focus());
+  }
+
+  close() {
+    this.isOpen = false;
+    this.text = '';
+    this.result = null;
+    this.ruleNames = [];
+    this.formError = '';
+    this.duplicateMatches = [];
+    this.historySub?.unsubscribe();
+  }
+
+  private loadHistory() {
+    this.historySub?.unsubscribe();
+    this.history = [];
+    this.historySub = this.transactionService.getAllTransactions('all').subscribe({
+      next: transactions => this.history = transactions,
+      error: err => console.error('❌ Failed to load transactions for the duplicate check', err)
+    });
+  }
+
+  /**
+   * Parse the text as it is typed; entries naming no category get one from
+   * the categorization rules when a rule matches
+   */
+  updatePreview() {
+    this.formError = '';
+    this.ruleNames = [];
+    this.duplicateMatches = [];
+    if (!this.text.trim()) {
+      this.result = null;
+      return;
+    }
+
+    const defaultType = this.settingsService.getAppSettings().defaultTransactionType === 'revenue' ? 'revenue' : 'expense';
+    this.result = parseQuickAdd(this.text, this.categories, {
+      defaultType,
+      suggestCategory: ({ amount, type, description }) => {
+        const { changes, ruleNames } = this.ruleService.apply({ amount: amount ?? 0, type, category: '', description });
+        if (!changes.category || !this.categories[type].includes(changes.category)) return null;
+        this.ruleNames = ruleNames;
+        return changes.category;
+      }
+    });
+  }
+
+  canSubmit(): boolean {
+    return !!this.result && this.result.errors.length === 0 && !this.isSaving;
+  }
+
+  /**
+   * Add the parsed entry to the default account; entries that look like an
+   * existing transaction are held back until the user confirms with `saveAnyway`
+   */
+  submit(saveAnyway = false) {
+    const result = this.result;
+    if (!this.canSubmit() || !result || result.amount === null || !result.category) return;
+
+    // Rules add their tags and may rename, as in the add form
+    const { changes } = this.ruleService.apply({
+      amount: result.amount,
+      type: result.type,
+      category: result.category,
+      description: result.description,
+      tags: []
+    });
+
+    const accountId = this.accountService.getDefaultAccountId();
+    const payload = {
+      amount: result.amount,
+      type: result.type,
+      category: result.category,
+      source: result.category,
+      description: changes.description ?? result.description,
+      date: result.date,
+      ...(accountId && { accountId }),
+      tags: changes.tags ?? []
+    };
+
+    if (!saveAnyway) {
+      this.duplicateMatches = findLikelyDuplicates(payload, this.history);
+      if (this.duplicateMatches.length > 0) {
+        console.log('⚠️ Possible duplicate of', this.duplicateMatches.map(m => m.transaction.id));
+        return;
+      }
+    }
+
+    this.isSaving = true;
+    this.transactionService.addTransaction(payload).subscribe({
+      next: created => {
+        this.isSaving = false;
+        this.settingsService.updateBudgetSpent([created], []);
+        this.transactionService.notifyAddedElsewhere(created);
+        this.history.unshift(created);
+
+        // Stay open for the next entry
+        this.lastAdded = created;
+        this.text = '';
+        this.result = null;
+        this.ruleNames = [];
+        this.duplicateMatches = [];
+      },
+      error: err => {
+        this.isSaving = false;
+        console.error('❌ Failed to quick-add transaction', err);
+        this.formError = 'Failed to add transaction';
+      }
+    });
+  }
+
+  formatCurrency(amount: number | null): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+
+  formatDate(date: Date): string {
+    return this.settingsService.formatDate(date);
+  }
+}
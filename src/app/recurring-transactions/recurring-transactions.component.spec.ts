@@ -0,0 +1,126 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+
+import { RecurringTransactionsComponent } from './recurring-transactions.component';
+import { RecurringTransactionService, getScheduleDates } from '../services/recurring-transaction.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { RecurringOccurrence } from '../models/recurring-transaction.model';
+import { Transaction } from '../models/transaction.model';
+import { TransactionService, toDateKey } from '../services/transaction.service';
+
+describe('RecurringTransactionsComponent', () => {
+  let component: RecurringTransactionsComponent;
+  let fixture: ComponentFixture<RecurringTransactionsComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [RecurringTransactionsComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(RecurringTransactionsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should require amount, category and description before saving', () => {
+    component.openAddModal();
+    component.saveRecurring();
+
+    expect(component.formError).toBe('Please fill in all required fields');
+    expect(component.showFormModal).toBe(true);
+  });
+
+  it('should tell which due occurrences could not be created', () => {
+    const occurrence = (key: string, description: string): RecurringOccurrence => {
+      const date = new Date(2026, 4, Number(key.slice(-2)));
+      return { recurringId: 'r1', key, date, draft: { amount: 10, type: 'expense', category: 'Bills', description, date }, isDue: true, isEdited: false };
+    };
+    const rent = occurrence('2026-05-01', 'Rent');
+    const gym = occurrence('2026-05-02', 'Gym');
+    const created = { id: 't1' } as Transaction;
+    vi.spyOn(TestBed.inject(RecurringTransactionService), 'confirmOccurrence').mockImplementation(item =>
+      item === rent ? of(created) : throwError(() => new Error('Server error')));
+    const emitted: Transaction[][] = [];
+    component.created.subscribe(transactions => emitted.push(transactions));
+
+    component.dueOccurrences = [rent, gym];
+    component.confirmAllDue();
+
+    expect(emitted).toEqual([[created]]);
+    expect(component.error).toContain('1 due transaction(s) could not be created: Gym');
+  });
+
+  it('should create occurrences with the account and tags, converted at the rate of their day', () => {
+    const service = TestBed.inject(RecurringTransactionService);
+    const add = vi.spyOn(TestBed.inject(TransactionService), 'addTransaction').mockReturnValue(of({ id: 't1' } as Transaction));
+    vi.spyOn(TestBed.inject(ExchangeRateService), 'getAll').mockReturnValue([
+      { id: 'r', date: '2026-05-01', from: 'EUR', to: 'USD', rate: 1.1, createdAt: '2026-05-01T00:00:00.000Z' }
+    ]);
+    const item = service.add(
+      { amount: 20, type: 'expense', category: 'Bills', description: 'Gym', tags: ['health'], accountId: 'acc-1', currency: 'EUR' },
+      { frequency: 'monthly', interval: 1, startDate: '2026-05-01' }
+    );
+    const [first] = service.getOccurrences(item, new Date(2026, 4, 1), new Date(2026, 4, 1));
+
+    service.confirmOccurrence(first).subscribe();
+    expect(add).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 22, currency: 'EUR', originalAmount: 20, tags: ['health'], accountId: 'acc-1'
+    }));
+
+    service.confirmOccurrence({ ...first, draft: { ...first.draft, currency: 'GBP' } }).subscribe({
+      error: (err: Error) => expect(err.message).toContain('No GBP → USD exchange rate')
+    });
+    expect(add).toHaveBeenCalledTimes(1);
+    service.remove(item.id);
+  });
+});
+
+describe('getScheduleDates', () => {
+  const keys = (dates: Date[]) => dates.map(toDateKey);
+
+  it('should clamp day 31 to short months and return to 31 afterwards', () => {
+    const dates = getScheduleDates(
+      { frequency: 'monthly', interval: 1, startDate: '2026-01-31' },
+      new Date(2026, 0, 1),
+      new Date(2026, 3, 30)
+    );
+
+    expect(keys(dates)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+
+  it('should land on the last day of the month', () => {
+    const dates = getScheduleDates(
+      { frequency: 'monthly', interval: 1, startDate: '2028-01-15', dayOfMonth: 'last' },
+      new Date(2028, 0, 1),
+      new Date(2028, 2, 31)
+    );
+
+    expect(keys(dates)).toEqual(['2028-01-31', '2028-02-29', '2028-03-31']);
+  });
+
+  it('should honour the interval, count and end date', () => {
+    const weekly = { frequency: 'weekly' as const, interval: 2, startDate: '2026-05-04' };
+    const range: [Date, Date] = [new Date(2026, 4, 1), new Date(2026, 6, 1)];
+
+    expect(keys(getScheduleDates(weekly, ...range))).toEqual([
+      '2026-05-04', '2026-05-18', '2026-06-01', '2026-06-15', '2026-06-29'
+    ]);
+    expect(getScheduleDates({ ...weekly, count: 2 }, ...range).length).toBe(2);
+    expect(keys(getScheduleDates({ ...weekly, endDate: '2026-06-01' }, ...range)).pop()).toBe('2026-06-01');
+  });
+
+  it('should only return dates inside the requested range', () => {
+    const dates = getScheduleDates(
+      { frequency: 'daily', interval: 1, startDate: '2026-01-01' },
+      new Date(2026, 4, 10),
+      new Date(2026, 4, 12)
+    );
+
+    expect(keys(dates)).toEqual(['2026-05-10', '2026-05-11', '2026-05-12']);
+  });
+});
@@ -0,0 +1,304 @@
+// recurring-transactions.component.ts
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { EMPTY, from, Subscription } from 'rxjs';
+import { catchError, concatMap } from 'rxjs/operators';
+import { RecurringTransactionService } from '../services/recurring-transaction.service';
+import { toDateKey } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { TagInputComponent } from '../tag-input/tag-input.component';
+import { Transaction } from '../models/transaction.model';
+import { Account } from '../models/account.model';
+import {
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+  RecurringOccurrence,
+  RecurringTemplate,
+  RecurringTransaction
+} from '../models/recurring-transaction.model';
+
+type EndRule = 'never' | 'onDate' | 'afterCount';
+type DayRule = 'start' | 'specific' | 'last';
+
+interface RecurringForm {
+  template: RecurringTemplate;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endRule: EndRule;
+  endDate: string;
+  count: number;
+  dayRule: DayRule;
+  dayOfMonth: number;
+}
+
+@Component({
+  selector: 'app-recurring-transactions',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TagInputComponent],
+  templateUrl: './recurring-transactions.component.html',
+  styleUrls: ['./recurring-transactions.component.scss']
+})
+export class RecurringTransactionsComponent implements OnInit, OnDestroy {
+  @Input() categories: { expense: string[]; revenue: string[] } = { expense: [], revenue: [] };
+  // Tags in use, suggested while typing
+  @Input() tagSuggestions: string[] = [];
+  @Input() accounts: Account[] = [];
+  @Output() created = new EventEmitter<Transaction[]>();
+
+  recurringItems: RecurringTransaction[] = [];
+  dueOccurrences: RecurringOccurrence[] = [];
+  upcomingOccurrences: RecurringOccurrence[] = [];
+  upcomingDays = 30;
+
+  frequencies: { value: RecurrenceFrequency; label: string }[] = [
+    { value: 'daily', label: 'Day(s)' },
+    { value: 'weekly', label: 'Week(s)' },
+    { value: 'monthly', label: 'Month(s)' },
+    { value: 'yearly', label: 'Year(s)' }
+  ];
+
+  // Template add/edit modal
+  showFormModal = false;
+  editingId: string | null = null;
+  form: RecurringForm = this.getEmptyForm();
+  formError = '';
+
+  // Single occurrence edit modal
+  editingOccurrence: RecurringOccurrence | null = null;
+  occurrenceForm: RecurringTemplate = this.getEmptyForm().template;
+
+  isConfirming = false;
+  error = '';
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private recurringService: RecurringTransactionService,
+    private settingsService: SettingsService
+  ) { }
+
+  ngOnInit() {
+    const recurringSub = this.recurringService.recurring$.subscribe(items => {
+      this.recurringItems = items;
+      this.refreshOccurrences();
+    });
+    this.subscriptions.push(recurringSub);
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  refreshOccurrences() {
+    this.dueOccurrences = this.recurringService.getDueOccurrences();
+    this.upcomingOccurrences = this.recurringService.getUpcomingOccurrences(this.upcomingDays);
+  }
+
+  // ===============================
+  // OCCURRENCES
+  // ===============================
+
+  confirmOccurrence(occurrence: RecurringOccurrence) {
+    this.confirmOccurrences([occurrence]);
+  }
+
+  confirmAllDue() {
+    this.confirmOccurrences([...this.dueOccurrences]);
+  }
+
+  /**
+   * Create occurrences one after another so each is marked as generated
+   * before the next request starts
+   */
+  private confirmOccurrences(occurrences: RecurringOccurrence[]) {
+    if (occurrences.length === 0 || this.isConfirming) return;
+
+    this.isConfirming = true;
+    this.error = '';
+    const created: Transaction[] = [];
+    const failed: RecurringOccurrence[] = [];
+
+    from(occurrences).pipe(
+      concatMap(occurrence => this.recurringService.confirmOccurrence(occurrence).pipe(
+        catchError(err => {
+          console.error('❌ Failed to create recurring occurrence', err);
+          failed.push(occurrence);
+          return EMPTY;
+        })
+      ))
+    ).subscribe({
+      next: transaction => created.push(transaction),
+      complete: () => {
+        this.isConfirming = false;
+        if (created.length > 0) {
+          this.created.emit(created);
+        }
+        if (failed.length > 0) {
+          // They stay due, so they can be created again
+          this.error = `${failed.length} due transaction(s) could not be created: ` +
+            failed.map(occurrence => `${occurrence.draft.description} (${this.formatDate(occurrence.date)})`).join(', ');
+        }
+      }
+    });
+  }
+
+  skipOccurrence(occurrence: RecurringOccurrence) {
+    this.recurringService.skipOccurrence(occurrence);
+  }
+
+  openOccurrenceEdit(occurrence: RecurringOccurrence) {
+    this.editingOccurrence = occurrence;
+    this.occurrenceForm = {
+      amount: occurrence.draft.amount,
+      type: occurrence.draft.type,
+      category: occurrence.draft.category,
+      description: occurrence.draft.description
+    };
+  }
+
+  saveOccurrenceEdit() {
+    if (!this.editingOccurrence) return;
+    if (!this.occurrenceForm.amount || !this.occurrenceForm.category || !this.occurrenceForm.description) return;
+
+    this.recurringService.editOccurrence(this.editingOccurrence, { ...this.occurrenceForm });
+    this.closeOccurrenceEdit();
+  }
+
+  closeOccurrenceEdit() {
+    this.editingOccurrence = null;
+  }
+
+  getTemplateFor(occurrence: RecurringOccurrence): RecurringTransaction | undefined {
+    return this.recurringItems.find(item => item.id === occurrence.recurringId);
+  }
+
+  // ===============================
+  // TEMPLATES
+  // ===============================
+
+  openAddModal() {
+    this.editingId = null;
+    this.form = this.getEmptyForm();
+    this.form.template.accountId = this.accounts[0]?.id;
+    // Kept explicit so a later change of base currency does not relabel the amount
+    this.form.template.currency = this.getBaseCurrency();
+    this.formError = '';
+    this.showFormModal = true;
+  }
+
+  openEditModal(item: RecurringTransaction) {
+    const { schedule } = item;
+    this.editingId = item.id;
+    this.form = {
+      template: { currency: this.getBaseCurrency(), ...item.template },
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      startDate: schedule.startDate,
+      endRule: schedule.count ? 'afterCount' : schedule.endDate ? 'onDate' : 'never',
+      endDate: schedule.endDate ?? '',
+      count: schedule.count ?? 12,
+      dayRule: schedule.dayOfMonth === undefined ? 'start' : schedule.dayOfMonth === 'last' ? 'last' : 'specific',
+      dayOfMonth: typeof schedule.dayOfMonth === 'number' ? schedule.dayOfMonth : 1
+    };
+    this.formError = '';
+    this.showFormModal = true;
+  }
+
+  closeFormModal() {
+    this.showFormModal = false;
+    this.editingId = null;
+  }
+
+  saveRecurring() {
+    const { template } = this.form;
+    if (!template.amount || !template.category || !template.description || !this.form.startDate) {
+      this.formError = 'Please fill in all required fields';
+      return;
+    }
+    if (this.form.endRule === 'onDate' && (!this.form.endDate || this.form.endDate < this.form.startDate)) {
+      this.formError = 'End date must be after the start date';
+      return;
+    }
+
+    const usesDayRule = this.form.frequency === 'monthly' || this.form.frequency === 'yearly';
+    const schedule: RecurrenceSchedule = {
+      frequency: this.form.frequency,
+      interval: Math.max(1, Math.floor(this.form.interval) || 1),
+      startDate: this.form.startDate,
+      ...(this.form.endRule === 'onDate' && { endDate: this.form.endDate }),
+      ...(this.form.endRule === 'afterCount' && { count: Math.max(1, Math.floor(this.form.count)) }),
+      ...(usesDayRule && this.form.dayRule === 'last' && { dayOfMonth: 'last' as const }),
+      ...(usesDayRule && this.form.dayRule === 'specific' && {
+        dayOfMonth: Math.min(31, Math.max(1, Math.floor(this.form.dayOfMonth)))
+      })
+    };
+
+    if (this.editingId) {
+      this.recurringService.update(this.editingId, { template: { ...template }, schedule });
+    } else {
+      this.recurringService.add({ ...template }, schedule);
+    }
+    this.closeFormModal();
+  }
+
+  toggleActive(item: RecurringTransaction) {
+    this.recurringService.update(item.id, { active: !item.active });
+  }
+
+  deleteRecurring(item: RecurringTransaction) {
+    if (confirm(`Delete the recurring transaction "${item.template.description}"?`)) {
+      this.recurringService.remove(item.id);
+    }
+  }
+
+  getFormCategories(): string[] {
+    return this.form.template.type === 'expense' ? this.categories.expense : this.categories.revenue;
+  }
+
+  getOccurrenceCategories(): string[] {
+    return this.occurrenceForm.type === 'expense' ? this.categories.expense : this.categories.revenue;
+  }
+
+  describeSchedule(item: RecurringTransaction): string {
+    return this.recurringService.describeSchedule(item.schedule);
+  }
+
+  getNextDate(item: RecurringTransaction): Date | null {
+    return this.recurringService.getNextOccurrence(item)?.date ?? null;
+  }
+
+  private getEmptyForm(): RecurringForm {
+    return {
+      template: { amount: 0, type: 'expense', category: '', description: '', tags: [] },
+      frequency: 'monthly',
+      interval: 1,
+      startDate: toDateKey(new Date()),
+      endRule: 'never',
+      endDate: '',
+      count: 12,
+      dayRule: 'start',
+      dayOfMonth: 1
+    };
+  }
+
+  getBaseCurrency(): string {
+    return this.settingsService.getAppSettings().currency;
+  }
+
+  getCurrencies(): string[] {
+    return this.settingsService.getCurrencies();
+  }
+
+  /**
+   * In the template's currency when it has one
+   */
+  formatCurrency(amount: number, currency?: string): string {
+    return this.settingsService.formatCurrency(amount, currency);
+  }
+
+  formatDate(date: Date | string): string {
+    return this.settingsService.formatDate(date);
+  }
+}
@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { ReportsComponent } from './reports.component';
+import { buildTagBreakdown } from '../services/transaction.service';
+import { Transaction } from '../models/transaction.model';
 
 describe('ReportsComponent', () => {
   let component: ReportsComponent;
@@ -21,3 +23,27 @@ describe('ReportsComponent', () => {
     expect(component).toBeTruthy();
   });
 });
+
+describe('buildTagBreakdown', () => {
+  const transaction = (overrides: Partial<Transaction>): Transaction => ({
+    id: '1', amount: 0, type: 'expense', category: 'Food', description: '', tags: [],
+    createdAt: new Date(), updatedAt: new Date(), ...overrides
+  });
+
+  it('should total each tag across categories and count split lines separately', () => {
+    const breakdown = buildTagBreakdown([
+      transaction({ amount: 80, category: 'Transport', tags: ['vacation-2026'] }),
+      transaction({
+        amount: 50, category: 'Food', tags: ['vacation-2026', 'reimbursable'],
+        splits: [{ category: 'Food', amount: 30 }, { category: 'Shopping', amount: 20 }]
+      }),
+      transaction({ amount: 50, type: 'revenue', category: 'Other', tags: ['reimbursable'] }),
+      transaction({ amount: 999, category: 'Bills' })
+    ]);
+
+    expect(breakdown.map(b => b.tag)).toEqual(['vacation-2026', 'reimbursable']);
+    expect(breakdown[0]).toEqual(expect.objectContaining({ transactionCount: 2, totalExpenses: 130, totalRevenue: 0 }));
+    expect(breakdown[0].categories.map(c => [c.name, c.amount])).toEqual([['Transport', 80], ['Food', 30], ['Shopping', 20]]);
+    expect(breakdown[1]).toEqual(expect.objectContaining({ transactionCount: 2, totalExpenses: 50, totalRevenue: 50 }));
+  });
+});
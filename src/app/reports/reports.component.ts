@@ -2,11 +2,21 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
 import { saveAs } from 'file-saver';
-import { TransactionService, TrendAnalysis, ReportData } from '../services/transaction.service';
+import { TransactionService, TrendAnalysis, ReportData, TagBreakdown, buildTagBreakdown, getTransactionDate, roundCents, toDateKey } from '../services/transaction.service';
 import { ThemeService } from '../theme.service';
 import { Subscription } from 'rxjs';
 import { SettingsService } from '../services/settings.service';
+import {
+  DEFAULT_TRANSACTION_FILTERS,
+  FilterPresetService,
+  filtersToQueryParams,
+  resolvePresetFilters
+} from '../services/filter-preset.service';
+import { FilterPreset, TransactionFilters } from '../models/filter-preset.model';
+import { Transaction } from '../models/transaction.model';
+import { AuthService } from '../auth/auth';
 
 interface CustomReportData {
   expenses: any[];
@@ -17,6 +27,7 @@ interface CustomReportData {
     netIncome: number;
     period: string;
   };
+  tagBreakdown: TagBreakdown[];
 }
 
 @Component({
@@ -57,6 +68,10 @@ export class ReportsComponent implements OnInit, OnDestroy {
   endDate = '';
   isLoading = false;
   isDarkMode = false;
+
+  // Saved transaction view used as the custom report's data ('' = all transactions)
+  presets: FilterPreset[] = [];
+  selectedPresetId = '';
   showCustomDateRange = false;
 
   // Settings
@@ -78,7 +93,10 @@ export class ReportsComponent implements OnInit, OnDestroy {
   constructor(
     private transactionService: TransactionService,
     private themeService: ThemeService,
-    private settingsService: SettingsService
+    private settingsService: SettingsService,
+    private filterPresetService: FilterPresetService,
+    private router: Router,
+    private authService: AuthService
   ) { }
 
   ngOnInit() {
@@ -115,6 +133,10 @@ export class ReportsComponent implements OnInit, OnDestroy {
     this.currentCurrency = this.appSettings.currency;
     this.currentDateFormat = this.appSettings.dateFormat;
 
+    this.settingsSubscription.add(
+      this.filterPresetService.presets$.subscribe(presets => this.presets = presets)
+    );
+
     this.setDefaultDateRange();
     this.loadReport();
   }
@@ -173,7 +195,26 @@ export class ReportsComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * A view with its own dates moves the report range to them
+   */
+  onPresetChange() {
+    const preset = this.filterPresetService.get(this.selectedPresetId);
+    if (preset) {
+      const filters = resolvePresetFilters(preset);
+      this.startDate = filters.startDate || this.startDate;
+      this.endDate = filters.endDate || this.endDate;
+    }
+    this.loadCustomReport();
+  }
+
   loadCustomReport() {
+    const preset = this.filterPresetService.get(this.selectedPresetId);
+    if (preset) {
+      this.loadPresetReport(preset);
+      return;
+    }
+
     console.log('📋 Loading custom report data');
     this.isLoading = true;
 
@@ -189,7 +230,8 @@ export class ReportsComponent implements OnInit, OnDestroy {
               totalRevenues: reportData.summary?.totalRevenue || 0,
               netIncome: reportData.summary?.netIncome || 0,
               period: reportData.summary?.period || `${this.startDate} to ${this.endDate}`
-            }
+            },
+            tagBreakdown: reportData.tagBreakdown || []
           };
 
           console.log('✅ Custom report loaded from backend:', this.customReportData);
@@ -207,6 +249,71 @@ export class ReportsComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Custom report over a saved view's transactions within the date range,
+   * totalled client-side since the server reports know nothing of views
+   */
+  loadPresetReport(preset: FilterPreset) {
+    console.log('📋 Loading custom report for view:', preset.name);
+    this.isLoading = true;
+
+    this.filterPresetService.getPresetTransactions(preset).subscribe({
+      next: (transactions) => {
+        const inRange = transactions.filter(t => {
+          const dateKey = toDateKey(getTransactionDate(t));
+          return (!this.startDate || dateKey >= this.startDate) && (!this.endDate || dateKey <= this.endDate);
+        });
+        const toRow = (t: Transaction) => ({
+          id: t.id,
+          date: toDateKey(getTransactionDate(t)),
+          category: t.category,
+          description: t.description,
+          tags: t.tags,
+          amount: t.amount,
+          currency: t.currency,
+          originalAmount: t.originalAmount
+        });
+        const expenses = inRange.filter(t => t.type === 'expense');
+        const revenues = inRange.filter(t => t.type === 'revenue');
+        const totalExpenses = roundCents(expenses.reduce((sum, t) => sum + t.amount, 0));
+        const totalRevenues = roundCents(revenues.reduce((sum, t) => sum + t.amount, 0));
+
+        this.customReportData = {
+          expenses: expenses.map(toRow),
+          revenues: revenues.map(toRow),
+          summary: {
+            totalExpenses,
+            totalRevenues,
+            netIncome: roundCents(totalRevenues - totalExpenses),
+            period: `${preset.name}: ${this.startDate} to ${this.endDate}`
+          },
+          tagBreakdown: buildTagBreakdown(inRange)
+        };
+        this.isLoading = false;
+      },
+      error: (error) => {
+        console.error('❌ Error loading view report:', error);
+        this.isLoading = false;
+      }
+    });
+  }
+
+  /**
+   * Open the transaction list on the report's range (and saved view, if one
+   * is selected) narrowed to a category or tag
+   */
+  viewTransactions(filters: Partial<TransactionFilters>) {
+    const preset = this.filterPresetService.get(this.selectedPresetId);
+    this.router.navigate([`/transactions/${this.authService.getCurrentUser()?.id}`], {
+      queryParams: filtersToQueryParams({
+        ...(preset ? resolvePresetFilters(preset) : DEFAULT_TRANSACTION_FILTERS),
+        startDate: this.startDate,
+        endDate: this.endDate,
+        ...filters
+      })
+    });
+  }
+
   prepareTrendChartData() {
     this.trendChartData = this.trendAnalysis.map(item => ({
       period: item.period,
@@ -260,6 +367,7 @@ export class ReportsComponent implements OnInit, OnDestroy {
       expenses: this.customReportData.expenses,
       revenues: this.customReportData.revenues,
       summary: this.customReportData.summary,
+      tags: this.customReportData.tagBreakdown,
       currency: this.currentCurrency,
       generatedAt: new Date().toISOString(),
       settings: {
@@ -340,6 +448,12 @@ export class ReportsComponent implements OnInit, OnDestroy {
       data.revenues.forEach((item: any) => {
         csv += `Revenue,${item.date},${item.category},"${item.description}",${item.amount},${data.currency}\n`;
       });
+      if (data.tags?.length) {
+        csv += '\nTag,Transactions,Expenses,Revenues,Top Category,Currency\n';
+        data.tags.forEach((item: TagBreakdown) => {
+          csv += `${item.tag},${item.transactionCount},${item.totalExpenses},${item.totalRevenue},${item.categories[0]?.name ?? ''},${data.currency}\n`;
+        });
+      }
       return csv;
     }
   }
@@ -501,6 +615,32 @@ export class ReportsComponent implements OnInit, OnDestroy {
                 `).join('')}
               </tbody>
             </table>
+
+            ${data.tags?.length ? `
+            <h2>🏷️ Spending by Tag</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Tag</th>
+                  <th>Transactions</th>
+                  <th>Expenses</th>
+                  <th>Revenues</th>
+                  <th>Categories</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${data.tags.map((item: TagBreakdown) => `
+                  <tr>
+                    <td>#${item.tag}</td>
+                    <td>${item.transactionCount}</td>
+                    <td class="negative">${this.formatCurrency(item.totalExpenses)}</td>
+                    <td class="positive">${this.formatCurrency(item.totalRevenue)}</td>
+                    <td>${this.describeTagCategories(item)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+            ` : ''}
           </div>
         </body>
         </html>
@@ -546,6 +686,14 @@ export class ReportsComponent implements OnInit, OnDestroy {
       data.expenses.forEach((item: any) => {
         md += `| ${this.formatDate(item.date)} | ${item.category} | ${item.description} | ${this.formatCurrency(item.amount)} |\n`;
       });
+      if (data.tags?.length) {
+        md += `\n## 🏷️ Spending by Tag\n\n`;
+        md += `| Tag | Transactions | Expenses | Revenues | Categories |\n`;
+        md += `|-----|--------------|----------|----------|------------|\n`;
+        data.tags.forEach((item: TagBreakdown) => {
+          md += `| #${item.tag} | ${item.transactionCount} | ${this.formatCurrency(item.totalExpenses)} | ${this.formatCurrency(item.totalRevenue)} | ${this.describeTagCategories(item)} |\n`;
+        });
+      }
       return md;
     }
   }
@@ -559,11 +707,22 @@ export class ReportsComponent implements OnInit, OnDestroy {
     return this.settingsService.formatCurrency(amount);
   }
 
+  getOriginalAmount(row: { currency?: string; originalAmount?: number }): string | null {
+    return this.settingsService.formatOriginalAmount(row);
+  }
+
   formatDate(date: Date | string): string {
     // Use SettingsService for consistent date formatting
     return this.settingsService.formatDate(date);
   }
 
+  /**
+   * "Food 120.00, Transport 45.50" for a tag's expense categories
+   */
+  describeTagCategories(item: TagBreakdown): string {
+    return item.categories.map(category => `${category.name} ${this.formatCurrency(category.amount)}`).join(', ');
+  }
+
   getCurrencySymbol(): string {
     // Get currency symbol from SettingsService
     return this.settingsService.getCurrencySymbol();
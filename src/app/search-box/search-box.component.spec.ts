@@ -0,0 +1,159 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SearchBoxComponent } from './search-box.component';
+import {
+  SearchNode,
+  getPlainSearchText,
+  getSearchSuggestions,
+  matchesSearchQuery,
+  parseSearchQuery
+} from './search-query';
+import { Transaction } from '../models/transaction.model';
+
+function parse(input: string): SearchNode {
+  const result = parseSearchQuery(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.query;
+}
+
+function errorOf(input: string) {
+  const result = parseSearchQuery(input);
+  return result.ok ? null : result.error;
+}
+
+function transaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: '1',
+    amount: 12.5,
+    type: 'expense',
+    category: 'Food',
+    description: 'Morning coffee',
+    tags: [],
+    createdAt: new Date(2026, 3, 20, 9, 30),
+    updatedAt: new Date(2026, 3, 20, 9, 30),
+    ...overrides
+  };
+}
+
+describe('SearchBoxComponent', () => {
+  let component: SearchBoxComponent;
+  let fixture: ComponentFixture<SearchBoxComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SearchBoxComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SearchBoxComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should parse the example query into a filter tree', () => {
+    expect(parse('category:Food amount>50 before:2026-05-01 -tag:work "coffee"')).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'field', field: 'category', value: 'Food' },
+        { kind: 'amount', op: '>', value: 50 },
+        { kind: 'date', op: '<', value: '2026-05-01' },
+        { kind: 'not', child: { kind: 'field', field: 'tag', value: 'work' } },
+        { kind: 'text', value: 'coffee' }
+      ]
+    });
+    expect(parse('(tag:travel OR category:"Eating out") NOT type:revenue')).toEqual({
+      kind: 'and',
+      children: [
+        {
+          kind: 'or',
+          children: [
+            { kind: 'field', field: 'tag', value: 'travel' },
+            { kind: 'field', field: 'category', value: 'Eating out' }
+          ]
+        },
+        { kind: 'not', child: { kind: 'field', field: 'type', value: 'revenue' } }
+      ]
+    });
+  });
+
+  it('should evaluate queries against transactions', () => {
+    const coffee = transaction({ tags: ['work'] });
+    const groceries = transaction({
+      amount: 80,
+      description: 'Groceries',
+      category: 'Food',
+      splits: [{ category: 'Food', amount: 60 }, { category: 'Household', amount: 20 }],
+      createdAt: new Date(2026, 4, 1, 8, 0)
+    });
+
+    expect(matchesSearchQuery(parse('coffee -tag:work'), coffee)).toBe(false);
+    expect(matchesSearchQuery(parse('category:household amount>=80'), groceries)).toBe(true);
+    expect(matchesSearchQuery(parse('before:2026-05-01'), groceries)).toBe(false);
+    expect(matchesSearchQuery(parse('date:2026-05-01'), groceries)).toBe(true);
+    expect(matchesSearchQuery(parse('amount<20 OR description:groc'), groceries)).toBe(true);
+    expect(matchesSearchQuery(parse('account:checking'), coffee, { getAccountName: () => 'Checking' })).toBe(false);
+    expect(matchesSearchQuery(parse('account:checking'), transaction({ accountId: 'a1' }), { getAccountName: () => 'Checking' })).toBe(true);
+    expect(matchesSearchQuery(parse(''), coffee)).toBe(true);
+  });
+
+  it('should only hand plain text to the server search', () => {
+    expect(getPlainSearchText(parse('  '))).toBe('');
+    expect(getPlainSearchText(parse('"coffee beans"'))).toBe('coffee beans');
+    expect(getPlainSearchText(parse('coffee tag:work'))).toBeNull();
+  });
+
+  it('should explain malformed queries with the offending span', () => {
+    expect(errorOf('categry:Food')).toEqual({
+      message: 'Unknown field "categry". Did you mean "category"?',
+      start: 0,
+      end: 12
+    });
+    expect(errorOf('amount>lots')?.message).toContain('needs a number');
+    expect(errorOf('before:2026-02-30')?.message).toContain('Expected a date');
+    expect(errorOf('type:refund')?.message).toBe('type must be expense, revenue or transfer');
+    expect(errorOf('category>Food')?.message).toContain('can only be matched with ":"');
+    expect(errorOf('tag:')?.message).toBe('Missing value after "tag:"');
+    expect(errorOf('"coffee')).toEqual({ message: 'Unclosed quote', start: 0, end: 7 });
+    expect(errorOf('(tag:work')?.message).toBe('Missing ")"');
+    expect(errorOf('tag:work)')?.message).toBe('Unmatched ")"');
+    expect(errorOf('coffee OR')?.message).toBe('"OR" needs a term on both sides');
+    expect(errorOf('coffee -')).toBeNull();
+  });
+
+  it('should suggest field names and known values', () => {
+    const values = { categories: ['Food', 'Eating out', 'Entertainment'], tags: ['work'], accounts: [] };
+
+    expect(getSearchSuggestions('coffee ca', 9, values).suggestions.map(s => s.replacement)).toEqual(['category:']);
+
+    const categories = getSearchSuggestions('-category:e', 11, values);
+    expect(categories.start).toBe(0);
+    expect(categories.suggestions.map(s => s.replacement)).toEqual(['-category:"Eating out"', '-category:Entertainment']);
+
+    expect(getSearchSuggestions('type:', 5, values).suggestions.map(s => s.label)).toEqual(['expense', 'revenue', 'transfer']);
+    expect(getSearchSuggestions('"coffee', 7, values).suggestions).toEqual([]);
+  });
+
+  it('should apply a suggestion and report the parsed query', () => {
+    const queries: SearchNode[] = [];
+    component.queryChange.subscribe(query => queries.push(query));
+    component.categories = ['Food'];
+
+    component.text = 'category:fo';
+    component.onInput();
+    expect(component.suggestions.map(s => s.label)).toEqual(['Food']);
+
+    component.applySuggestion(component.suggestions[0]);
+    expect(component.text).toBe('category:Food ');
+    expect(component.error).toBeNull();
+    expect(queries[queries.length - 1]).toEqual({ kind: 'field', field: 'category', value: 'Food' });
+
+    component.text = 'amount>';
+    component.onInput();
+    expect(component.error?.message).toBe('Missing value after "amount>"');
+    expect(queries.length).toBe(2);
+  });
+});
@@ -0,0 +1,130 @@
+// search-box.component.ts
+import { Component, ElementRef, EventEmitter, Input, OnChanges, Output, SimpleChanges, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  SearchNode,
+  SearchQueryError,
+  SearchSuggestion,
+  getSearchSuggestions,
+  parseSearchQuery
+} from './search-query';
+
+@Component({
+  selector: 'app-search-box',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './search-box.component.html',
+  styleUrls: ['./search-box.component.scss']
+})
+export class SearchBoxComponent implements OnChanges {
+  @Input() text = '';
+  @Output() textChange = new EventEmitter<string>();
+
+  // Emitted only for queries that parse; a malformed query keeps the last results
+  @Output() queryChange = new EventEmitter<SearchNode>();
+
+  // Known values offered after "category:", "tag:" and "account:"
+  @Input() categories: string[] = [];
+  @Input() tags: string[] = [];
+  @Input() accounts: string[] = [];
+
+  @ViewChild('queryInput') queryInput?: ElementRef<HTMLInputElement>;
+
+  error: SearchQueryError | null = null;
+  suggestions: SearchSuggestion[] = [];
+  highlightedIndex = -1;
+  showSuggestions = false;
+  showHelp = false;
+
+  private suggestionSpan = { start: 0, end: 0 };
+
+  ngOnChanges(changes: SimpleChanges) {
+    // The text can also be replaced from outside (e.g. opening a saved view)
+    if (changes['text']) {
+      const result = parseSearchQuery(this.text);
+      this.error = result.ok ? null : result.error;
+    }
+  }
+
+  onInput() {
+    this.textChange.emit(this.text);
+
+    const result = parseSearchQuery(this.text);
+    if (result.ok) {
+      this.error = null;
+      this.queryChange.emit(result.query);
+    } else {
+      this.error = result.error;
+    }
+
+    this.showSuggestions = true;
+    this.updateSuggestions();
+  }
+
+  updateSuggestions() {
+    const input = this.queryInput?.nativeElement;
+    const cursor = input?.value === this.text ? input.selectionStart ?? this.text.length : this.text.length;
+    const { start, end, suggestions } = getSearchSuggestions(this.text, cursor, {
+      categories: this.categories,
+      tags: this.tags,
+      accounts: this.accounts
+    });
+    this.suggestionSpan = { start, end };
+    this.suggestions = suggestions;
+    this.highlightedIndex = -1;
+  }
+
+  applySuggestion(suggestion: SearchSuggestion) {
+    const before = this.text.slice(0, this.suggestionSpan.start) + suggestion.replacement;
+    const after = this.text.slice(this.suggestionSpan.end);
+    const spacer = suggestion.complete && !after.startsWith(' ') ? ' ' : '';
+    this.text = before + spacer + after;
+
+    const cursor = before.length + spacer.length;
+    const input = this.queryInput?.nativeElement;
+    if (input) {
+      input.value = this.text;
+      input.setSelectionRange(cursor, cursor);
+    }
+    this.onInput();
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    const open = this.showSuggestions && this.suggestions.length > 0;
+
+    switch (event.key) {
+      case 'Enter':
+      case 'Tab':
+        if (!open || this.highlightedIndex < 0) return;
+        event.preventDefault();
+        this.applySuggestion(this.suggestions[this.highlightedIndex]);
+        break;
+      case 'ArrowDown':
+        if (!open) return;
+        event.preventDefault();
+        this.highlightedIndex = Math.min(this.highlightedIndex + 1, this.suggestions.length - 1);
+        break;
+      case 'ArrowUp':
+        if (!open) return;
+        event.preventDefault();
+        this.highlightedIndex = Math.max(this.highlightedIndex - 1, -1);
+        break;
+      case 'Escape':
+        this.showSuggestions = false;
+        this.highlightedIndex = -1;
+        break;
+    }
+  }
+
+  clear() {
+    this.text = '';
+    this.onInput();
+    this.showSuggestions = false;
+  }
+
+  onBlur() {
+    // Let a click on a suggestion land before the list disappears
+    setTimeout(() => this.showSuggestions = false, 150);
+  }
+}
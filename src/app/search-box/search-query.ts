@@ -0,0 +1,414 @@
+// search-query.ts
+// Query language for the transaction search box, e.g.
+//   category:Food amount>50 before:2026-05-01 -tag:work "coffee"
+// Terms are AND-ed; OR, NOT / "-" and parentheses are supported.
+import { Transaction, TransactionType } from '../models/transaction.model';
+import { getCategoryAllocations, getTransactionDate, toDateKey } from '../services/transaction.service';
+import { normalizeTag } from '../tag-input/tag-input.component';
+
+export type ComparisonOp = '=' | '>' | '>=' | '<' | '<=';
+export type TextField = 'category' | 'tag' | 'type' | 'account' | 'description';
+
+export type SearchNode =
+  | { kind: 'and'; children: SearchNode[] }
+  | { kind: 'or'; children: SearchNode[] }
+  | { kind: 'not'; child: SearchNode }
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: TextField; value: string }
+  | { kind: 'amount'; op: ComparisonOp; value: number }
+  | { kind: 'date'; op: ComparisonOp; value: string }; // YYYY-MM-DD
+
+export interface SearchQueryError {
+  message: string;
+  start: number; // offending span in the query text
+  end: number;
+}
+
+export type SearchParseResult =
+  | { ok: true; query: SearchNode }
+  | { ok: false; error: SearchQueryError };
+
+export interface SearchField {
+  name: string;
+  insert: string; // what autocomplete types for the field
+  description: string;
+}
+
+export const SEARCH_FIELDS: SearchField[] = [
+  { name: 'category', insert: 'category:', description: 'Category, including split lines' },
+  { name: 'tag', insert: 'tag:', description: 'Has the tag' },
+  { name: 'type', insert: 'type:', description: 'expense, revenue or transfer' },
+  { name: 'account', insert: 'account:', description: 'Account name' },
+  { name: 'description', insert: 'description:', description: 'Description contains' },
+  { name: 'amount', insert: 'amount>', description: 'Compare the amount, e.g. amount>50' },
+  { name: 'date', insert: 'date:', description: 'On a date, or date>=2026-01-01' },
+  { name: 'before', insert: 'before:', description: 'Before a date' },
+  { name: 'after', insert: 'after:', description: 'After a date' }
+];
+
+export interface SearchContext {
+  getAccountName?: (accountId: string) => string | undefined;
+}
+
+const TRANSACTION_TYPES: TransactionType[] = ['expense', 'revenue', 'transfer'];
+const TEXT_FIELDS: TextField[] = ['category', 'tag', 'type', 'account', 'description'];
+
+// Matches everything; the result of parsing a blank query
+export const EMPTY_SEARCH_QUERY: SearchNode = { kind: 'and', children: [] };
+
+// ========== TOKENIZER ==========
+
+type Token =
+  | { type: 'term'; text: string; start: number; end: number }
+  | { type: 'field'; name: string; op: string; value: string; start: number; end: number }
+  | { type: 'lparen' | 'rparen' | 'not' | 'or' | 'and'; start: number; end: number };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+function isBoundary(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char) || char === '(' || char === ')';
+}
+
+function readQuoted(input: string, start: number): { text: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('Unclosed quote', start, input.length);
+  }
+  return { text: input.slice(start + 1, close), end: close + 1 };
+}
+
+export function tokenizeSearchQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '-' && !isBoundary(input[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ type: 'term', text: quoted.text, start: i, end: quoted.end });
+      i = quoted.end;
+    } else {
+      const field = /^([a-zA-Z]+)(>=|<=|:|=|>|<)/.exec(input.slice(i));
+      if (field) {
+        const valueStart = i + field[0].length;
+        let value: string;
+        let end: number;
+        if (input[valueStart] === '"') {
+          const quoted = readQuoted(input, valueStart);
+          value = quoted.text;
+          end = quoted.end;
+        } else {
+          end = valueStart;
+          while (!isBoundary(input[end])) end++;
+          value = input.slice(valueStart, end);
+        }
+        tokens.push({ type: 'field', name: field[1], op: field[2], value, start: i, end });
+        i = end;
+      } else {
+        let end = i;
+        while (!isBoundary(input[end]) && input[end] !== '"') end++;
+        const text = input.slice(i, end);
+        const keyword = ({ OR: 'or', AND: 'and', NOT: 'not' } as const)[text as 'OR' | 'AND' | 'NOT'];
+        tokens.push(keyword ? { type: keyword, start: i, end } : { type: 'term', text, start: i, end });
+        i = end;
+      }
+    }
+  }
+  return tokens;
+}
+
+// ========== PARSER ==========
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function isDateKey(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function buildFieldNode(token: Extract<Token, { type: 'field' }>): SearchNode {
+  const name = token.name.toLowerCase();
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, token.start, token.end);
+  };
+
+  if (!SEARCH_FIELDS.some(f => f.name === name)) {
+    const closest = SEARCH_FIELDS
+      .map(f => ({ name: f.name, distance: editDistance(name, f.name) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    fail(closest.distance <= 2
+      ? `Unknown field "${token.name}". Did you mean "${closest.name}"?`
+      : `Unknown field "${token.name}". Put the text in quotes to search for it as is.`);
+  }
+  if (!token.value.trim()) {
+    fail(`Missing value after "${token.name}${token.op}"`);
+  }
+
+  const op: ComparisonOp = token.op === ':' ? '=' : token.op as ComparisonOp;
+
+  if ((TEXT_FIELDS as string[]).includes(name)) {
+    if (op !== '=') fail(`"${name}" can only be matched with ":", e.g. ${name}:${token.value}`);
+    if (name === 'type' && !(TRANSACTION_TYPES as string[]).includes(token.value.toLowerCase())) {
+      fail('type must be expense, revenue or transfer');
+    }
+    const value = name === 'tag' ? normalizeTag(token.value) : token.value;
+    return { kind: 'field', field: name as TextField, value: name === 'type' ? value.toLowerCase() : value };
+  }
+
+  if (name === 'amount') {
+    const value = Number(token.value);
+    if (!Number.isFinite(value)) fail(`"amount" needs a number, e.g. amount>50 (got "${token.value}")`);
+    return { kind: 'amount', op, value };
+  }
+
+  if (!isDateKey(token.value)) fail(`Expected a date like 2026-05-01 after "${token.name}${token.op}"`);
+  if (name === 'date') return { kind: 'date', op, value: token.value };
+  if (token.op !== ':') fail(`Use ${name}:${token.value}`);
+  return { kind: 'date', op: name === 'before' ? '<' : '>', value: token.value };
+}
+
+class SearchQueryParser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private inputLength: number) { }
+
+  parse(): SearchNode {
+    const query = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError('Unmatched ")"', extra.start, extra.end);
+    }
+    return query;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): SearchNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      const or = this.tokens[this.position++];
+      const right = this.parseAnd();
+      if (children[children.length - 1] === EMPTY_SEARCH_QUERY || right === EMPTY_SEARCH_QUERY) {
+        throw new QuerySyntaxError('"OR" needs a term on both sides', or.start, or.end);
+      }
+      children.push(right);
+    }
+    if (children.length === 1) return children[0];
+    return { kind: 'or', children };
+  }
+
+  private parseAnd(): SearchNode {
+    const children: SearchNode[] = [];
+    let token = this.peek();
+    while (token && token.type !== 'rparen' && token.type !== 'or') {
+      if (token.type === 'and') {
+        this.position++;
+        const next = this.peek();
+        if (children.length === 0 || !next || next.type === 'rparen' || next.type === 'or') {
+          throw new QuerySyntaxError('"AND" needs a term on both sides', token.start, token.end);
+        }
+      } else {
+        children.push(this.parseUnary());
+      }
+      token = this.peek();
+    }
+    if (children.length === 0) return EMPTY_SEARCH_QUERY;
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(): SearchNode {
+    const token = this.peek()!;
+    if (token.type !== 'not') return this.parsePrimary();
+
+    this.position++;
+    const next = this.peek();
+    if (!next || next.type === 'rparen' || next.type === 'or' || next.type === 'and') {
+      throw new QuerySyntaxError(`Nothing to exclude after "${token.end - token.start > 1 ? 'NOT' : '-'}"`, token.start, token.end);
+    }
+    return { kind: 'not', child: this.parseUnary() };
+  }
+
+  private parsePrimary(): SearchNode {
+    const token = this.tokens[this.position++];
+
+    if (token.type === 'lparen') {
+      const inner = this.parseOr();
+      const close = this.peek();
+      if (close?.type !== 'rparen') {
+        throw new QuerySyntaxError('Missing ")"', token.start, this.inputLength);
+      }
+      this.position++;
+      if (inner === EMPTY_SEARCH_QUERY) {
+        throw new QuerySyntaxError('Empty parentheses', token.start, close.end);
+      }
+      return inner;
+    }
+    if (token.type === 'field') return buildFieldNode(token);
+    if (token.type === 'term') return { kind: 'text', value: token.text };
+
+    throw new QuerySyntaxError(`Unexpected "${token.type.toUpperCase()}"`, token.start, token.end);
+  }
+}
+
+
+export function parseSearchQuery(input: string): SearchParseResult {
+  try {
+    const tokens = tokenizeSearchQuery(input);
+    return { ok: true, query: new SearchQueryParser(tokens, input.length).parse() };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { ok: false, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * The text to send to the server's plain substring search: '' for a blank
+ * query, the term for a single word or phrase, null when the query needs
+ * the full evaluator
+ */
+export function getPlainSearchText(query: SearchNode): string | null {
+  if (query.kind === 'and' && query.children.length === 0) return '';
+  return query.kind === 'text' ? query.value : null;
+}
+
+// ========== EVALUATION ==========
+
+function compare(actual: number | string, op: ComparisonOp, expected: number | string): boolean {
+  switch (op) {
+    case '=': return actual === expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+export function matchesSearchQuery(query: SearchNode, transaction: Transaction, context: SearchContext = {}): boolean {
+  switch (query.kind) {
+    case 'and':
+      return query.children.every(child => matchesSearchQuery(child, transaction, context));
+    case 'or':
+      return query.children.some(child => matchesSearchQuery(child, transaction, context));
+    case 'not':
+      return !matchesSearchQuery(query.child, transaction, context);
+    case 'text': {
+      const value = query.value.toLowerCase();
+      return [transaction.description, ...getCategoryAllocations(transaction).map(a => a.category), ...transaction.tags]
+        .some(text => text.toLowerCase().includes(value));
+    }
+    case 'amount':
+      return compare(Math.round(transaction.amount * 100), query.op, Math.round(query.value * 100));
+    case 'date':
+      return compare(toDateKey(getTransactionDate(transaction)), query.op, query.value);
+    case 'field':
+      return matchesField(query.field, query.value, transaction, context);
+  }
+}
+
+function matchesField(field: TextField, value: string, transaction: Transaction, context: SearchContext): boolean {
+  const expected = value.toLowerCase();
+  switch (field) {
+    case 'category':
+      return getCategoryAllocations(transaction).some(a => a.category.toLowerCase() === expected);
+    case 'tag':
+      return transaction.tags.includes(value);
+    case 'type':
+      return transaction.type === expected;
+    case 'description':
+      return transaction.description.toLowerCase().includes(expected);
+    case 'account':
+      return [transaction.accountId, transaction.type === 'transfer' ? transaction.toAccountId : undefined]
+        .some(id => !!id && context.getAccountName?.(id)?.toLowerCase() === expected);
+  }
+}
+
+// ========== AUTOCOMPLETE ==========
+
+export interface SearchSuggestion {
+  label: string;
+  hint: string;
+  replacement: string; // replaces the word being typed
+  complete: boolean; // a finished term, followed by a space when applied
+}
+
+export interface SearchSuggestionValues {
+  categories: string[];
+  tags: string[];
+  accounts: string[];
+}
+
+/**
+ * Suggestions for the word ending at `cursor`: field names while typing a
+ * bare word, known values after "category:", "tag:", "type:" or "account:"
+ */
+export function getSearchSuggestions(
+  input: string,
+  cursor: number,
+  values: SearchSuggestionValues
+): { start: number; end: number; suggestions: SearchSuggestion[] } {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(input[start - 1])) start--;
+
+  const word = input.slice(start, cursor);
+  const prefix = /^[-(]*/.exec(word)![0];
+  const rest = word.slice(prefix.length);
+  const field = /^([a-zA-Z]+):"?(.*)$/.exec(rest);
+  let suggestions: SearchSuggestion[] = [];
+
+  if (field) {
+    const name = field[1].toLowerCase();
+    const known: Record<string, string[]> = {
+      category: values.categories,
+      tag: values.tags,
+      type: TRANSACTION_TYPES,
+      account: values.accounts
+    };
+    const partial = field[2].toLowerCase();
+    suggestions = [...new Set(known[name] ?? [])]
+      .filter(value => value.toLowerCase().includes(partial))
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)) || a.localeCompare(b))
+      .map(value => ({
+        label: value,
+        hint: name,
+        replacement: `${prefix}${name}:${/[\s()"]/.test(value) ? `"${value}"` : value}`,
+        complete: true
+      }));
+  } else if (/^[a-zA-Z]+$/.test(rest)) {
+    suggestions = SEARCH_FIELDS
+      .filter(f => f.name.startsWith(rest.toLowerCase()))
+      .map(f => ({ label: f.insert, hint: f.description, replacement: prefix + f.insert, complete: false }));
+  }
+
+  return { start, end: cursor, suggestions: suggestions.slice(0, 8) };
+}
@@ -0,0 +1,239 @@
+// services/account.service.ts
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { BehaviorSubject, Observable, of, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import { Account, AccountBalance, AccountDraft, AccountKind } from '../models/account.model';
+import { Transaction } from '../models/transaction.model';
+import { AuthService } from '../auth/auth';
+import { getTransactionDate, roundCents } from './transaction.service';
+import { CurrencyContext, getAmountIn } from './exchange-rate.service';
+
+export const ACCOUNT_KINDS: { value: AccountKind; label: string; icon: string }[] = [
+  { value: 'cash', label: 'Cash', icon: '👛' },
+  { value: 'checking', label: 'Checking', icon: '🏦' },
+  { value: 'savings', label: 'Savings', icon: '🐖' },
+  { value: 'credit-card', label: 'Credit Card', icon: '💳' }
+];
+
+/**
+ * Signed effect of a transaction on the given account's balance; a transfer
+ * leaves its source account and lands in its destination. The amount is the
+ * base one unless another (e.g. converted) is given.
+ */
+export function getBalanceEffect(transaction: Transaction, accountId: string, amount = transaction.amount): number {
+  if (transaction.type === 'transfer') {
+    if (transaction.toAccountId === accountId) return amount;
+    return transaction.accountId === accountId ? -amount : 0;
+  }
+  if (transaction.accountId !== accountId) return 0;
+  return transaction.type === 'revenue' ? amount : -amount;
+}
+
+/**
+ * Effect of a transaction on an account's balance in the account's own
+ * currency; null when there is no rate to convert it
+ */
+export function getAccountEffect(transaction: Transaction, account: Account, context: CurrencyContext): number | null {
+  const amount = getAmountIn(transaction, account.currency, context);
+  return amount === null ? null : getBalanceEffect(transaction, account.id, amount);
+}
+
+/**
+ * Accounts a transaction moves money in or out of
+ */
+export function getAffectedAccountIds(transaction: Transaction): string[] {
+  const ids = [transaction.accountId, transaction.type === 'transfer' ? transaction.toAccountId : undefined];
+  return ids.filter((id): id is string => !!id);
+}
+
+/**
+ * Oldest first by value date; transactions on the same instant keep their list order
+ */
+function sortChronologically(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) => getTransactionDate(a).getTime() - getTransactionDate(b).getTime());
+}
+
+/**
+ * Balances in each account's own currency; null for an account holding a
+ * transaction that has no rate into it
+ */
+export function getAccountBalances(accounts: Account[], transactions: Transaction[], context: CurrencyContext): AccountBalance[] {
+  return accounts.map(account => {
+    const own = transactions.filter(t => getAffectedAccountIds(t).includes(account.id));
+    const effects = own.map(t => getAccountEffect(t, account, context));
+    return {
+      account,
+      balance: effects.some(effect => effect === null)
+        ? null
+        : roundCents(effects.reduce<number>((sum, effect) => sum + effect!, account.openingBalance)),
+      transactionCount: own.length
+    };
+  });
+}
+
+/**
+ * Balance of each account a transaction touches right after that
+ * transaction, in the account's currency, keyed by transaction id and then
+ * account id (a transfer has two). Transactions without a known account are
+ * left out, and so is an account from its first transaction without a rate on.
+ */
+export function getRunningBalances(
+  accounts: Account[],
+  transactions: Transaction[],
+  context: CurrencyContext
+): Map<string, Map<string, number>> {
+  const byId = new Map(accounts.map(account => [account.id, account]));
+  const balances = new Map(accounts.map(account => [account.id, account.openingBalance]));
+  const running = new Map<string, Map<string, number>>();
+
+  sortChronologically(transactions).forEach(transaction => {
+    getAffectedAccountIds(transaction)
+      .filter(accountId => balances.has(accountId))
+      .forEach(accountId => {
+        const effect = getAccountEffect(transaction, byId.get(accountId)!, context);
+        if (effect === null) {
+          balances.delete(accountId);
+          return;
+        }
+        const balance = roundCents(balances.get(accountId)! + effect);
+        balances.set(accountId, balance);
+        if (!running.has(transaction.id)) {
+          running.set(transaction.id, new Map());
+        }
+        running.get(transaction.id)!.set(accountId, balance);
+      });
+  });
+  return running;
+}
+
+// An account as the API sends it; ids may be numbers and fields may be missing
+interface ApiAccount {
+  id?: string | number;
+  name?: string;
+  kind?: string;
+  openingBalance?: number | string;
+  currency?: string;
+  createdAt?: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AccountService {
+  private apiUrl = 'https://localhost:8443/api';
+  private userId: string | null = null;
+
+  private accountsSubject = new BehaviorSubject<Account[]>([]);
+  public accounts$: Observable<Account[]> = this.accountsSubject.asObservable();
+
+  // The account the transactions page is filtered to, while it is open
+  private selectedAccountId: string | null = null;
+
+  constructor(private http: HttpClient, private authService: AuthService) {
+    this.userId = this.authService.getCurrentUser()?.id || null;
+  }
+
+  private getRequestOptions(): { headers: HttpHeaders; withCredentials: boolean } {
+    return {
+      headers: new HttpHeaders({ 'Content-Type': 'application/json' }),
+      withCredentials: true
+    };
+  }
+
+  getAccounts(): Account[] {
+    return this.accountsSubject.value;
+  }
+
+  setSelectedAccount(accountId: string | null): void {
+    this.selectedAccountId = accountId;
+  }
+
+  /**
+   * The account new entries go to: the one selected on the transactions
+   * page, else the first account
+   */
+  getDefaultAccountId(): string | undefined {
+    const accounts = this.getAccounts();
+    return accounts.find(a => a.id === this.selectedAccountId)?.id ?? accounts[0]?.id;
+  }
+
+  loadAccounts(): Observable<Account[]> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for accounts');
+      return of([]);
+    }
+
+    return this.http.get<ApiAccount[]>(`${this.apiUrl}/users/${userId}/accounts`, this.getRequestOptions()).pipe(
+      map(accounts => Array.isArray(accounts) ? accounts.map(item => this.mapAccount(item)) : []),
+      tap(accounts => this.accountsSubject.next(accounts)),
+      catchError(error => {
+        console.error('❌ Error fetching accounts:', error);
+        return of(this.getAccounts());
+      })
+    );
+  }
+
+  addAccount(account: AccountDraft): Observable<Account> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for adding account');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.post<ApiAccount>(`${this.apiUrl}/users/${userId}/accounts`, account, this.getRequestOptions()).pipe(
+      map(item => this.mapAccount(item)),
+      tap(created => this.accountsSubject.next([...this.getAccounts(), created])),
+      catchError(error => {
+        console.error('❌ Error adding account:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  updateAccount(id: string, account: AccountDraft): Observable<Account> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for updating account');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.put<ApiAccount>(`${this.apiUrl}/users/${userId}/accounts/${id}`, account, this.getRequestOptions()).pipe(
+      map(item => this.mapAccount(item)),
+      tap(updated => this.accountsSubject.next(this.getAccounts().map(a => a.id === id ? updated : a))),
+      catchError(error => {
+        console.error('❌ Error updating account:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  deleteAccount(id: string): Observable<void> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for deleting account');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.delete<void>(`${this.apiUrl}/users/${userId}/accounts/${id}`, this.getRequestOptions()).pipe(
+      tap(() => this.accountsSubject.next(this.getAccounts().filter(a => a.id !== id))),
+      catchError(error => {
+        console.error('❌ Error deleting account:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private mapAccount(item: ApiAccount): Account {
+    const kind = ACCOUNT_KINDS.find(k => k.value === item.kind)?.value ?? 'checking';
+    return {
+      id: item.id?.toString() || '',
+      name: item.name || 'Account',
+      kind,
+      openingBalance: Number(item.openingBalance) || 0,
+      currency: item.currency || 'USD',
+      createdAt: item.createdAt ? new Date(item.createdAt) : new Date()
+    };
+  }
+}
@@ -0,0 +1,179 @@
+// services/categorization-rule.service.ts
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Transaction, TransactionDraft } from '../models/transaction.model';
+import {
+  CategorizationRule,
+  CategorizationRuleDraft,
+  RulePreviewRow,
+  RuleResult
+} from '../models/categorization-rule.model';
+import { AuthService } from '../auth/auth';
+import { UserStorage } from './user-storage';
+
+// What the rules read and may change
+export type RuleTarget = Pick<TransactionDraft, 'amount' | 'type' | 'category' | 'description' | 'splits'> & {
+  tags?: string[];
+};
+
+function toRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a rule cannot be saved, or null when it is fine
+ */
+export function getRuleError(rule: Pick<CategorizationRule, 'name' | 'conditions' | 'actions'>): string | null {
+  const { conditions, actions } = rule;
+
+  if (!rule.name.trim()) return 'Give the rule a name';
+  if (conditions.descriptionMatch === 'regex' && conditions.descriptionPattern) {
+    try {
+      new RegExp(conditions.descriptionPattern, 'i');
+    } catch (error) {
+      return `Invalid regular expression: ${(error as Error).message}`;
+    }
+  }
+  if (conditions.minAmount != null && conditions.maxAmount != null && conditions.minAmount > conditions.maxAmount) {
+    return 'The minimum amount is above the maximum';
+  }
+  if (!actions.category && !actions.tags?.length && !actions.description?.trim()) {
+    return 'Pick at least one action';
+  }
+  return null;
+}
+
+export function matchesRule(rule: Pick<CategorizationRule, 'conditions'>, target: RuleTarget): boolean {
+  const { conditions } = rule;
+
+  if (target.type === 'transfer') return false;
+  if (conditions.type && conditions.type !== target.type) return false;
+  if (conditions.minAmount != null && target.amount < conditions.minAmount) return false;
+  if (conditions.maxAmount != null && target.amount > conditions.maxAmount) return false;
+
+  const pattern = conditions.descriptionPattern;
+  if (!pattern) return true;
+  if (conditions.descriptionMatch === 'regex') {
+    return toRegExp(pattern)?.test(target.description) ?? false;
+  }
+  return target.description.toLowerCase().includes(pattern.toLowerCase());
+}
+
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Run the enabled rules in priority order. Conditions are checked against the
+ * original entry; the first rule to set a category or description wins and
+ * tags add up. Split transactions keep their categories.
+ */
+export function applyRules(rules: CategorizationRule[], target: RuleTarget): RuleResult {
+  let category: string | undefined;
+  let description: string | undefined;
+  const tags = [...(target.tags ?? [])];
+  const ruleNames: string[] = [];
+
+  for (const rule of sortRules(rules)) {
+    if (!rule.enabled || !matchesRule(rule, target)) continue;
+
+    ruleNames.push(rule.name);
+    if (category === undefined && rule.actions.category && !target.splits?.length) {
+      category = rule.actions.category;
+    }
+    if (description === undefined && rule.actions.description?.trim()) {
+      description = rule.actions.description.trim();
+    }
+    (rule.actions.tags ?? []).filter(tag => !tags.includes(tag)).forEach(tag => tags.push(tag));
+  }
+
+  const changes: Partial<TransactionDraft> = {};
+  if (category !== undefined && category !== target.category) changes.category = category;
+  if (description !== undefined && description !== target.description) changes.description = description;
+  if (tags.length !== (target.tags ?? []).length) changes.tags = tags;
+  return { changes, ruleNames };
+}
+
+/**
+ * User-defined categorization rules, stored per user in localStorage
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategorizationRuleService {
+  private rulesSubject = new BehaviorSubject<CategorizationRule[]>([]);
+  public rules$: Observable<CategorizationRule[]> = this.rulesSubject.asObservable();
+
+  private storage: UserStorage<CategorizationRule>;
+
+  constructor(authService: AuthService) {
+    this.storage = new UserStorage(authService, 'expenseTrackerRules', rules => this.rulesSubject.next(sortRules(rules)));
+  }
+
+  private save(rules: CategorizationRule[]): void {
+    const sorted = sortRules(rules);
+    this.storage.write(sorted);
+    this.rulesSubject.next(sorted);
+  }
+
+  /**
+   * Rules in the order they run
+   */
+  getAll(): CategorizationRule[] {
+    return this.rulesSubject.value;
+  }
+
+  /**
+   * New rules run after the existing ones
+   */
+  add(draft: CategorizationRuleDraft): CategorizationRule {
+    const rules = this.getAll();
+    const rule: CategorizationRule = {
+      ...draft,
+      id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      priority: rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + 1 : 1,
+      createdAt: new Date().toISOString()
+    };
+    this.save([...rules, rule]);
+    return rule;
+  }
+
+  update(id: string, changes: Partial<Omit<CategorizationRule, 'id'>>): void {
+    this.save(this.getAll().map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  }
+
+  remove(id: string): void {
+    this.save(this.getAll().filter(rule => rule.id !== id));
+  }
+
+  /**
+   * Swap a rule with the one before (-1) or after (1) it; priorities are
+   * renumbered 1..n
+   */
+  move(id: string, direction: -1 | 1): void {
+    const rules = [...this.getAll()];
+    const index = rules.findIndex(rule => rule.id === id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= rules.length) return;
+
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.save(rules.map((rule, i) => ({ ...rule, priority: i + 1 })));
+  }
+
+  apply(target: RuleTarget): RuleResult {
+    return applyRules(this.getAll(), target);
+  }
+
+  /**
+   * Rows of the history the given rules would change ("test against history")
+   */
+  preview(rules: CategorizationRule[], transactions: Transaction[]): RulePreviewRow[] {
+    return transactions
+      .map(transaction => ({ transaction, result: applyRules(rules, transaction) }))
+      .filter(row => Object.keys(row.result.changes).length > 0);
+  }
+}
@@ -0,0 +1,212 @@
+// services/exchange-rate.service.ts
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { SplitLine, Transaction, TransactionDraft } from '../models/transaction.model';
+import { ExchangeRate, ExchangeRateDraft } from '../models/exchange-rate.model';
+import { AuthService } from '../auth/auth';
+import { UserStorage } from './user-storage';
+import { SettingsService } from './settings.service';
+import { fromDateKey, getTransactionDate, roundCents, toDateKey } from './transaction.service';
+import { parseCsv } from '../transaction-import/csv-parser';
+
+/**
+ * Value of one `from` in `to` on a day, from the rate closest to it (the
+ * earlier one on a tie). A rate stored the other way round is inverted.
+ * Null when the pair has no rate at all.
+ */
+export function findExchangeRate(rates: ExchangeRate[], from: string, to: string, dateKey: string): number | null {
+  if (from === to) return 1;
+
+  const day = fromDateKey(dateKey).getTime();
+  let best: { rate: number; distance: number; before: boolean } | null = null;
+
+  for (const rate of rates) {
+    const value = rate.from === from && rate.to === to ? rate.rate
+      : rate.from === to && rate.to === from ? 1 / rate.rate
+      : null;
+    if (value === null) continue;
+
+    const time = fromDateKey(rate.date).getTime();
+    const candidate = { rate: value, distance: Math.abs(time - day), before: time <= day };
+    if (!best || candidate.distance < best.distance || (candidate.distance === best.distance && candidate.before && !best.before)) {
+      best = candidate;
+    }
+  }
+  return best?.rate ?? null;
+}
+
+export function convertAmount(amount: number, rate: number): number {
+  return roundCents(amount * rate);
+}
+
+// What converting stored amounts needs: the currency they are in and the rates on file
+export interface CurrencyContext {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+/**
+ * A transaction's amount in the given currency: what was paid when the money
+ * moved in that currency, else the base amount at the rate of its day. Null
+ * when the pair has no rate.
+ */
+export function getAmountIn(transaction: Transaction, currency: string, context: CurrencyContext): number | null {
+  if (transaction.currency === currency && transaction.originalAmount !== undefined) {
+    return transaction.originalAmount;
+  }
+  const rate = findExchangeRate(context.rates, context.baseCurrency, currency, toDateKey(getTransactionDate(transaction)));
+  return rate === null ? null : convertAmount(transaction.amount, rate);
+}
+
+/**
+ * Changes restating a transaction in a new base currency: what was paid, at
+ * the rate of its day. Amounts in the old base keep it as their currency, so
+ * converting again later starts from the same figures. Null when the pair
+ * has no rate.
+ */
+export function rebaseTransaction(
+  transaction: Transaction,
+  from: string,
+  to: string,
+  rates: ExchangeRate[]
+): Partial<TransactionDraft> | null {
+  const foreign = !!transaction.currency && transaction.originalAmount !== undefined;
+  const currency = foreign ? transaction.currency! : from;
+  const paid = foreign ? transaction.originalAmount! : transaction.amount;
+  const rate = findExchangeRate(rates, currency, to, toDateKey(getTransactionDate(transaction)));
+  if (rate === null) return null;
+
+  const amount = convertAmount(paid, rate);
+  return {
+    amount,
+    // Money that moved in the new base needs no conversion
+    ...(currency === to ? { currency: '', originalAmount: undefined } : { currency, originalAmount: paid }),
+    ...(transaction.splits?.length && { splits: rescaleSplits(transaction.splits, amount) })
+  };
+}
+
+/**
+ * Split lines scaled to a new total, e.g. after converting the amount to
+ * another currency; the largest line takes the rounding difference
+ */
+export function rescaleSplits(splits: SplitLine[], total: number): SplitLine[] {
+  const current = splits.reduce((sum, line) => sum + line.amount, 0);
+  if (!current) return splits.map(line => ({ ...line }));
+
+  const scaled = splits.map(line => ({ ...line, amount: roundCents(line.amount * total / current) }));
+  const largest = scaled.reduce((max, line) => line.amount > max.amount ? line : max, scaled[0]);
+  largest.amount = roundCents(largest.amount + total - scaled.reduce((sum, line) => sum + line.amount, 0));
+  return scaled;
+}
+
+/**
+ * Read rates from a CSV with a header row naming the date, from, to and rate
+ * columns (in any order). Dates are YYYY-MM-DD; rates may use a decimal comma.
+ */
+export function parseExchangeRatesCsv(text: string): { drafts: ExchangeRateDraft[]; errors: string[] } {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(cell => cell.trim().toLowerCase());
+  const index = {
+    date: columns.indexOf('date'),
+    from: columns.indexOf('from'),
+    to: columns.indexOf('to'),
+    rate: columns.indexOf('rate')
+  };
+  if (Object.values(index).some(i => i === -1)) {
+    return { drafts: [], errors: ['The first row must name the date, from, to and rate columns'] };
+  }
+
+  const drafts: ExchangeRateDraft[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const date = row[index.date]?.trim() ?? '';
+    const from = row[index.from]?.trim().toUpperCase() ?? '';
+    const to = row[index.to]?.trim().toUpperCase() ?? '';
+    const rate = Number((row[index.rate] ?? '').trim().replace(',', '.'));
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || toDateKey(fromDateKey(date)) !== date) {
+      errors.push(`Line ${line}: "${date}" is not a YYYY-MM-DD date`);
+    } else if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to) || from === to) {
+      errors.push(`Line ${line}: needs two different currency codes`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${line}: the rate must be a number greater than zero`);
+    } else {
+      drafts.push({ date, from, to, rate });
+    }
+  });
+  return { drafts, errors };
+}
+
+/**
+ * Newest first, then by currency pair
+ */
+export function sortExchangeRates(rates: ExchangeRate[]): ExchangeRate[] {
+  return [...rates].sort((a, b) =>
+    b.date.localeCompare(a.date) || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+}
+
+/**
+ * Dated exchange rates for converting foreign-currency transactions into
+ * the base currency, stored per user in localStorage
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExchangeRateService {
+  private ratesSubject = new BehaviorSubject<ExchangeRate[]>([]);
+  public rates$: Observable<ExchangeRate[]> = this.ratesSubject.asObservable();
+
+  private storage: UserStorage<ExchangeRate>;
+
+  constructor(authService: AuthService, private settingsService: SettingsService) {
+    this.storage = new UserStorage(authService, 'expenseTrackerExchangeRates', rates => this.ratesSubject.next(sortExchangeRates(rates)));
+  }
+
+  private save(rates: ExchangeRate[]): void {
+    const sorted = sortExchangeRates(rates);
+    this.storage.write(sorted);
+    this.ratesSubject.next(sorted);
+  }
+
+  /**
+   * Newest first
+   */
+  getAll(): ExchangeRate[] {
+    return this.ratesSubject.value;
+  }
+
+  getRate(from: string, to: string, dateKey: string): number | null {
+    return findExchangeRate(this.getAll(), from, to, dateKey);
+  }
+
+  getCurrencyContext(): CurrencyContext {
+    return { baseCurrency: this.settingsService.getAppSettings().currency, rates: this.getAll() };
+  }
+
+  /**
+   * Store rates; one for a pair and day that is already on file replaces it
+   */
+  addMany(drafts: ExchangeRateDraft[]): ExchangeRate[] {
+    const now = new Date().toISOString();
+    const added = drafts.map((draft, i): ExchangeRate => ({
+      ...draft,
+      id: `fx-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 9)}`,
+      createdAt: now
+    }));
+    const sameDay = (a: ExchangeRate, b: ExchangeRate) => a.date === b.date && a.from === b.from && a.to === b.to;
+
+    const kept = this.getAll().filter(rate => !added.some(other => sameDay(rate, other)));
+    const unique = added.filter((rate, i) => !added.slice(i + 1).some(other => sameDay(rate, other)));
+    this.save([...kept, ...unique]);
+    return unique;
+  }
+
+  add(draft: ExchangeRateDraft): ExchangeRate {
+    return this.addMany([draft])[0];
+  }
+
+  remove(id: string): void {
+    this.save(this.getAll().filter(rate => rate.id !== id));
+  }
+}
@@ -0,0 +1,238 @@
+// services/filter-preset.service.ts
+import { Injectable } from '@angular/core';
+import { ParamMap } from '@angular/router';
+import { BehaviorSubject, Observable, forkJoin } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Transaction } from '../models/transaction.model';
+import {
+  FilterPreset,
+  FilterPresetDraft,
+  PresetDateRange,
+  TransactionFilters
+} from '../models/filter-preset.model';
+import { TransactionService, getCategoryAllocations, getTransactionDate, toDateKey } from './transaction.service';
+import { AccountService, getAffectedAccountIds } from './account.service';
+import { AuthService } from '../auth/auth';
+import { UserStorage } from './user-storage';
+import {
+  EMPTY_SEARCH_QUERY,
+  SearchContext,
+  SearchNode,
+  matchesSearchQuery,
+  parseSearchQuery
+} from '../search-box/search-query';
+
+export const PRESET_DATE_RANGES: { value: PresetDateRange; label: string }[] = [
+  { value: 'fixed', label: 'Fixed dates' },
+  { value: 'last-7-days', label: 'Last 7 days' },
+  { value: 'last-30-days', label: 'Last 30 days' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'this-year', label: 'This year' }
+];
+
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilters = {
+  accountId: 'all',
+  search: '',
+  type: 'all',
+  category: 'all',
+  tag: 'all',
+  startDate: '',
+  endDate: ''
+};
+
+/**
+ * The preset's filters with a rolling date range turned into dates
+ */
+export function resolvePresetFilters(preset: Pick<FilterPreset, 'filters' | 'dateRange'>, today: Date = new Date()): TransactionFilters {
+  const y = today.getFullYear();
+  const m = today.getMonth();
+  const d = today.getDate();
+  const ranges: Record<Exclude<PresetDateRange, 'fixed'>, [Date, Date]> = {
+    'last-7-days': [new Date(y, m, d - 6), today],
+    'last-30-days': [new Date(y, m, d - 29), today],
+    'this-month': [new Date(y, m, 1), new Date(y, m + 1, 0)],
+    'last-month': [new Date(y, m - 1, 1), new Date(y, m, 0)],
+    'this-year': [new Date(y, 0, 1), new Date(y, 11, 31)]
+  };
+
+  if (preset.dateRange === 'fixed') return { ...preset.filters };
+  const [start, end] = ranges[preset.dateRange];
+  return { ...preset.filters, startDate: toDateKey(start), endDate: toDateKey(end) };
+}
+
+// Query parameter holding each filter in the transactions page URL
+const FILTER_QUERY_PARAMS: Record<keyof TransactionFilters, string> = {
+  accountId: 'account',
+  search: 'q',
+  type: 'type',
+  category: 'category',
+  tag: 'tag',
+  startDate: 'from',
+  endDate: 'to'
+};
+
+const FILTER_TYPES: TransactionFilters['type'][] = ['all', 'expense', 'revenue', 'transfer'];
+
+/**
+ * Query parameters for the transactions page; filters at their default are
+ * null so navigating drops them from the URL
+ */
+export function filtersToQueryParams(filters: TransactionFilters): Record<string, string | null> {
+  const params: Record<string, string | null> = {};
+  (Object.keys(FILTER_QUERY_PARAMS) as (keyof TransactionFilters)[]).forEach(key => {
+    params[FILTER_QUERY_PARAMS[key]] = filters[key] !== DEFAULT_TRANSACTION_FILTERS[key] ? filters[key] : null;
+  });
+  return params;
+}
+
+/**
+ * Filters from the transactions page URL. `fallback` applies when the URL
+ * has no filter parameters at all; an unknown type or a malformed date is
+ * left at its default.
+ */
+export function filtersFromQueryParams(params: ParamMap, fallback: TransactionFilters = DEFAULT_TRANSACTION_FILTERS): TransactionFilters {
+  const keys = Object.keys(FILTER_QUERY_PARAMS) as (keyof TransactionFilters)[];
+  if (!keys.some(key => params.has(FILTER_QUERY_PARAMS[key]))) return { ...fallback };
+
+  const get = (key: keyof TransactionFilters) => params.get(FILTER_QUERY_PARAMS[key]) ?? DEFAULT_TRANSACTION_FILTERS[key];
+  const getDate = (key: 'startDate' | 'endDate') => /^\d{4}-\d{2}-\d{2}$/.test(get(key)) ? get(key) : '';
+
+  return {
+    accountId: get('accountId'),
+    search: get('search'),
+    type: FILTER_TYPES.find(type => type === get('type')) ?? 'all',
+    category: get('category'),
+    tag: get('tag'),
+    startDate: getDate('startDate'),
+    endDate: getDate('endDate')
+  };
+}
+
+/**
+ * Dates of a dashboard time frame ('day', 'week', 'month' or 'year'; anything
+ * else is all time), for drilling down into the transaction list
+ */
+export function getTimeFrameDates(
+  timeFrame: string,
+  today: Date = new Date(),
+  weekStartsOn = 1
+): Pick<TransactionFilters, 'startDate' | 'endDate'> {
+  const y = today.getFullYear();
+  const m = today.getMonth();
+  const d = today.getDate();
+  const weekStart = d - (today.getDay() - weekStartsOn + 7) % 7;
+  const ranges: Record<string, [Date, Date]> = {
+    day: [today, today],
+    week: [new Date(y, m, weekStart), new Date(y, m, weekStart + 6)],
+    month: [new Date(y, m, 1), new Date(y, m + 1, 0)],
+    year: [new Date(y, 0, 1), new Date(y, 11, 31)]
+  };
+
+  const range = ranges[timeFrame];
+  return range
+    ? { startDate: toDateKey(range[0]), endDate: toDateKey(range[1]) }
+    : { startDate: '', endDate: '' };
+}
+
+export function areFiltersEqual(a: TransactionFilters, b: TransactionFilters): boolean {
+  return (Object.keys(DEFAULT_TRANSACTION_FILTERS) as (keyof TransactionFilters)[]).every(key => a[key] === b[key]);
+}
+
+export function getFiltersSearchQuery(filters: TransactionFilters): SearchNode {
+  const parsed = parseSearchQuery(filters.search);
+  return parsed.ok ? parsed.query : EMPTY_SEARCH_QUERY;
+}
+
+/**
+ * Client-side equivalent of the list's server filters plus the search box
+ * query; a search that no longer parses is ignored
+ */
+export function matchesTransactionFilters(
+  transaction: Transaction,
+  filters: TransactionFilters,
+  context: SearchContext = {},
+  query: SearchNode = getFiltersSearchQuery(filters)
+): boolean {
+  const dateKey = toDateKey(getTransactionDate(transaction));
+
+  return (filters.type === 'all' || transaction.type === filters.type) &&
+    (filters.category === 'all' || getCategoryAllocations(transaction).some(a => a.category === filters.category)) &&
+    (filters.tag === 'all' || transaction.tags.includes(filters.tag)) &&
+    (filters.accountId === 'all' || getAffectedAccountIds(transaction).includes(filters.accountId)) &&
+    (!filters.startDate || dateKey >= filters.startDate) &&
+    (!filters.endDate || dateKey <= filters.endDate) &&
+    matchesSearchQuery(query, transaction, context);
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FilterPresetService {
+  private presetsSubject = new BehaviorSubject<FilterPreset[]>([]);
+  public presets$: Observable<FilterPreset[]> = this.presetsSubject.asObservable();
+
+  private storage: UserStorage<FilterPreset>;
+
+  constructor(
+    private transactionService: TransactionService,
+    private accountService: AccountService,
+    authService: AuthService
+  ) {
+    this.storage = new UserStorage(authService, 'expenseTrackerFilterPresets', presets => this.presetsSubject.next(presets));
+  }
+
+  private save(presets: FilterPreset[]): void {
+    this.storage.write(presets);
+    this.presetsSubject.next(presets);
+  }
+
+  getAll(): FilterPreset[] {
+    return this.presetsSubject.value;
+  }
+
+  get(id: string): FilterPreset | undefined {
+    return this.getAll().find(preset => preset.id === id);
+  }
+
+  add(draft: FilterPresetDraft): FilterPreset {
+    const now = new Date().toISOString();
+    const preset: FilterPreset = {
+      id: `view-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      ...draft,
+      filters: { ...draft.filters },
+      createdAt: now,
+      updatedAt: now
+    };
+    this.save([...this.getAll(), preset]);
+    return preset;
+  }
+
+  update(id: string, changes: Partial<FilterPresetDraft>): void {
+    const updatedAt = new Date().toISOString();
+    this.save(this.getAll().map(preset => preset.id === id ? { ...preset, ...changes, updatedAt } : preset));
+  }
+
+  remove(id: string): void {
+    this.save(this.getAll().filter(preset => preset.id !== id));
+  }
+
+  /**
+   * Every transaction a preset selects, newest first; used for exports and
+   * reports. Fails rather than leave part of the history out.
+   */
+  getPresetTransactions(preset: FilterPreset): Observable<Transaction[]> {
+    const filters = resolvePresetFilters(preset);
+    return forkJoin({
+      transactions: this.transactionService.getAllTransactions('all'),
+      accounts: this.accountService.loadAccounts()
+    }).pipe(
+      map(({ transactions, accounts }) => {
+        const context = { getAccountName: (id: string) => accounts.find(a => a.id === id)?.name };
+        return transactions
+          .filter(t => matchesTransactionFilters(t, filters, context))
+          .sort((a, b) => getTransactionDate(b).getTime() - getTransactionDate(a).getTime());
+      })
+    );
+  }
+}
@@ -0,0 +1,267 @@
+// services/payee.service.ts
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { BehaviorSubject, Observable, forkJoin, of, throwError } from 'rxjs';
+import { catchError, concatMap, map, tap } from 'rxjs/operators';
+import { Payee, PayeeDraft, PayeeSummary } from '../models/payee.model';
+import { BulkResult, Transaction } from '../models/transaction.model';
+import { AuthService } from '../auth/auth';
+import { TransactionService, getTransactionDate, roundCents } from './transaction.service';
+import { normalizeDescription } from '../duplicate-finder/duplicate-detector';
+
+export const PAYEE_COLORS = ['#2563eb', '#059669', '#d97706', '#dc2626', '#7c3aed', '#db2777', '#0891b2', '#4b5563'];
+
+/**
+ * The payee's name and aliases, normalized for matching descriptions
+ */
+function getPayeeKeys(payee: Pick<Payee, 'name' | 'aliases'>): string[] {
+  return [payee.name, ...payee.aliases].map(normalizeDescription).filter(key => !!key);
+}
+
+/**
+ * The payee whose name or alias appears in a description as whole words;
+ * the longest match wins ("starbucks paris" over "starbucks")
+ */
+export function findPayeeByDescription(payees: Payee[], description: string): Payee | null {
+  const text = ` ${normalizeDescription(description)} `;
+  let best: Payee | null = null;
+  let bestLength = 0;
+
+  payees.forEach(payee => {
+    getPayeeKeys(payee)
+      .filter(key => key.length > bestLength && text.includes(` ${key} `))
+      .forEach(key => {
+        best = payee;
+        bestLength = key.length;
+      });
+  });
+  return best;
+}
+
+/**
+ * Payees for an autocomplete: names or aliases starting with the text first,
+ * then ones containing it
+ */
+export function searchPayees(payees: Payee[], text: string, limit = 8): Payee[] {
+  const query = text.trim().toLowerCase();
+  if (!query) return payees.slice(0, limit);
+
+  const names = (payee: Payee) => [payee.name, ...payee.aliases].map(name => name.toLowerCase());
+  const starts = payees.filter(payee => names(payee).some(name => name.startsWith(query)));
+  const contains = payees.filter(payee => !starts.includes(payee) && names(payee).some(name => name.includes(query)));
+  return [...starts, ...contains].slice(0, limit);
+}
+
+/**
+ * Totals and history per payee, most used first
+ */
+export function getPayeeSummaries(payees: Payee[], transactions: Transaction[]): PayeeSummary[] {
+  const summaries = new Map<string, PayeeSummary>(payees.map(payee => [payee.id, {
+    payee,
+    totalExpenses: 0,
+    totalRevenue: 0,
+    transactionCount: 0,
+    lastDate: null,
+    unlinked: []
+  }]));
+
+  transactions.forEach(transaction => {
+    if (!transaction.payeeId) {
+      const match = transaction.type !== 'transfer' ? findPayeeByDescription(payees, transaction.description) : null;
+      if (match) summaries.get(match.id)!.unlinked.push(transaction);
+      return;
+    }
+
+    const summary = summaries.get(transaction.payeeId);
+    if (!summary) return;
+    summary.transactionCount++;
+    if (transaction.type === 'expense') summary.totalExpenses = roundCents(summary.totalExpenses + transaction.amount);
+    if (transaction.type === 'revenue') summary.totalRevenue = roundCents(summary.totalRevenue + transaction.amount);
+    const date = getTransactionDate(transaction);
+    if (!summary.lastDate || date > summary.lastDate) summary.lastDate = date;
+  });
+
+  return [...summaries.values()].sort((a, b) =>
+    b.transactionCount - a.transactionCount || a.payee.name.localeCompare(b.payee.name));
+}
+
+/**
+ * The target payee after absorbing others: their names and aliases become
+ * aliases; the target keeps its own category and color when it has them
+ */
+export function getMergedPayee(target: Payee, sources: Payee[]): PayeeDraft {
+  const seen = new Set([target.name.toLowerCase()]);
+  const aliases = [...target.aliases, ...sources.flatMap(source => [source.name, ...source.aliases])].filter(alias => {
+    const key = alias.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    name: target.name,
+    aliases,
+    defaultCategory: target.defaultCategory ?? sources.find(source => source.defaultCategory)?.defaultCategory,
+    color: target.color ?? sources.find(source => source.color)?.color
+  };
+}
+
+// A payee as the API sends it; ids may be numbers and fields may be missing
+interface ApiPayee {
+  id?: string | number;
+  name?: string;
+  aliases?: unknown;
+  defaultCategory?: string | null;
+  color?: string | null;
+  createdAt?: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PayeeService {
+  private apiUrl = 'https://localhost:8443/api';
+  private userId: string | null = null;
+
+  private payeesSubject = new BehaviorSubject<Payee[]>([]);
+  public payees$: Observable<Payee[]> = this.payeesSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private transactionService: TransactionService
+  ) {
+    this.userId = this.authService.getCurrentUser()?.id || null;
+  }
+
+  private getRequestOptions(): { headers: HttpHeaders; withCredentials: boolean } {
+    return {
+      headers: new HttpHeaders({ 'Content-Type': 'application/json' }),
+      withCredentials: true
+    };
+  }
+
+  getPayees(): Payee[] {
+    return this.payeesSubject.value;
+  }
+
+  loadPayees(): Observable<Payee[]> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for payees');
+      return of([]);
+    }
+
+    return this.http.get<ApiPayee[]>(`${this.apiUrl}/users/${userId}/payees`, this.getRequestOptions()).pipe(
+      map(payees => Array.isArray(payees) ? payees.map(item => this.mapPayee(item)) : []),
+      map(payees => payees.sort((a, b) => a.name.localeCompare(b.name))),
+      tap(payees => this.payeesSubject.next(payees)),
+      catchError(error => {
+        console.error('❌ Error fetching payees:', error);
+        return of(this.getPayees());
+      })
+    );
+  }
+
+  addPayee(payee: PayeeDraft): Observable<Payee> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for adding payee');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.post<ApiPayee>(`${this.apiUrl}/users/${userId}/payees`, payee, this.getRequestOptions()).pipe(
+      map(item => this.mapPayee(item)),
+      tap(created => this.payeesSubject.next(
+        [...this.getPayees(), created].sort((a, b) => a.name.localeCompare(b.name))
+      )),
+      catchError(error => {
+        console.error('❌ Error adding payee:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  updatePayee(id: string, payee: PayeeDraft): Observable<Payee> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for updating payee');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.put<ApiPayee>(`${this.apiUrl}/users/${userId}/payees/${id}`, payee, this.getRequestOptions()).pipe(
+      map(item => this.mapPayee(item)),
+      tap(updated => this.payeesSubject.next(this.getPayees().map(p => p.id === id ? updated : p))),
+      catchError(error => {
+        console.error('❌ Error updating payee:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  deletePayee(id: string): Observable<void> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for deleting payee');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.delete<void>(`${this.apiUrl}/users/${userId}/payees/${id}`, this.getRequestOptions()).pipe(
+      tap(() => this.payeesSubject.next(this.getPayees().filter(p => p.id !== id))),
+      catchError(error => {
+        console.error('❌ Error deleting payee:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Fold payees into one: the target takes their names as aliases, their
+   * transactions across the whole history are moved to it, then they are
+   * deleted. Sources are kept while any transaction still points at them:
+   * one that could not be moved, or one in the trash (reported as failed).
+   */
+  mergePayees(target: Payee, sources: Payee[]): Observable<BulkResult<Transaction>> {
+    const sourceIds = new Set(sources.map(source => source.id));
+    const pointsAtSource = (t: Transaction) => !!t.payeeId && sourceIds.has(t.payeeId);
+
+    return forkJoin({
+      transactions: this.transactionService.getAllTransactions('all', true),
+      trash: this.transactionService.getDeletedTransactions()
+    }).pipe(
+      concatMap(({ transactions, trash }) => this.updatePayee(target.id, getMergedPayee(target, sources)).pipe(
+        concatMap(() => this.linkTransactions(target, transactions.filter(pointsAtSource))),
+        map(result => ({
+          succeeded: result.succeeded,
+          failed: [
+            ...result.failed,
+            ...trash.filter(pointsAtSource).map(t => ({ id: t.id, error: 'In the trash' }))
+          ]
+        }))
+      )),
+      concatMap(result => result.failed.length > 0 || sources.length === 0
+        ? of(result)
+        : forkJoin(sources.map(source => this.deletePayee(source.id))).pipe(map(() => result)))
+    );
+  }
+
+  /**
+   * Point transactions at a payee
+   */
+  linkTransactions(payee: Payee, transactions: Transaction[]): Observable<BulkResult<Transaction>> {
+    return this.transactionService.updateTransactions(
+      transactions.map(transaction => ({ transaction, changes: { payeeId: payee.id } }))
+    );
+  }
+
+  private mapPayee(item: ApiPayee): Payee {
+    return {
+      id: item.id?.toString() || '',
+      name: item.name || 'Payee',
+      aliases: Array.isArray(item.aliases) ? item.aliases.map(alias => String(alias)) : [],
+      ...(item.defaultCategory && { defaultCategory: String(item.defaultCategory) }),
+      ...(item.color && { color: String(item.color) }),
+      createdAt: item.createdAt ? new Date(item.createdAt) : new Date()
+    };
+  }
+}
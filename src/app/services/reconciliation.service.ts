@@ -0,0 +1,113 @@
+// services/reconciliation.service.ts
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Transaction } from '../models/transaction.model';
+import { Account } from '../models/account.model';
+import { Reconciliation, ReconciliationDraft } from '../models/reconciliation.model';
+import { AuthService } from '../auth/auth';
+import { UserStorage } from './user-storage';
+import { getAccountEffect } from './account.service';
+import { CurrencyContext } from './exchange-rate.service';
+import { roundCents } from './transaction.service';
+
+/**
+ * Balance the next reconciliation of an account starts from: the last
+ * statement's ending balance, or the opening balance the first time
+ */
+export function getStartingBalance(account: Account, last?: Reconciliation | null): number {
+  return last ? last.statementBalance : account.openingBalance;
+}
+
+/**
+ * Starting balance plus the effect of every cleared transaction on the
+ * account, in the account's currency; transactions without a rate into it
+ * cannot be cleared
+ */
+export function getClearedBalance(
+  startingBalance: number,
+  account: Account,
+  cleared: Transaction[],
+  context: CurrencyContext
+): number {
+  return roundCents(cleared.reduce((sum, t) => sum + (getAccountEffect(t, account, context) ?? 0), startingBalance));
+}
+
+/**
+ * Most recent first: by statement date, then by when it was done
+ */
+export function sortReconciliations(reconciliations: Reconciliation[]): Reconciliation[] {
+  return [...reconciliations].sort((a, b) =>
+    b.statementDate.localeCompare(a.statementDate) || b.reconciledAt.localeCompare(a.reconciledAt));
+}
+
+/**
+ * Finished bank reconciliations, stored per user in localStorage
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReconciliationService {
+  private reconciliationsSubject = new BehaviorSubject<Reconciliation[]>([]);
+  public reconciliations$: Observable<Reconciliation[]> = this.reconciliationsSubject.asObservable();
+
+  // Transaction id -> the reconciliation that cleared it
+  private reconciledIds = new Map<string, Reconciliation>();
+
+  private storage: UserStorage<Reconciliation>;
+
+  constructor(authService: AuthService) {
+    this.storage = new UserStorage(authService, 'expenseTrackerReconciliations',
+      reconciliations => this.publish(sortReconciliations(reconciliations)));
+  }
+
+  private save(reconciliations: Reconciliation[]): void {
+    const sorted = sortReconciliations(reconciliations);
+    this.storage.write(sorted);
+    this.publish(sorted);
+  }
+
+  private publish(reconciliations: Reconciliation[]): void {
+    this.reconciledIds = new Map();
+    // Oldest first so a transaction maps to the first statement that cleared it
+    [...reconciliations].reverse().forEach(reconciliation =>
+      reconciliation.transactionIds
+        .filter(id => !this.reconciledIds.has(id))
+        .forEach(id => this.reconciledIds.set(id, reconciliation)));
+    this.reconciliationsSubject.next(reconciliations);
+  }
+
+  /**
+   * Most recent first
+   */
+  getAll(): Reconciliation[] {
+    return this.reconciliationsSubject.value;
+  }
+
+  /**
+   * Latest reconciliation of an account, or of any account when none is given
+   */
+  getLast(accountId?: string): Reconciliation | null {
+    return this.getAll().find(r => !accountId || r.accountId === accountId) ?? null;
+  }
+
+  /**
+   * The reconciliation a transaction was cleared in, if any
+   */
+  getReconciliationFor(transactionId: string): Reconciliation | null {
+    return this.reconciledIds.get(transactionId) ?? null;
+  }
+
+  isReconciled(transactionId: string): boolean {
+    return this.reconciledIds.has(transactionId);
+  }
+
+  add(draft: ReconciliationDraft): Reconciliation {
+    const reconciliation: Reconciliation = {
+      ...draft,
+      id: `rec-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      reconciledAt: new Date().toISOString()
+    };
+    this.save([...this.getAll(), reconciliation]);
+    return reconciliation;
+  }
+}
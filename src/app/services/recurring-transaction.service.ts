@@ -0,0 +1,237 @@
+// services/recurring-transaction.service.ts
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, throwError } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { Transaction } from '../models/transaction.model';
+import {
+  RecurrenceSchedule,
+  RecurringOccurrence,
+  RecurringTemplate,
+  RecurringTransaction
+} from '../models/recurring-transaction.model';
+import { TransactionService, fromDateKey, toDateKey } from './transaction.service';
+import { AuthService } from '../auth/auth';
+import { UserStorage } from './user-storage';
+import { ExchangeRateService, convertAmount } from './exchange-rate.service';
+import { SettingsService } from './settings.service';
+
+// Hard stop for runaway schedules (a daily rule over decades)
+const MAX_OCCURRENCES = 5000;
+
+/**
+ * List the dates a schedule produces between two dates (inclusive).
+ * Each occurrence is computed from the start date rather than from the
+ * previous one, so a day-31 rule clamped to Feb 28 goes back to 31 in March.
+ */
+export function getScheduleDates(schedule: RecurrenceSchedule, from: Date, to: Date): Date[] {
+  const start = fromDateKey(schedule.startDate);
+  const end = schedule.endDate ? fromDateKey(schedule.endDate) : null;
+  const interval = Math.max(1, Math.floor(schedule.interval) || 1);
+  const limit = Math.min(schedule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+
+  const dates: Date[] = [];
+  for (let n = 0; n < limit; n++) {
+    const date = getNthDate(schedule, start, n * interval);
+    if ((end && date > end) || toDateKey(date) > toKey) break;
+    if (toDateKey(date) >= fromKey) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+function getNthDate(schedule: RecurrenceSchedule, start: Date, steps: number): Date {
+  switch (schedule.frequency) {
+    case 'daily':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + steps);
+    case 'weekly':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + steps * 7);
+    case 'monthly':
+      return withDayOfMonth(start.getFullYear(), start.getMonth() + steps, schedule.dayOfMonth ?? start.getDate());
+    case 'yearly':
+      return withDayOfMonth(start.getFullYear() + steps, start.getMonth(), schedule.dayOfMonth ?? start.getDate());
+  }
+}
+
+function withDayOfMonth(year: number, month: number, rule: number | 'last'): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const day = rule === 'last' ? lastDay : Math.min(rule, lastDay);
+  return new Date(year, month, day);
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RecurringTransactionService {
+  private recurringSubject = new BehaviorSubject<RecurringTransaction[]>([]);
+  public recurring$: Observable<RecurringTransaction[]> = this.recurringSubject.asObservable();
+
+  private storage: UserStorage<RecurringTransaction>;
+
+  constructor(
+    private transactionService: TransactionService,
+    private exchangeRateService: ExchangeRateService,
+    private settingsService: SettingsService,
+    authService: AuthService
+  ) {
+    this.storage = new UserStorage(authService, 'expenseTrackerRecurring', items => this.recurringSubject.next(items));
+  }
+
+  private save(items: RecurringTransaction[]): void {
+    this.storage.write(items);
+    this.recurringSubject.next(items);
+  }
+
+  getAll(): RecurringTransaction[] {
+    return this.recurringSubject.value;
+  }
+
+  add(template: RecurringTemplate, schedule: RecurrenceSchedule): RecurringTransaction {
+    const item: RecurringTransaction = {
+      id: `rec-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      template,
+      schedule,
+      active: true,
+      generatedDates: [],
+      skippedDates: [],
+      overrides: {},
+      createdAt: new Date().toISOString()
+    };
+    this.save([...this.getAll(), item]);
+    return item;
+  }
+
+  update(id: string, changes: Partial<Omit<RecurringTransaction, 'id'>>): void {
+    this.save(this.getAll().map(item => item.id === id ? { ...item, ...changes } : item));
+  }
+
+  remove(id: string): void {
+    this.save(this.getAll().filter(item => item.id !== id));
+  }
+
+  /**
+   * Occurrences of one recurring item in a date range, excluding the ones
+   * already created or skipped
+   */
+  getOccurrences(item: RecurringTransaction, from: Date, to: Date, today: Date = new Date()): RecurringOccurrence[] {
+    const todayKey = toDateKey(today);
+    const handled = new Set([...item.generatedDates, ...item.skippedDates]);
+
+    return getScheduleDates(item.schedule, from, to)
+      .map(date => ({ date, key: toDateKey(date) }))
+      .filter(({ key }) => !handled.has(key))
+      .map(({ date, key }) => {
+        const override = item.overrides[key];
+        return {
+          recurringId: item.id,
+          key,
+          date,
+          draft: { ...item.template, ...override, date },
+          isDue: key <= todayKey,
+          isEdited: !!override
+        };
+      });
+  }
+
+  /**
+   * Occurrences from each schedule's start up to today that still need confirmation
+   */
+  getDueOccurrences(today: Date = new Date()): RecurringOccurrence[] {
+    return this.getAll()
+      .filter(item => item.active)
+      .flatMap(item => this.getOccurrences(item, fromDateKey(item.schedule.startDate), today, today))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Occurrences after today within the next `days` days
+   */
+  getUpcomingOccurrences(days = 30, today: Date = new Date()): RecurringOccurrence[] {
+    const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+    const to = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+
+    return this.getAll()
+      .filter(item => item.active)
+      .flatMap(item => this.getOccurrences(item, from, to, today))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  getNextOccurrence(item: RecurringTransaction, today: Date = new Date()): RecurringOccurrence | null {
+    const horizon = new Date(today.getFullYear() + 5, today.getMonth(), today.getDate());
+    return this.getOccurrences(item, fromDateKey(item.schedule.startDate), horizon, today)[0] ?? null;
+  }
+
+  /**
+   * Create the transaction for an occurrence and mark it as generated
+   */
+  confirmOccurrence(occurrence: RecurringOccurrence): Observable<Transaction> {
+    const { currency, ...draft } = occurrence.draft;
+    const base = this.settingsService.getAppSettings().currency;
+    const rate = currency ? this.exchangeRateService.getRate(currency, base, occurrence.key) : 1;
+    if (rate === null) {
+      return throwError(() => new Error(`No ${currency} → ${base} exchange rate for ${occurrence.key}`));
+    }
+
+    const payload = {
+      ...draft,
+      ...(currency && currency !== base && { amount: convertAmount(draft.amount, rate), currency, originalAmount: draft.amount }),
+      source: draft.category
+    };
+
+    return this.transactionService.addTransaction(payload).pipe(
+      tap(() => this.markHandled(occurrence, 'generatedDates'))
+    );
+  }
+
+  skipOccurrence(occurrence: RecurringOccurrence): void {
+    this.markHandled(occurrence, 'skippedDates');
+  }
+
+  editOccurrence(occurrence: RecurringOccurrence, changes: Partial<RecurringTemplate>): void {
+    const item = this.getAll().find(i => i.id === occurrence.recurringId);
+    if (!item) return;
+
+    this.update(item.id, {
+      overrides: { ...item.overrides, [occurrence.key]: { ...item.overrides[occurrence.key], ...changes } }
+    });
+  }
+
+  private markHandled(occurrence: RecurringOccurrence, field: 'generatedDates' | 'skippedDates'): void {
+    const item = this.getAll().find(i => i.id === occurrence.recurringId);
+    if (!item) return;
+
+    const overrides = { ...item.overrides };
+    delete overrides[occurrence.key];
+
+    this.update(item.id, {
+      [field]: [...item[field], occurrence.key],
+      overrides
+    });
+  }
+
+  /**
+   * Human-readable schedule, e.g. "Every 2 weeks" or "Monthly on the last day"
+   */
+  describeSchedule(schedule: RecurrenceSchedule): string {
+    const units: Record<RecurrenceSchedule['frequency'], [string, string]> = {
+      daily: ['Daily', 'days'],
+      weekly: ['Weekly', 'weeks'],
+      monthly: ['Monthly', 'months'],
+      yearly: ['Yearly', 'years']
+    };
+    const [single, plural] = units[schedule.frequency];
+    let text = schedule.interval > 1 ? `Every ${schedule.interval} ${plural}` : single;
+
+    if ((schedule.frequency === 'monthly' || schedule.frequency === 'yearly') && schedule.dayOfMonth !== undefined) {
+      text += schedule.dayOfMonth === 'last' ? ' on the last day' : ` on day ${schedule.dayOfMonth}`;
+    }
+    if (schedule.count) {
+      text += `, ${schedule.count} times`;
+    } else if (schedule.endDate) {
+      text += `, until ${schedule.endDate}`;
+    }
+    return text;
+  }
+}
@@ -1,5 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
+import { Transaction } from '../models/transaction.model';
+import { getCategoryAllocations, toDateKey } from './transaction.service';
 
 export interface AppSettings {
   currency: string;
@@ -19,6 +21,12 @@ export interface BudgetSettings {
   categories: BudgetCategory[];
 }
 
+// Currencies offered for the base currency, accounts and transactions
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'INR', 'CHF', 'CNY', 'BRL', 'TND'];
+
+// Day index (0 = Sunday) of each "Start of week" choice
+const WEEK_START_DAYS: Record<string, number> = { Sunday: 0, Monday: 1, Saturday: 6 };
+
 export interface BudgetCategory {
   name: string;
   budget: number;
@@ -51,6 +59,12 @@ export class SettingsService {
     categories: []
   };
 
+  // Built-in categories; budget categories are added to the expense ones
+  private defaultCategories = {
+    expense: ['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Healthcare'],
+    revenue: ['Salary', 'Freelance', 'Investment', 'Gift', 'Other']
+  };
+
   // Observables for reactive updates
   private appSettingsSubject: BehaviorSubject<AppSettings>;
   private budgetSettingsSubject: BehaviorSubject<BudgetSettings>;
@@ -58,6 +72,10 @@ export class SettingsService {
   public appSettings$: Observable<AppSettings>;
   public budgetSettings$: Observable<BudgetSettings>;
 
+  // Intl formatters by currency code / date format setting
+  private currencyFormatters = new Map<string, Intl.NumberFormat>();
+  private dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
   constructor() {
     // Load settings from localStorage
     const savedAppSettings = this.loadAppSettings();
@@ -112,6 +130,26 @@ export class SettingsService {
     return this.appSettingsSubject.value;
   }
 
+  getCurrencies(): string[] {
+    return CURRENCIES;
+  }
+
+  /**
+   * What a converted transaction was actually paid in, for hover text;
+   * null for transactions in the base currency
+   */
+  formatOriginalAmount(transaction: { currency?: string; originalAmount?: number }): string | null {
+    if (!transaction.currency || transaction.originalAmount === undefined) return null;
+    return `Paid ${this.formatCurrency(transaction.originalAmount, transaction.currency)} (${transaction.currency})`;
+  }
+
+  /**
+   * First day of the week from the settings (0 = Sunday, 1 = Monday...)
+   */
+  getWeekStartDay(): number {
+    return WEEK_START_DAYS[this.getAppSettings().startOfWeek] ?? 1;
+  }
+
   /**
    * Get current budget settings
    */
@@ -145,6 +183,55 @@ export class SettingsService {
     this.emitSettingsChangeEvent();
   }
 
+  /**
+   * Categories to pick from: the built-in ones plus the budget categories
+   */
+  getCategories(): { expense: string[]; revenue: string[] } {
+    const budgetCategories = this.getBudgetSettings().categories.map(cat => cat.name);
+    return {
+      expense: [...new Set([...this.defaultCategories.expense, ...budgetCategories])],
+      revenue: [...this.defaultCategories.revenue]
+    };
+  }
+
+  /**
+   * Count added expenses towards their budget categories and take removed
+   * ones off, saving the settings once. Split transactions count each line
+   * towards its own category.
+   */
+  updateBudgetSpent(added: Transaction[], removed: Transaction[]): void {
+    const budgetSettings = this.getBudgetSettings();
+    let changed = false;
+
+    const adjust = (transaction: Transaction, isDelete: boolean) => {
+      if (transaction.type !== 'expense') return;
+
+      getCategoryAllocations(transaction).forEach(allocation => {
+        const category = budgetSettings.categories.find(
+          cat => cat.name.toLowerCase() === allocation.category.toLowerCase()
+        );
+        if (!category) return;
+
+        if (isDelete) {
+          // Subtract from spent amount when deleting
+          category.spent = Math.max(0, category.spent - allocation.amount);
+        } else {
+          // Add to spent amount when adding
+          category.spent += allocation.amount;
+        }
+        changed = true;
+
+        console.log(`📊 Updated ${category.name} budget: ${category.spent}/${category.budget}`);
+      });
+    };
+    removed.forEach(transaction => adjust(transaction, true));
+    added.forEach(transaction => adjust(transaction, false));
+
+    if (changed) {
+      this.updateBudgetSettings(budgetSettings);
+    }
+  }
+
   /**
    * Reset to default settings
    */
@@ -192,11 +279,13 @@ export class SettingsService {
   }
 
   /**
-   * Format currency based on current settings
+   * Format currency based on current settings, or in another currency
+   * (e.g. an account's) when one is given
    */
-  formatCurrency(amount: number | null | undefined): string {
+  formatCurrency(amount: number | null | undefined, currencyCode?: string): string {
     const value = amount ?? 0;
     const settings = this.getAppSettings();
+    const currency = currencyCode || settings.currency;
 
     const currencyLocales: { [key: string]: string } = {
       'USD': 'en-US',
@@ -208,15 +297,20 @@ export class SettingsService {
       'INR': 'en-IN',
       'CHF': 'de-CH',
       'CNY': 'zh-CN',
-      'BRL': 'pt-BR'
+      'BRL': 'pt-BR',
+      'TND': 'fr-TN'
     };
 
-    const locale = currencyLocales[settings.currency] || 'en-US';
+    const locale = currencyLocales[currency] || 'en-US';
 
-    return new Intl.NumberFormat(locale, {
-      style: 'currency',
-      currency: settings.currency
-    }).format(value);
+    // Building a formatter is far slower than using one; long lists format many rows
+    if (!this.currencyFormatters.has(currency)) {
+      this.currencyFormatters.set(currency, new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency
+      }));
+    }
+    return this.currencyFormatters.get(currency)!.format(value);
   }
 
   /**
@@ -226,38 +320,24 @@ export class SettingsService {
     const dateObj = new Date(date);
     const settings = this.getAppSettings();
 
-    switch (settings.dateFormat) {
-      case 'MM/DD/YYYY':
-        return dateObj.toLocaleDateString('en-US', {
-          month: '2-digit',
-          day: '2-digit',
-          year: 'numeric'
-        });
-
-      case 'DD/MM/YYYY':
-        return dateObj.toLocaleDateString('en-GB', {
-          day: '2-digit',
-          month: '2-digit',
-          year: 'numeric'
-        });
-
-      case 'YYYY-MM-DD':
-        return dateObj.toISOString().split('T')[0];
-
-      case 'DD-MMM-YYYY':
-        return dateObj.toLocaleDateString('en-US', {
-          day: '2-digit',
-          month: 'short',
-          year: 'numeric'
-        });
-
-      default:
-        return dateObj.toLocaleDateString('en-US', {
-          month: 'short',
-          day: 'numeric',
-          year: 'numeric'
-        });
+    // The local day; toISOString() would give the UTC one
+    if (settings.dateFormat === 'YYYY-MM-DD') {
+      return toDateKey(dateObj);
+    }
+    return this.getDateFormatter(settings.dateFormat).format(dateObj);
+  }
+
+  private getDateFormatter(dateFormat: string): Intl.DateTimeFormat {
+    if (!this.dateFormatters.has(dateFormat)) {
+      const formats: Record<string, [string, Intl.DateTimeFormatOptions]> = {
+        'MM/DD/YYYY': ['en-US', { month: '2-digit', day: '2-digit', year: 'numeric' }],
+        'DD/MM/YYYY': ['en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' }],
+        'DD-MMM-YYYY': ['en-US', { day: '2-digit', month: 'short', year: 'numeric' }]
+      };
+      const [locale, options] = formats[dateFormat] ?? ['en-US', { month: 'short', day: 'numeric', year: 'numeric' }];
+      this.dateFormatters.set(dateFormat, new Intl.DateTimeFormat(locale, options));
     }
+    return this.dateFormatters.get(dateFormat)!;
   }
 
   /**
@@ -275,7 +355,8 @@ export class SettingsService {
       'INR': '₹',
       'CHF': 'CHF',
       'CNY': '¥',
-      'BRL': 'R$'
+      'BRL': 'R$',
+      'TND': 'DT'
     };
 
     return symbols[settings.currency] || settings.currency;
@@ -1,8 +1,21 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams, HttpHeaders } from '@angular/common/http';
-import { forkJoin, Observable, of, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
-import { Transaction, TransactionSummary, CategorySummary } from '../models/transaction.model';
+import { EMPTY, forkJoin, from, Observable, of, Subject, throwError } from 'rxjs';
+import { catchError, expand, map, mergeMap, reduce, shareReplay, tap, toArray } from 'rxjs/operators';
+import {
+  Attachment,
+  BulkResult,
+  Transaction,
+  TransactionDraft,
+  TransactionHistoryEntry,
+  TransactionPage,
+  TransactionQuery,
+  TransactionSummary,
+  TransactionType,
+  TransactionUpdate,
+  CategorySummary,
+  SplitLine
+} from '../models/transaction.model';
 import { AuthService } from '../auth/auth';
 
 // Define interfaces for reports
@@ -84,6 +97,195 @@ export interface CategoryStatsResponse {
   };
 }
 
+export interface TagBreakdown {
+  tag: string;
+  transactionCount: number;
+  totalExpenses: number;
+  totalRevenue: number;
+  // Expense categories the tag's spending went to, largest first
+  categories: CategoryBreakdown[];
+}
+
+export interface CategoryAllocation {
+  category: string;
+  amount: number;
+}
+
+// Requests in flight at once during bulk edits and deletes
+const BULK_CONCURRENCY = 4;
+
+// Rows per request when reading a whole history
+const HISTORY_PAGE_SIZE = 1000;
+
+// Rows as the API sends them: ids may be numbers, dates are strings and any
+// field may be missing
+interface ApiTransaction {
+  id?: string | number;
+  amount?: number | string;
+  currency?: string | null;
+  originalAmount?: number | string | null;
+  type?: string;
+  category?: string;
+  description?: string;
+  accountId?: string | number | null;
+  toAccountId?: string | number | null;
+  payeeId?: string | number | null;
+  externalId?: string | number | null;
+  splits?: ApiSplitLine[] | null;
+  tags?: unknown[] | null;
+  attachments?: ApiAttachment[] | null;
+  date?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string | null;
+}
+
+interface ApiSplitLine {
+  category?: string;
+  amount?: number | string;
+  note?: string | null;
+}
+
+interface ApiAttachment {
+  id?: string | number;
+  fileName?: string;
+  contentType?: string;
+  size?: number | string;
+  uploadedAt?: string;
+}
+
+interface ApiHistoryEntry {
+  id?: string | number;
+  action?: string;
+  changedAt?: string;
+  changedBy?: { id?: string | number; username?: string } | null;
+  changes?: { field?: string; from?: unknown; to?: unknown }[] | null;
+}
+
+// A bare array with the total in a header, or a wrapper with the total
+type ApiTransactionPage = ApiTransaction[] | {
+  items?: ApiTransaction[];
+  content?: ApiTransaction[];
+  total?: number;
+  totalElements?: number;
+};
+
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD key
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD key as a local date (new Date('YYYY-MM-DD') would be UTC)
+ */
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * When the money moved: the value date, or createdAt for transactions saved
+ * before value dates existed
+ */
+export function getTransactionDate(transaction: Pick<Transaction, 'date' | 'createdAt'>): Date {
+  return new Date(transaction.date ?? transaction.createdAt);
+}
+
+/**
+ * What a transaction counts towards per category: its split lines (merged
+ * by category) or its own category when it is not split
+ */
+export function getCategoryAllocations(transaction: Pick<Transaction, 'amount' | 'category' | 'splits'>): CategoryAllocation[] {
+  if (!transaction.splits?.length) {
+    return [{ category: transaction.category, amount: transaction.amount }];
+  }
+
+  const totals = new Map<string, number>();
+  transaction.splits.forEach(line => {
+    totals.set(line.category, (totals.get(line.category) ?? 0) + line.amount);
+  });
+  return [...totals].map(([category, amount]) => ({ category, amount: roundCents(amount) }));
+}
+
+/**
+ * Validate split lines against the transaction total, returning the first
+ * problem or null when the split is valid
+ */
+export function getSplitsError(splits: SplitLine[], total: number): string | null {
+  if (splits.length < 2) return 'A split needs at least two lines';
+  if (splits.some(line => !line.category)) return 'Every split line needs a category';
+  if (splits.some(line => !(line.amount > 0))) return 'Every split line needs an amount above zero';
+
+  const remaining = roundCents(total - splits.reduce((sum, line) => sum + line.amount, 0));
+  if (remaining !== 0) {
+    return remaining > 0
+      ? `Split lines are ${remaining.toFixed(2)} short of the total`
+      : `Split lines exceed the total by ${(-remaining).toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Total transactions per tag; a transaction with several tags counts
+ * towards each of them. Transfers are neither income nor spending and are left out.
+ */
+export function buildTagBreakdown(transactions: Transaction[]): TagBreakdown[] {
+  const byTag = new Map<string, { breakdown: TagBreakdown; categories: Map<string, number> }>();
+
+  transactions.filter(t => t.type !== 'transfer').forEach(transaction => {
+    transaction.tags.forEach(tag => {
+      if (!byTag.has(tag)) {
+        byTag.set(tag, {
+          breakdown: { tag, transactionCount: 0, totalExpenses: 0, totalRevenue: 0, categories: [] },
+          categories: new Map()
+        });
+      }
+      const entry = byTag.get(tag)!;
+      entry.breakdown.transactionCount++;
+
+      if (transaction.type === 'revenue') {
+        entry.breakdown.totalRevenue += transaction.amount;
+        return;
+      }
+      entry.breakdown.totalExpenses += transaction.amount;
+      getCategoryAllocations(transaction).forEach(allocation => {
+        entry.categories.set(allocation.category, (entry.categories.get(allocation.category) ?? 0) + allocation.amount);
+      });
+    });
+  });
+
+  return [...byTag.values()]
+    .map(({ breakdown, categories }) => ({
+      ...breakdown,
+      totalExpenses: roundCents(breakdown.totalExpenses),
+      totalRevenue: roundCents(breakdown.totalRevenue),
+      categories: [...categories]
+        .map(([name, amount]) => ({
+          name,
+          amount: roundCents(amount),
+          percentage: breakdown.totalExpenses > 0 ? (amount / breakdown.totalExpenses) * 100 : 0
+        }))
+        .sort((a, b) => b.amount - a.amount)
+    }))
+    .sort((a, b) => b.totalExpenses - a.totalExpenses || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Category stored on a split transaction: the one of its largest line
+ */
+export function getSplitParentCategory(splits: SplitLine[]): string {
+  return splits.reduce((largest, line) => line.amount > largest.amount ? line : largest, splits[0])?.category ?? '';
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -91,9 +293,17 @@ export class TransactionService {
   private apiUrl = 'https://localhost:8443/api';
   private userId: string | null = null;
 
+  // Transactions added outside the transactions page (the quick-add bar)
+  private addedElsewhereSubject = new Subject<Transaction>();
+  public addedElsewhere$: Observable<Transaction> = this.addedElsewhereSubject.asObservable();
+
+  // Whole histories by time frame, shared by every reader until the next write
+  private historyCache = new Map<string, Observable<Transaction[]>>();
+
   constructor(private http: HttpClient, private authService: AuthService) {
     const currentUser = this.authService.getCurrentUser();
     this.userId = currentUser?.id || null;
+    this.authService.currentUser$.subscribe(() => this.historyCache.clear());
 
 
     if (!this.userId) {
@@ -162,6 +372,114 @@ export class TransactionService {
     );
   }
 
+  /**
+   * Every transaction in the time frame, read a page at a time until the
+   * page total is reached (or, without a total, until a short page). Unlike
+   * getTransactions, a page that fails or comes back in a shape that is not
+   * understood fails the whole read instead of leaving part of the history out.
+   *
+   * The history is read once and shared until a transaction is written;
+   * reload skips the shared copy. Each caller gets its own list.
+   */
+  getAllTransactions(timeFrame: string, reload = false): Observable<Transaction[]> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for transaction history');
+      return of([]);
+    }
+
+    let history = reload ? undefined : this.historyCache.get(timeFrame);
+    if (!history) {
+      const shared: Observable<Transaction[]> = this.fetchAllTransactions(userId, timeFrame).pipe(
+        catchError(error => {
+          if (this.historyCache.get(timeFrame) === shared) {
+            this.historyCache.delete(timeFrame);
+          }
+          return throwError(() => error);
+        }),
+        shareReplay(1)
+      );
+      this.historyCache.set(timeFrame, shared);
+      history = shared;
+    }
+    return history.pipe(map(transactions => transactions.slice()));
+  }
+
+  private fetchAllTransactions(userId: string, timeFrame: string): Observable<Transaction[]> {
+    const fetchPage = (page: number, fetched: number) => {
+      const params = new HttpParams()
+        .set('timeFrame', timeFrame)
+        .set('limit', HISTORY_PAGE_SIZE.toString())
+        .set('page', page.toString());
+      return this.http.get<unknown>(`${this.apiUrl}/users/${userId}/transactions`, {
+        params,
+        observe: 'response',
+        withCredentials: true
+      }).pipe(
+        map(response => {
+          const { rows, total } = this.unwrapTransactionPage(response.body, response.headers.get('X-Total-Count'));
+          // Rows of unknown types are dropped when mapping, so count the raw rows
+          const seen = fetched + rows.length;
+          const more = rows.length > 0 && (total !== null ? seen < total : rows.length >= HISTORY_PAGE_SIZE);
+          return { page, seen, more, items: this.mapTransactions(rows) };
+        })
+      );
+    };
+
+    return fetchPage(1, 0).pipe(
+      expand(result => result.more ? fetchPage(result.page + 1, result.seen) : EMPTY),
+      reduce<{ items: Transaction[] }, Transaction[]>((all, result) => all.concat(result.items), [])
+    );
+  }
+
+  /**
+   * One page of transactions matching the query's filters, with the total
+   * number of matches for pagination
+   */
+  getTransactionPage(query: TransactionQuery): Observable<TransactionPage> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for transaction page');
+      return of(this.getEmptyPage(query));
+    }
+
+    let params = new HttpParams()
+      .set('timeFrame', 'all')
+      .set('limit', query.limit.toString())
+      .set('page', query.page.toString());
+
+    const filters = {
+      search: query.search,
+      type: query.type,
+      category: query.category,
+      tag: query.tag,
+      accountId: query.accountId,
+      startDate: query.startDate,
+      endDate: query.endDate
+    };
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) {
+        params = params.set(key, value);
+      }
+    });
+    // Spring-style sort keys, e.g. sort=date,desc&sort=amount,asc
+    query.sort?.forEach(({ field, direction }) => {
+      params = params.append('sort', `${field},${direction}`);
+    });
+
+    return this.http.get<ApiTransactionPage | null>(`${this.apiUrl}/users/${userId}/transactions`, {
+      params,
+      observe: 'response',
+      withCredentials: true
+    }).pipe(
+      map(response => this.mapTransactionPage(response.body, response.headers.get('X-Total-Count'), query)),
+      catchError(error => {
+        console.error('❌ Error fetching transaction page:', error);
+        return of(this.getEmptyPage(query));
+      })
+    );
+  }
+
   getTransactionSummary(timeFrame: string): Observable<TransactionSummary> {
     console.log('🔍 getTransactionSummary called with:', timeFrame);
 
@@ -200,10 +518,15 @@ export class TransactionService {
     const url = `${this.apiUrl}/users/${userId}/transactions/categories/summary`;
     console.log('🌐 Categories URL:', url);
 
-    return this.http.get<any>(url, this.getRequestOptions(params)).pipe(
-      map(categories => {
+    // Totals come back per parent category; split lines are re-attributed
+    // from the whole history of the time frame
+    return forkJoin({
+      categories: this.http.get<any>(url, this.getRequestOptions(params)),
+      transactions: this.getAllTransactions(timeFrame)
+    }).pipe(
+      map(({ categories, transactions }) => {
         console.log('✅ Categories Response:', categories);
-        return this.mapCategories(categories);
+        return this.applySplitsToCategorySummary(this.mapCategories(categories), transactions);
       }),
       catchError(error => {
         console.error('❌ Error fetching categories:', error);
@@ -226,10 +549,15 @@ export class TransactionService {
     const url = `${this.apiUrl}/users/${userId}/transactions/categories/stats`;
     console.log('🌐 Categories URL:', url);
 
-    return this.http.get<CategoryStatsResponse>(url, this.getRequestOptions(params)).pipe(
-      map(categories => {
-        console.log('✅ Categories Response:', categories);
-        return categories;
+    // Stats come back per parent category; split lines are re-attributed
+    // from the whole history of the time frame
+    return forkJoin({
+      stats: this.http.get<CategoryStatsResponse>(url, this.getRequestOptions(params)),
+      transactions: this.getAllTransactions(timeFrame)
+    }).pipe(
+      map(({ stats, transactions }) => {
+        console.log('✅ Categories Response:', stats);
+        return this.applySplitsToCategoryStats(stats, transactions);
       }),
       catchError(error => {
         console.error('❌ Error fetching categories:', error);
@@ -255,7 +583,7 @@ export class TransactionService {
     // );
   }
 
-  addTransaction(transaction: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>): Observable<Transaction> {
+  addTransaction(transaction: TransactionDraft): Observable<Transaction> {
     const userId = this.userId;
     if (!userId) {
       console.error('❌ No user ID for adding transaction');
@@ -264,9 +592,11 @@ export class TransactionService {
 
     return this.http.post<Transaction>(
       `${this.apiUrl}/users/${userId}/transactions`,
-      transaction,
+      this.toRequestBody(transaction),
       this.getRequestOptions()
     ).pipe(
+      tap(() => this.invalidateHistory()),
+      map(response => this.mapTransactions([response])[0] ?? response),
       catchError(error => {
         console.error('❌ Error adding transaction:', error);
         return throwError(() => error);
@@ -274,6 +604,13 @@ export class TransactionService {
     );
   }
 
+  /**
+   * Let an open transactions page know about a transaction added elsewhere
+   */
+  notifyAddedElsewhere(transaction: Transaction): void {
+    this.addedElsewhereSubject.next(transaction);
+  }
+
   updateTransaction(id: string, type: string, transaction: Partial<Transaction>): Observable<Transaction> {
     const userId = this.userId;
     if (!userId) {
@@ -284,9 +621,11 @@ export class TransactionService {
     const params = new HttpParams().set('type', type);
     return this.http.put<Transaction>(
       `${this.apiUrl}/users/${userId}/transactions/${id}`,
-      transaction,
+      this.toRequestBody(transaction),
       this.getRequestOptions(params)
     ).pipe(
+      tap(() => this.invalidateHistory()),
+      map(response => this.mapTransactions([response])[0] ?? response),
       catchError(error => {
         console.error('❌ Error updating transaction:', error);
         return throwError(() => error);
@@ -294,6 +633,9 @@ export class TransactionService {
     );
   }
 
+  /**
+   * Move a transaction to the trash; it can be restored until it is purged
+   */
   deleteTransaction(id: string, type: string): Observable<void> {
     const userId = this.userId;
     if (!userId) {
@@ -306,6 +648,7 @@ export class TransactionService {
       `${this.apiUrl}/users/${userId}/transactions/${id}`,
       this.getRequestOptions(params)
     ).pipe(
+      tap(() => this.invalidateHistory()),
       catchError(error => {
         console.error('❌ Error deleting transaction:', error);
         return throwError(() => error);
@@ -313,6 +656,297 @@ export class TransactionService {
     );
   }
 
+  // ========== TRASH ==========
+
+  /**
+   * Deleted transactions that have not been purged yet, most recent first
+   */
+  getDeletedTransactions(): Observable<Transaction[]> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for trash');
+      return of([]);
+    }
+
+    return this.http.get<ApiTransaction[]>(`${this.apiUrl}/users/${userId}/transactions/trash`, this.getRequestOptions()).pipe(
+      map(items => this.mapTransactions(items)
+        .sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0))),
+      catchError(error => {
+        console.error('❌ Error fetching trash:', error);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Take a transaction out of the trash; null when the server sends no copy back
+   */
+  restoreTransaction(id: string): Observable<Transaction | null> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for restoring transaction');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.post<ApiTransaction | null>(
+      `${this.apiUrl}/users/${userId}/transactions/${id}/restore`,
+      {},
+      this.getRequestOptions()
+    ).pipe(
+      tap(() => this.invalidateHistory()),
+      map(response => this.mapTransactions([response])[0] ?? null),
+      catchError(error => {
+        console.error('❌ Error restoring transaction:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Delete a trashed transaction for good
+   */
+  purgeTransaction(id: string): Observable<void> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for purging transaction');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.delete<void>(`${this.apiUrl}/users/${userId}/transactions/trash/${id}`, this.getRequestOptions()).pipe(
+      catchError(error => {
+        console.error('❌ Error purging transaction:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  emptyTrash(): Observable<void> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for emptying trash');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.delete<void>(`${this.apiUrl}/users/${userId}/transactions/trash`, this.getRequestOptions()).pipe(
+      catchError(error => {
+        console.error('❌ Error emptying trash:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  // ========== BULK ==========
+
+  /**
+   * Apply changes to many transactions, a few requests at a time. One
+   * rejected item does not stop the others; each failure is reported.
+   */
+  updateTransactions(updates: TransactionUpdate[]): Observable<BulkResult<Transaction>> {
+    return from(updates).pipe(
+      mergeMap(({ transaction, changes }) => {
+        const merged = { ...transaction, ...changes };
+        const payload = {
+          amount: merged.amount,
+          // An empty currency drops a previous conversion
+          currency: merged.currency ?? '',
+          ...(merged.originalAmount !== undefined && { originalAmount: merged.originalAmount }),
+          type: merged.type,
+          category: merged.category,
+          source: merged.category,
+          description: merged.description,
+          ...(merged.accountId && { accountId: merged.accountId }),
+          ...(merged.toAccountId && { toAccountId: merged.toAccountId }),
+          date: getTransactionDate(merged),
+          // An empty id clears the payee
+          payeeId: merged.payeeId ?? '',
+          splits: merged.splits ?? [],
+          tags: merged.tags ?? []
+        };
+        return this.updateTransaction(transaction.id, merged.type, payload).pipe(
+          map(updated => {
+            const result: Transaction = updated
+              ? { ...updated, attachments: updated.attachments ?? transaction.attachments }
+              : { ...merged, updatedAt: new Date() };
+            return { id: transaction.id, result };
+          }),
+          catchError(error => of({ id: transaction.id, error: this.describeError(error) }))
+        );
+      }, BULK_CONCURRENCY),
+      toArray(),
+      map(outcomes => this.toBulkResult(outcomes))
+    );
+  }
+
+  /**
+   * Delete many transactions; succeeded holds the deleted ids
+   */
+  deleteTransactions(transactions: Transaction[]): Observable<BulkResult<string>> {
+    return from(transactions).pipe(
+      mergeMap(transaction => this.deleteTransaction(transaction.id, transaction.type).pipe(
+        map(() => ({ id: transaction.id, result: transaction.id })),
+        catchError(error => of({ id: transaction.id, error: this.describeError(error) }))
+      ), BULK_CONCURRENCY),
+      toArray(),
+      map(outcomes => this.toBulkResult(outcomes))
+    );
+  }
+
+  /**
+   * Bring trashed transactions back; the server's copy wins when it sends one
+   */
+  restoreTransactions(transactions: Transaction[]): Observable<BulkResult<Transaction>> {
+    return from(transactions).pipe(
+      mergeMap(transaction => this.restoreTransaction(transaction.id).pipe(
+        map(response => {
+          const restored: Transaction = { ...(response ?? transaction) };
+          restored.attachments = restored.attachments ?? transaction.attachments;
+          delete restored.deletedAt;
+          return { id: transaction.id, result: restored };
+        }),
+        catchError(error => of({ id: transaction.id, error: this.describeError(error) }))
+      ), BULK_CONCURRENCY),
+      toArray(),
+      map(outcomes => this.toBulkResult(outcomes))
+    );
+  }
+
+  /**
+   * Drop the shared histories after a write; the next reader fetches anew
+   */
+  private invalidateHistory(): void {
+    this.historyCache.clear();
+  }
+
+  private toBulkResult<T>(outcomes: ({ id: string; result: T } | { id: string; error: string })[]): BulkResult<T> {
+    const result: BulkResult<T> = { succeeded: [], failed: [] };
+    outcomes.forEach(outcome => {
+      if ('result' in outcome) {
+        result.succeeded.push(outcome.result);
+      } else {
+        result.failed.push(outcome);
+      }
+    });
+    return result;
+  }
+
+  private describeError(error: unknown): string {
+    const { error: body, message } = (error ?? {}) as { error?: { message?: string } | null; message?: string };
+    return body?.message || message || 'Request failed';
+  }
+
+  // ========== HISTORY ==========
+
+  /**
+   * Audit trail of a transaction, newest first
+   */
+  getTransactionHistory(transactionId: string): Observable<TransactionHistoryEntry[]> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for transaction history');
+      return of([]);
+    }
+
+    return this.http.get<ApiHistoryEntry[]>(
+      `${this.apiUrl}/users/${userId}/transactions/${transactionId}/history`,
+      this.getRequestOptions()
+    ).pipe(
+      map(entries => Array.isArray(entries) ? entries.map(item => this.mapHistoryEntry(item)) : []),
+      map(entries => entries.sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime())),
+      catchError(error => {
+        console.error('❌ Error fetching transaction history:', error);
+        return of([]);
+      })
+    );
+  }
+
+  // ========== ATTACHMENTS ==========
+
+  getAttachments(transactionId: string): Observable<Attachment[]> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for attachments');
+      return of([]);
+    }
+
+    return this.http.get<ApiAttachment[]>(
+      `${this.apiUrl}/users/${userId}/transactions/${transactionId}/attachments`,
+      this.getRequestOptions()
+    ).pipe(
+      map(attachments => Array.isArray(attachments) ? attachments.map(item => this.mapAttachment(item)) : []),
+      catchError(error => {
+        console.error('❌ Error fetching attachments:', error);
+        return of([]);
+      })
+    );
+  }
+
+  uploadAttachment(transactionId: string, file: Blob, fileName: string): Observable<Attachment> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for uploading attachment');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+
+    // No JSON Content-Type here: the browser sets the multipart boundary
+    return this.http.post<ApiAttachment>(
+      `${this.apiUrl}/users/${userId}/transactions/${transactionId}/attachments`,
+      formData,
+      { withCredentials: true }
+    ).pipe(
+      tap(() => this.invalidateHistory()),
+      map(attachment => this.mapAttachment(attachment)),
+      catchError(error => {
+        console.error('❌ Error uploading attachment:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  downloadAttachment(transactionId: string, attachmentId: string, thumbnail = false): Observable<Blob> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for downloading attachment');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    const params = thumbnail ? new HttpParams().set('size', 'thumbnail') : undefined;
+    return this.http.get(
+      `${this.apiUrl}/users/${userId}/transactions/${transactionId}/attachments/${attachmentId}`,
+      {
+        ...(params && { params }),
+        responseType: 'blob',
+        withCredentials: true
+      }
+    ).pipe(
+      catchError(error => {
+        console.error('❌ Error downloading attachment:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  deleteAttachment(transactionId: string, attachmentId: string): Observable<void> {
+    const userId = this.userId;
+    if (!userId) {
+      console.error('❌ No user ID for deleting attachment');
+      return throwError(() => new Error('User not authenticated'));
+    }
+
+    return this.http.delete<void>(
+      `${this.apiUrl}/users/${userId}/transactions/${transactionId}/attachments/${attachmentId}`,
+      this.getRequestOptions()
+    ).pipe(
+      tap(() => this.invalidateHistory()),
+      catchError(error => {
+        console.error('❌ Error deleting attachment:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
   getRecentTransactions(limit: number = 5): Observable<Transaction[]> {
     const userId = this.userId;
     if (!userId) {
@@ -551,11 +1185,10 @@ export class TransactionService {
     }).pipe(
       map(({ expenseReport, incomeStatement, transactions }) => {
         // Filter transactions by date
+        // Compare day keys so the whole end day is included
         const filteredTransactions = transactions.filter(t => {
-          const transDate = new Date(t.createdAt);
-          const start = new Date(startDate);
-          const end = new Date(endDate);
-          return transDate >= start && transDate <= end;
+          const dateKey = toDateKey(getTransactionDate(t));
+          return dateKey >= startDate && dateKey <= endDate;
         });
 
         const expenses = filteredTransactions.filter(t => t.type === 'expense');
@@ -571,19 +1204,22 @@ export class TransactionService {
           },
           expenseReport: expenseReport || [],
           incomeStatement: incomeStatement || this.getEmptyIncomeStatement(),
+          tagBreakdown: buildTagBreakdown(filteredTransactions),
           detailedData: {
             expenses: expenses.map(t => ({
               id: t.id,
-              date: t.createdAt.toISOString().split('T')[0],
+              date: toDateKey(getTransactionDate(t)),
               category: t.category,
               description: t.description,
+              tags: t.tags,
               amount: t.amount
             })),
             revenues: revenues.map(t => ({
               id: t.id,
-              date: t.createdAt.toISOString().split('T')[0],
+              date: toDateKey(getTransactionDate(t)),
               category: t.category,
               description: t.description,
+              tags: t.tags,
               amount: t.amount
             }))
           }
@@ -726,18 +1362,83 @@ export class TransactionService {
     };
   }
   // ========== MAPPING METHODS ==========
-  private mapTransactions(data: any): Transaction[] {
+
+  /**
+   * The value date goes over the wire as a plain YYYY-MM-DD day
+   */
+  private toRequestBody<T extends { date?: Date }>(transaction: T): Omit<T, 'date'> & { date?: string } {
+    const { date, ...rest } = transaction;
+    return { ...rest, ...(date && { date: toDateKey(new Date(date)) }) };
+  }
+
+  /**
+   * A bare YYYY-MM-DD is a local day; new Date() would read it as UTC
+   */
+  private parseValueDate(value: string): Date {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? fromDateKey(value) : new Date(value);
+  }
+
+  private mapTransactions(data: unknown): Transaction[] {
     if (!data || !Array.isArray(data)) return [];
 
-    return data.map((item: any) => ({
-      id: item.id?.toString() || '',
-      amount: Number(item.amount) || 0,
-      type: this.normalizeTransactionType(item.type),
-      category: item.category || 'Uncategorized',
-      description: item.description || '',
-      createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
-      updatedAt: item.updatedAt ? new Date(item.updatedAt) : new Date()
-    }));
+    return (data as ApiTransaction[])
+      .filter(item => {
+        if (!item) return false;
+        if (this.normalizeTransactionType(item.type ?? '')) return true;
+        console.warn('⚠️ Skipping transaction with unknown type:', item.id, item.type);
+        return false;
+      })
+      .map((item): Transaction => ({
+        id: item.id?.toString() || '',
+        amount: Number(item.amount) || 0,
+        ...(item.currency && item.originalAmount != null && {
+          currency: String(item.currency),
+          originalAmount: Number(item.originalAmount)
+        }),
+        type: this.normalizeTransactionType(item.type ?? '')!,
+        category: item.category || 'Uncategorized',
+        description: item.description || '',
+        ...(item.accountId && { accountId: String(item.accountId) }),
+        ...(item.toAccountId && { toAccountId: String(item.toAccountId) }),
+        ...(item.payeeId && { payeeId: String(item.payeeId) }),
+        ...(item.externalId && { externalId: String(item.externalId) }),
+        ...(Array.isArray(item.splits) && item.splits.length > 0 && { splits: this.mapSplits(item.splits) }),
+        tags: Array.isArray(item.tags) ? item.tags.map(tag => String(tag)) : [],
+        ...(Array.isArray(item.attachments) && { attachments: item.attachments.map(a => this.mapAttachment(a)) }),
+        ...(item.date && { date: this.parseValueDate(item.date) }),
+        createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
+        updatedAt: item.updatedAt ? new Date(item.updatedAt) : new Date(),
+        ...(item.deletedAt && { deletedAt: new Date(item.deletedAt) })
+      }));
+  }
+
+  /**
+   * Paged responses are either a wrapper object with the rows and a total,
+   * or a bare array with the total in an X-Total-Count header. Any other
+   * shape is an error, not an empty page.
+   */
+  private unwrapTransactionPage(data: unknown, totalHeader: string | null): { rows: ApiTransaction[]; total: number | null } {
+    const wrapper = (data ?? {}) as Exclude<ApiTransactionPage, ApiTransaction[]>;
+    const rows = Array.isArray(data) ? data as ApiTransaction[] : wrapper.items ?? wrapper.content;
+    if (!Array.isArray(rows)) {
+      throw new Error('Unrecognized transaction page response');
+    }
+
+    const rawTotal = Array.isArray(data) ? totalHeader : wrapper.total ?? wrapper.totalElements ?? totalHeader;
+    const total = rawTotal === null || rawTotal === '' ? NaN : Number(rawTotal);
+    return { rows, total: Number.isFinite(total) ? total : null };
+  }
+
+  private mapTransactionPage(data: unknown, totalHeader: string | null, query: TransactionQuery): TransactionPage {
+    const { rows, total } = this.unwrapTransactionPage(data, totalHeader);
+    const items = this.mapTransactions(rows);
+
+    return {
+      items,
+      total: total !== null && total >= items.length ? total : items.length,
+      page: query.page,
+      limit: query.limit
+    };
   }
 
   private mapSummary(data: any, timeFrame: string): TransactionSummary {
@@ -757,21 +1458,178 @@ export class TransactionService {
   private mapCategories(data: any): CategorySummary[] {
     if (!data || !Array.isArray(data)) return [];
 
-    return data.map((item: any) => ({
-      name: item.name || 'Unknown',
-      amount: Number(item.amount) || 0,
-      type: this.normalizeTransactionType(item.type),
-      percentage: Number(item.percentage) || 0
+    // Category summaries cover income and spending only
+    return data
+      .filter((item: any) => ['expense', 'revenue'].includes(this.normalizeTransactionType(item.type) ?? ''))
+      .map((item: any) => ({
+        name: item.name || 'Unknown',
+        amount: Number(item.amount) || 0,
+        type: this.normalizeTransactionType(item.type)!,
+        percentage: Number(item.percentage) || 0
+      }));
+  }
+
+  private mapAttachment(item: ApiAttachment): Attachment {
+    return {
+      id: item.id?.toString() || '',
+      fileName: item.fileName || 'attachment',
+      contentType: item.contentType || 'application/octet-stream',
+      size: Number(item.size) || 0,
+      uploadedAt: item.uploadedAt ? new Date(item.uploadedAt) : new Date()
+    };
+  }
+
+  private mapHistoryEntry(item: ApiHistoryEntry): TransactionHistoryEntry {
+    const actions: TransactionHistoryEntry['action'][] = ['created', 'updated', 'deleted', 'restored'];
+    return {
+      id: item.id?.toString() || '',
+      action: actions.find(action => action === item.action) ?? 'updated',
+      changedAt: item.changedAt ? new Date(item.changedAt) : new Date(),
+      changedBy: {
+        id: item.changedBy?.id?.toString() || '',
+        username: item.changedBy?.username || 'Someone'
+      },
+      changes: Array.isArray(item.changes)
+        ? item.changes.map(change => ({ field: String(change.field), from: change.from ?? null, to: change.to ?? null }))
+        : []
+    };
+  }
+
+  private mapSplits(data: ApiSplitLine[]): SplitLine[] {
+    return data.map(line => ({
+      category: line.category || 'Uncategorized',
+      amount: Number(line.amount) || 0,
+      ...(line.note && { note: String(line.note) })
     }));
   }
 
-  private normalizeTransactionType(type: string): 'expense' | 'revenue' {
-    if (!type) return 'expense';
+  // ========== SPLIT TRANSACTIONS ==========
+
+  /**
+   * Move the amount of each split transaction from its parent category to
+   * the categories of its lines
+   */
+  private applySplitsToCategoryStats(stats: CategoryStatsResponse, transactions: Transaction[]): CategoryStatsResponse {
+    const splitTransactions = transactions.filter(t => t.splits?.length);
+    if (splitTransactions.length === 0) return stats;
+
+    const rebalance = (details: CategoryDetail[], type: 'expense' | 'revenue'): CategoryDetail[] => {
+      const byCategory = new Map<string, CategoryDetail>(
+        (details || []).map(detail => [detail.category, { ...detail }])
+      );
+      const getDetail = (category: string): CategoryDetail => {
+        if (!byCategory.has(category)) {
+          byCategory.set(category, {
+            category,
+            type,
+            totalAmount: 0,
+            transactionCount: 0,
+            averageAmount: 0,
+            percentage: 0,
+            trend: 'stable',
+            trendPercentage: 0
+          });
+        }
+        return byCategory.get(category)!;
+      };
+
+      splitTransactions.filter(t => t.type === type).forEach(transaction => {
+        const parent = byCategory.get(transaction.category);
+        if (parent) {
+          parent.totalAmount -= transaction.amount;
+          parent.transactionCount -= 1;
+        }
+        getCategoryAllocations(transaction).forEach(allocation => {
+          const detail = getDetail(allocation.category);
+          detail.totalAmount += allocation.amount;
+          detail.transactionCount += 1;
+        });
+      });
+
+      const rebalanced = [...byCategory.values()].filter(detail => detail.transactionCount > 0);
+      const total = rebalanced.reduce((sum, detail) => sum + detail.totalAmount, 0);
+
+      return rebalanced
+        .map(detail => ({
+          ...detail,
+          totalAmount: roundCents(detail.totalAmount),
+          averageAmount: roundCents(detail.totalAmount / detail.transactionCount),
+          percentage: total > 0 ? (detail.totalAmount / total) * 100 : 0
+        }))
+        .sort((a, b) => b.totalAmount - a.totalAmount);
+    };
+
+    const expenseCategories = rebalance(stats.expenseCategories, 'expense');
+    const revenueCategories = rebalance(stats.revenueCategories, 'revenue');
+
+    return {
+      ...stats,
+      expenseCategories,
+      revenueCategories,
+      summary: {
+        ...stats.summary,
+        mostSpentCategory: expenseCategories[0]?.category ?? stats.summary?.mostSpentCategory ?? '',
+        mostRevenueCategory: revenueCategories[0]?.category ?? stats.summary?.mostRevenueCategory ?? ''
+      }
+    };
+  }
+
+  private applySplitsToCategorySummary(categories: CategorySummary[], transactions: Transaction[]): CategorySummary[] {
+    const splitTransactions = transactions.filter(t => t.splits?.length);
+    if (splitTransactions.length === 0) return categories;
+
+    const byKey = new Map<string, CategorySummary>(
+      categories.map(category => [`${category.type}:${category.name}`, { ...category }])
+    );
+
+    splitTransactions.forEach(transaction => {
+      const parent = byKey.get(`${transaction.type}:${transaction.category}`);
+      if (parent) {
+        parent.amount -= transaction.amount;
+      }
+      getCategoryAllocations(transaction).forEach(allocation => {
+        const key = `${transaction.type}:${allocation.category}`;
+        const summary = byKey.get(key) ?? { name: allocation.category, amount: 0, type: transaction.type, percentage: 0 };
+        summary.amount += allocation.amount;
+        byKey.set(key, summary);
+      });
+    });
+
+    const rebalanced = [...byKey.values()].filter(category => roundCents(category.amount) > 0);
+    const totals = rebalanced.reduce<Record<string, number>>((acc, category) => {
+      acc[category.type] = (acc[category.type] ?? 0) + category.amount;
+      return acc;
+    }, {});
+
+    return rebalanced
+      .map(category => ({
+        ...category,
+        amount: roundCents(category.amount),
+        percentage: totals[category.type] > 0 ? (category.amount / totals[category.type]) * 100 : 0
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Known transaction type, or null for a missing or unknown one (those are
+   * not guessed as expenses)
+   */
+  private normalizeTransactionType(type: string): TransactionType | null {
+    if (!type) return null;
     const normalized = type.toLowerCase().trim();
-    return (normalized === 'expense' || normalized === 'revenue') ? normalized : 'expense';
+    return (normalized === 'expense' || normalized === 'revenue' || normalized === 'transfer') ? normalized : null;
   }
 
   // ========== EMPTY DATA METHODS ==========
+  private getEmptyPage(query: TransactionQuery): TransactionPage {
+    return {
+      items: [],
+      total: 0,
+      page: query.page,
+      limit: query.limit
+    };
+  }
+
   private getEmptySummary(timeFrame: string): TransactionSummary {
     return {
       totalExpenses: 0,
@@ -0,0 +1,48 @@
+// services/user-storage.ts
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { AuthService } from '../auth/auth';
+
+/**
+ * A list kept in localStorage under the signed-in user's key. The list is
+ * read again whenever another user signs in and emptied on logout, so one
+ * user's data is never shown to, or saved under, another user.
+ */
+export class UserStorage<T> {
+  private key: string | null = null;
+
+  /**
+   * onLoad runs now with the signed-in user's list and again on every
+   * change of user; signed out, it gets an empty list
+   */
+  constructor(authService: AuthService, private keyPrefix: string, onLoad: (items: T[]) => void) {
+    authService.currentUser$.pipe(
+      map(user => user?.id ?? null),
+      distinctUntilChanged()
+    ).subscribe(userId => {
+      this.key = userId ? `${this.keyPrefix}_${userId}` : null;
+      onLoad(this.read());
+    });
+  }
+
+  private read(): T[] {
+    if (!this.key) return [];
+    try {
+      const saved = localStorage.getItem(this.key);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error(`Error loading ${this.keyPrefix}:`, error);
+    }
+    return [];
+  }
+
+  /**
+   * Nothing is stored while signed out
+   */
+  write(items: T[]): void {
+    if (this.key) {
+      localStorage.setItem(this.key, JSON.stringify(items));
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
 
 import { SettingsComponent } from './settings.component';
+import { TransactionService } from '../services/transaction.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { Transaction } from '../models/transaction.model';
 
 describe('SettingsComponent', () => {
   let component: SettingsComponent;
@@ -17,7 +21,44 @@ describe('SettingsComponent', () => {
     fixture.detectChanges();
   });
 
+  afterEach(() => localStorage.removeItem('expenseTrackerUnresolvedRebase_anonymous'));
+
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should keep a failed rollback and block currency changes until it is put back', () => {
+    const day = new Date(2026, 4, 1);
+    const rows: Transaction[] = ['a', 'b'].map(id => (
+      { id, amount: 10, type: 'expense', category: 'Food', description: id, tags: [], date: day, createdAt: day, updatedAt: day }
+    ));
+    const transactionService = TestBed.inject(TransactionService);
+    vi.spyOn(TestBed.inject(ExchangeRateService), 'getAll').mockReturnValue([
+      { id: 'r', date: '2026-05-01', from: 'USD', to: 'EUR', rate: 0.5, createdAt: '2026-05-01T00:00:00.000Z' }
+    ]);
+    vi.spyOn(transactionService, 'getAllTransactions').mockReturnValue(of(rows));
+    vi.spyOn(transactionService, 'getDeletedTransactions').mockReturnValue(of([]));
+    const update = vi.spyOn(transactionService, 'updateTransactions')
+      // Converting b fails, then putting a back fails too
+      .mockReturnValueOnce(of({ succeeded: [{ ...rows[0], amount: 5 }], failed: [{ id: 'b', error: 'Server error' }] }))
+      .mockReturnValueOnce(of({ succeeded: [], failed: [{ id: 'a', error: 'Server error' }] }));
+
+    component.preferences.currency = 'EUR';
+    component.saveSettings();
+    expect(component.preferences.currency).toBe('USD');
+    expect(component.getUnresolvedIds()).toBe('a');
+    expect(localStorage.getItem('expenseTrackerUnresolvedRebase_anonymous')).toContain('"to":"EUR"');
+
+    component.preferences.currency = 'EUR';
+    component.saveSettings();
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(component.preferences.currency).toBe('USD');
+
+    update.mockReturnValueOnce(of({ succeeded: [rows[0]], failed: [] }));
+    component.retryRollback();
+    expect(update).toHaveBeenLastCalledWith([
+      { transaction: rows[0], changes: { amount: 10, currency: '', originalAmount: undefined, splits: [] } }
+    ]);
+    expect(component.unresolvedRebase).toBeNull();
+  });
 });
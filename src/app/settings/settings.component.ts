@@ -3,6 +3,18 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ThemeService } from '../theme.service';
 import { Router } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { ExchangeRatesComponent } from '../exchange-rates/exchange-rates.component';
+import { SettingsService } from '../services/settings.service';
+import { TransactionService, toDateKey } from '../services/transaction.service';
+import {
+  ExchangeRateService,
+  convertAmount,
+  findExchangeRate,
+  rebaseTransaction
+} from '../services/exchange-rate.service';
+import { Transaction, TransactionDraft, TransactionUpdate } from '../models/transaction.model';
+import { AuthService } from '../auth/auth';
 
 export interface AppSettings {
   currency: string;
@@ -28,10 +40,18 @@ export interface BudgetCategory {
   spent: number;
 }
 
+// A base currency change that failed and could not be undone: these
+// transactions are still in the new currency while the base stayed the old one
+interface UnresolvedRebase {
+  from: string;
+  to: string;
+  restores: { id: string; changes: Partial<TransactionDraft> }[];
+}
+
 @Component({
   selector: 'app-settings',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, ExchangeRatesComponent],
   templateUrl: './settings.component.html',
   styleUrls: ['./settings.component.scss']
 })
@@ -60,7 +80,7 @@ export class SettingsComponent implements OnInit {
     ]
   };
 
-  currencies = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'INR', 'CHF', 'CNY', 'BRL'];
+  currencies = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'INR', 'CHF', 'CNY', 'BRL', 'TND'];
   dateFormats = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD', 'DD-MMM-YYYY'];
   weekStarts = ['Monday', 'Sunday', 'Saturday'];
 
@@ -69,14 +89,23 @@ export class SettingsComponent implements OnInit {
 
   // UI State
   activeTab = 'general';
+  isChangingCurrency = false;
+  unresolvedRebase: UnresolvedRebase | null = null;
+
+  private readonly UNRESOLVED_REBASE_KEY_PREFIX = 'expenseTrackerUnresolvedRebase';
 
   constructor(
     private themeService: ThemeService,
-    private router: Router
+    private router: Router,
+    private settingsService: SettingsService,
+    private transactionService: TransactionService,
+    private exchangeRateService: ExchangeRateService,
+    private authService: AuthService
   ) { }
 
   ngOnInit() {
     this.loadSettings();
+    this.loadUnresolvedRebase();
     this.themeService.isDarkMode$.subscribe(isDark => {
       this.isDarkMode = isDark;
     });
@@ -117,12 +146,208 @@ export class SettingsComponent implements OnInit {
   }
 
   saveSettings() {
-    localStorage.setItem('expenseTrackerPreferences', JSON.stringify(this.preferences));
-    localStorage.setItem('expenseTrackerBudget', JSON.stringify(this.budgetSettings));
-    this.applySettings();
+    const baseCurrency = this.settingsService.getAppSettings().currency;
+    if (this.preferences.currency !== baseCurrency) {
+      if (this.unresolvedRebase) {
+        this.preferences.currency = baseCurrency;
+        this.showErrorMessage(`Fix the transactions left in ${this.unresolvedRebase.to} before changing the base currency: ` +
+          this.getUnresolvedIds());
+        return;
+      }
+      this.changeBaseCurrency(baseCurrency, this.preferences.currency);
+      return;
+    }
+    this.storeSettings();
     this.showSuccessMessage('Settings saved successfully!');
   }
 
+  // Through the settings service, so the rest of the app picks the change up
+  private storeSettings() {
+    this.settingsService.updateAppSettings(this.preferences);
+    this.settingsService.updateBudgetSettings(this.budgetSettings);
+  }
+
+  /**
+   * Amounts are stored in the base currency, so a new base converts every
+   * transaction (at the rate of its day) and the budgets (at today's rate).
+   * Without a rate for all of them nothing changes; a conversion the server
+   * rejects halfway is rolled back. When the rollback fails as well, the
+   * transactions it missed are kept (see unresolvedRebase) and block any
+   * further change until they are put back.
+   */
+  private changeBaseCurrency(from: string, to: string) {
+    const rates = this.exchangeRateService.getAll();
+    const budgetRate = findExchangeRate(rates, from, to, toDateKey(new Date()));
+    const refuse = (message: string) => {
+      this.isChangingCurrency = false;
+      this.preferences.currency = from;
+      this.showErrorMessage(message);
+    };
+
+    this.isChangingCurrency = true;
+    forkJoin({
+      transactions: this.transactionService.getAllTransactions('all', true),
+      trash: this.transactionService.getDeletedTransactions()
+    }).subscribe({
+      next: ({ transactions, trash }) => {
+        if (trash.length > 0) {
+          refuse('Empty or restore the trash before changing the base currency');
+          return;
+        }
+        const updates: TransactionUpdate[] = [];
+        let missing = 0;
+        transactions.forEach(transaction => {
+          const changes = rebaseTransaction(transaction, from, to, rates);
+          if (changes) {
+            updates.push({ transaction, changes });
+          } else {
+            missing++;
+          }
+        });
+        if (missing > 0) {
+          refuse(`Add exchange rates into ${to} first: ${missing} transaction(s) have none`);
+          return;
+        }
+        if (budgetRate === null) {
+          refuse(`Add a ${from} to ${to} exchange rate first to convert the budgets`);
+          return;
+        }
+
+        this.transactionService.updateTransactions(updates).subscribe(result => {
+          if (result.failed.length > 0) {
+            console.error('❌ Base currency change failures:', result.failed);
+            this.rollBackRebase(from, to, result.succeeded, transactions, unresolved => {
+              refuse(unresolved
+                ? `${result.failed.length} transaction(s) could not be converted and these could not be put back, ` +
+                  `so they are still in ${to} while the base currency stays ${from}: ${this.getUnresolvedIds()}`
+                : `${result.failed.length} transaction(s) could not be converted, so the base currency stays ${from}`);
+            });
+            return;
+          }
+
+          this.isChangingCurrency = false;
+          this.convertBudgets(budgetRate);
+          this.storeSettings();
+          this.showSuccessMessage(`Converted ${transactions.length} transaction(s) and the budgets into ${to}`);
+        });
+      },
+      error: (error) => {
+        console.error('❌ Could not load transactions to convert:', error);
+        refuse(`Could not load your transactions, so the base currency stays ${from}`);
+      }
+    });
+  }
+
+  private rollBackRebase(from: string, to: string, converted: Transaction[], originals: Transaction[],
+                         done: (unresolved: boolean) => void) {
+    const byId = new Map(originals.map(transaction => [transaction.id, transaction]));
+    const restores = converted.map(transaction => {
+      const original = byId.get(transaction.id)!;
+      const changes: Partial<TransactionDraft> = {
+        amount: original.amount,
+        currency: original.currency ?? '',
+        originalAmount: original.originalAmount,
+        splits: original.splits ?? []
+      };
+      return { id: transaction.id, changes };
+    });
+    const updates: TransactionUpdate[] = converted.map((transaction, index) => ({ transaction, changes: restores[index].changes }));
+
+    this.transactionService.updateTransactions(updates).subscribe(result => {
+      if (result.failed.length > 0) {
+        console.error('❌ Could not roll back the base currency change:', result.failed);
+        const failed = new Set(result.failed.map(failure => failure.id));
+        this.saveUnresolvedRebase({ from, to, restores: restores.filter(restore => failed.has(restore.id)) });
+      }
+      done(result.failed.length > 0);
+    });
+  }
+
+  /**
+   * Put back the transactions a failed base currency change left converted.
+   * Ones purged since need nothing; trashed ones have to be restored first.
+   */
+  retryRollback() {
+    const unresolved = this.unresolvedRebase;
+    if (!unresolved || this.isChangingCurrency) return;
+
+    this.isChangingCurrency = true;
+    forkJoin({
+      transactions: this.transactionService.getAllTransactions('all', true),
+      trash: this.transactionService.getDeletedTransactions()
+    }).subscribe({
+      next: ({ transactions, trash }) => {
+        const byId = new Map(transactions.map(transaction => [transaction.id, transaction]));
+        const trashedIds = new Set(trash.map(transaction => transaction.id));
+        const updates: TransactionUpdate[] = [];
+        unresolved.restores.forEach(({ id, changes }) => {
+          const transaction = byId.get(id);
+          if (transaction) {
+            // A missing originalAmount has to override the converted one
+            updates.push({ transaction, changes: { ...changes, originalAmount: changes.originalAmount } });
+          }
+        });
+
+        this.transactionService.updateTransactions(updates).subscribe(result => {
+          this.isChangingCurrency = false;
+          const failed = new Set(result.failed.map(failure => failure.id));
+          const remaining = unresolved.restores.filter(({ id }) => failed.has(id) || trashedIds.has(id));
+          this.saveUnresolvedRebase(remaining.length > 0 ? { ...unresolved, restores: remaining } : null);
+          if (remaining.length > 0) {
+            console.error('❌ Could not roll back the base currency change:', result.failed);
+            this.showErrorMessage(`Still in ${unresolved.to} (restore trashed ones first): ${this.getUnresolvedIds()}`);
+          } else {
+            this.showSuccessMessage(`Transactions are back in ${unresolved.from}`);
+          }
+        });
+      },
+      error: (error) => {
+        this.isChangingCurrency = false;
+        console.error('❌ Could not load transactions to roll back:', error);
+        this.showErrorMessage('Could not load your transactions; try again');
+      }
+    });
+  }
+
+  getUnresolvedIds(): string {
+    return this.unresolvedRebase?.restores.map(restore => restore.id).join(', ') ?? '';
+  }
+
+  private get unresolvedRebaseKey(): string {
+    return `${this.UNRESOLVED_REBASE_KEY_PREFIX}_${this.authService.getCurrentUser()?.id ?? 'anonymous'}`;
+  }
+
+  private loadUnresolvedRebase() {
+    try {
+      const saved = localStorage.getItem(this.unresolvedRebaseKey);
+      this.unresolvedRebase = saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      console.error('Error loading the unresolved base currency change:', e);
+    }
+  }
+
+  private saveUnresolvedRebase(unresolved: UnresolvedRebase | null) {
+    this.unresolvedRebase = unresolved;
+    if (unresolved) {
+      localStorage.setItem(this.unresolvedRebaseKey, JSON.stringify(unresolved));
+    } else {
+      localStorage.removeItem(this.unresolvedRebaseKey);
+    }
+  }
+
+  private convertBudgets(rate: number) {
+    this.budgetSettings = {
+      ...this.budgetSettings,
+      monthlyBudget: convertAmount(this.budgetSettings.monthlyBudget, rate),
+      weeklyBudget: convertAmount(this.budgetSettings.weeklyBudget, rate),
+      categories: this.budgetSettings.categories.map(category => ({
+        ...category,
+        budget: convertAmount(category.budget, rate),
+        spent: convertAmount(category.spent, rate)
+      }))
+    };
+  }
+
   onCurrencyChange() {
     console.log('Currency changed to:', this.preferences.currency);
     this.applySettings();
@@ -145,13 +370,21 @@ export class SettingsComponent implements OnInit {
   }
 
   showSuccessMessage(message: string) {
+    this.showMessage(message, '#10b981');
+  }
+
+  showErrorMessage(message: string) {
+    this.showMessage(message, '#ef4444');
+  }
+
+  private showMessage(message: string, background: string) {
     const alert = document.createElement('div');
     alert.textContent = message;
     alert.style.cssText = `
       position: fixed;
       top: 20px;
       right: 20px;
-      background: #10b981;
+      background: ${background};
       color: white;
       padding: 12px 20px;
       border-radius: 8px;
@@ -2,6 +2,8 @@ import { Component } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule, Router } from '@angular/router';
 import { AuthService, User } from '../auth/auth';
+import { FilterPresetService } from '../services/filter-preset.service';
+import { FilterPreset } from '../models/filter-preset.model';
 
 interface MenuItem {
   label: string;
@@ -20,17 +22,25 @@ interface MenuItem {
 export class SidebarComponent {
   private currUser: User | null;
   public menuItems: MenuItem[]
-  constructor(private router: Router, private authService: AuthService) {
+  // Saved transaction views pinned from the transactions page
+  public pinnedViews: FilterPreset[] = [];
+  public activeViewId: string | null = null;
+  constructor(private router: Router, private authService: AuthService, private filterPresetService: FilterPresetService) {
 
     this.currUser = this.authService.getCurrentUser()
     this.menuItems = [
       { label: 'Dashboard', icon: '📊', route: `/dashboard/${this.currUser?.id}`, isActive: false },
       { label: 'Transactions', icon: '💳', route: `/transactions/${this.currUser?.id}`, isActive: false },
       { label: 'Category Stats', icon: '📈', route: `/category-stats/${this.currUser?.id}`, isActive: false },
+      { label: 'Payees', icon: '🏪', route: `/payees/${this.currUser?.id}`, isActive: false },
       { label: 'Reports', icon: '📋', route: `/reports/${this.currUser?.id}`, isActive: false },
       { label: 'Settings', icon: '⚙️', route: `/settings/${this.currUser?.id}`, isActive: false }
     ];
 
+    this.filterPresetService.presets$.subscribe(presets => {
+      this.pinnedViews = presets.filter(preset => preset.pinned);
+    });
+
     this.updateActiveState();
     this.router.events.subscribe(() => {
       this.updateActiveState();
@@ -41,11 +51,17 @@ export class SidebarComponent {
     this.router.navigate([route]);
   }
 
+  openView(view: FilterPreset) {
+    this.router.navigate([`/transactions/${this.currUser?.id}`], { queryParams: { view: view.id } });
+  }
+
   private updateActiveState() {
-    const currentRoute = this.router.url;
+    const tree = this.router.parseUrl(this.router.url);
+    const currentRoute = this.router.url.split('?')[0];
     this.menuItems.forEach(item => {
       item.isActive = currentRoute === item.route ||
         currentRoute.startsWith(item.route + '/');
     });
+    this.activeViewId = currentRoute === `/transactions/${this.currUser?.id}` ? tree.queryParams['view'] ?? null : null;
   }
 }
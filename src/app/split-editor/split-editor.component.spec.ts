@@ -0,0 +1,70 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SplitEditorComponent } from './split-editor.component';
+import {
+  getCategoryAllocations,
+  getSplitParentCategory,
+  getSplitsError
+} from '../services/transaction.service';
+
+describe('SplitEditorComponent', () => {
+  let component: SplitEditorComponent;
+  let fixture: ComponentFixture<SplitEditorComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SplitEditorComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SplitEditorComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should assign the remaining amount to a line', () => {
+    component.total = 42.3;
+    component.splits = [{ category: 'Food', amount: 30.1 }, { category: 'Healthcare', amount: 0 }];
+
+    component.assignRemaining(component.splits[1]);
+
+    expect(component.splits[1].amount).toBe(12.2);
+    expect(component.getRemaining()).toBe(0);
+    expect(component.getError()).toBeNull();
+  });
+});
+
+describe('split helpers', () => {
+  it('should report lines that do not add up to the total', () => {
+    const lines = [{ category: 'Food', amount: 20 }, { category: 'Shopping', amount: 5 }];
+
+    expect(getSplitsError(lines, 30)).toBe('Split lines are 5.00 short of the total');
+    expect(getSplitsError(lines, 24.5)).toBe('Split lines exceed the total by 0.50');
+    expect(getSplitsError(lines, 25)).toBeNull();
+    expect(getSplitsError([{ category: '', amount: 10 }, { category: 'Food', amount: 15 }], 25))
+      .toBe('Every split line needs a category');
+  });
+
+  it('should allocate split lines per category and fall back to the single category', () => {
+    const split = {
+      amount: 60,
+      category: 'Food',
+      splits: [
+        { category: 'Food', amount: 25 },
+        { category: 'Healthcare', amount: 20 },
+        { category: 'Food', amount: 15 }
+      ]
+    };
+
+    expect(getCategoryAllocations(split)).toEqual([
+      { category: 'Food', amount: 40 },
+      { category: 'Healthcare', amount: 20 }
+    ]);
+    expect(getCategoryAllocations({ amount: 9, category: 'Bills' })).toEqual([{ category: 'Bills', amount: 9 }]);
+    expect(getSplitParentCategory(split.splits)).toBe('Food');
+  });
+});
@@ -0,0 +1,54 @@
+// split-editor.component.ts
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SplitLine } from '../models/transaction.model';
+import { getSplitsError, roundCents } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+
+@Component({
+  selector: 'app-split-editor',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './split-editor.component.html',
+  styleUrls: ['./split-editor.component.scss']
+})
+export class SplitEditorComponent {
+  @Input() categories: string[] = [];
+  @Input() total = 0;
+  @Input() splits: SplitLine[] = [];
+  @Output() splitsChange = new EventEmitter<SplitLine[]>();
+
+  // Keeps input names unique when the add and edit modals both render an editor
+  @Input() idPrefix = 'split';
+
+  constructor(private settingsService: SettingsService) { }
+
+  addLine() {
+    const remaining = this.getRemaining();
+    this.splitsChange.emit([...this.splits, { category: '', amount: remaining > 0 ? remaining : 0 }]);
+  }
+
+  removeLine(index: number) {
+    this.splitsChange.emit(this.splits.filter((_, i) => i !== index));
+  }
+
+  /**
+   * Put whatever is left of the total on one line
+   */
+  assignRemaining(line: SplitLine) {
+    line.amount = roundCents((line.amount || 0) + this.getRemaining());
+  }
+
+  getRemaining(): number {
+    return roundCents((this.total || 0) - this.splits.reduce((sum, line) => sum + (line.amount || 0), 0));
+  }
+
+  getError(): string | null {
+    return getSplitsError(this.splits, this.total || 0);
+  }
+
+  formatCurrency(amount: number): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+}
@@ -0,0 +1,43 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TagInputComponent, normalizeTag } from './tag-input.component';
+
+describe('TagInputComponent', () => {
+  let component: TagInputComponent;
+  let fixture: ComponentFixture<TagInputComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TagInputComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TagInputComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should normalize tags', () => {
+    expect(normalizeTag('  #Vacation 2026 ')).toBe('vacation-2026');
+    expect(normalizeTag('Business,Travel')).toBe('business-travel');
+    expect(normalizeTag(' - ')).toBe('');
+  });
+
+  it('should emit new tags once and suggest unused ones first by prefix', () => {
+    const emitted: string[][] = [];
+    component.tagsChange.subscribe(tags => emitted.push(tags));
+    component.tags = ['business'];
+    component.suggestions = ['business', 'reimbursable', 'vacation-2026', 'summer-vacation'];
+
+    component.query = 'vac';
+    expect(component.getMatchingSuggestions()).toEqual(['vacation-2026', 'summer-vacation']);
+
+    component.addTag('Business');
+    component.addTag('Reimbursable');
+    expect(emitted).toEqual([['business', 'reimbursable']]);
+  });
+});
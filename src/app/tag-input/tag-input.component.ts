@@ -0,0 +1,110 @@
+// tag-input.component.ts
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+/**
+ * Tags are stored lower-case with dashes instead of spaces ("Vacation 2026"
+ * becomes "vacation-2026") so the same label is never entered twice
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[\s,]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+@Component({
+  selector: 'app-tag-input',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './tag-input.component.html',
+  styleUrls: ['./tag-input.component.scss']
+})
+export class TagInputComponent {
+  @Input() tags: string[] = [];
+  @Output() tagsChange = new EventEmitter<string[]>();
+
+  // Tags already used on other transactions, offered as autocomplete
+  @Input() suggestions: string[] = [];
+  @Input() inputId = 'tags';
+
+  query = '';
+  highlightedIndex = -1;
+  showSuggestions = false;
+
+  getMatchingSuggestions(): string[] {
+    const query = normalizeTag(this.query);
+    return this.suggestions
+      .filter(tag => !this.tags.includes(tag) && (!query || tag.includes(query)))
+      .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)) || a.localeCompare(b))
+      .slice(0, 8);
+  }
+
+  addTag(raw: string) {
+    const tag = normalizeTag(raw);
+    this.query = '';
+    this.highlightedIndex = -1;
+    if (!tag || this.tags.includes(tag)) return;
+
+    this.tagsChange.emit([...this.tags, tag]);
+  }
+
+  removeTag(tag: string) {
+    this.tagsChange.emit(this.tags.filter(t => t !== tag));
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    const matches = this.getMatchingSuggestions();
+
+    switch (event.key) {
+      case 'Enter':
+      case ',':
+      case 'Tab':
+        if (!this.query.trim() && this.highlightedIndex < 0) return;
+        event.preventDefault();
+        this.addTag(this.highlightedIndex >= 0 ? matches[this.highlightedIndex] : this.query);
+        break;
+      case 'Backspace':
+        if (!this.query && this.tags.length > 0) {
+          this.removeTag(this.tags[this.tags.length - 1]);
+        }
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.showSuggestions = true;
+        this.highlightedIndex = Math.min(this.highlightedIndex + 1, matches.length - 1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.highlightedIndex = Math.max(this.highlightedIndex - 1, -1);
+        break;
+      case 'Escape':
+        // Close an open list only, not a dialog the input sits in
+        if (this.showSuggestions && matches.length > 0) {
+          event.stopPropagation();
+        }
+        this.showSuggestions = false;
+        this.highlightedIndex = -1;
+        break;
+    }
+  }
+
+  onInput() {
+    this.showSuggestions = true;
+    this.highlightedIndex = -1;
+  }
+
+  onBlur() {
+    // Let a click on a suggestion land before the list disappears
+    setTimeout(() => {
+      if (this.query.trim()) {
+        this.addTag(this.query);
+      }
+      this.showSuggestions = false;
+    }, 150);
+  }
+}
@@ -0,0 +1,38 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TransactionHistoryComponent } from './transaction-history.component';
+
+describe('TransactionHistoryComponent', () => {
+  let component: TransactionHistoryComponent;
+  let fixture: ComponentFixture<TransactionHistoryComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TransactionHistoryComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TransactionHistoryComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should describe changed values with names instead of ids', () => {
+    component.accounts = [{ id: 'acc-1', name: 'Joint account', kind: 'checking', openingBalance: 0, currency: 'USD', createdAt: new Date() }];
+    component.payees = [{ id: 'p-1', name: 'Corner Shop', aliases: [], createdAt: new Date() }];
+
+    expect(component.describeValue('accountId', 'acc-1')).toBe('Joint account');
+    expect(component.describeValue('payeeId', 'p-2')).toBe('Deleted payee');
+    expect(component.describeValue('tags', ['home', 'shared'])).toBe('#home #shared');
+    expect(component.describeValue('category', null)).toBe('—');
+    expect(component.describeValue('tags', [])).toBe('—');
+    expect(component.getFieldLabel({ field: 'category', from: 'Food', to: 'Groceries' })).toBe('Category');
+    expect(component.getAuthor({
+      id: 'h1', action: 'updated', changedAt: new Date(), changedBy: { id: 'u2', username: 'sam' }, changes: []
+    })).toBe('sam');
+  });
+});
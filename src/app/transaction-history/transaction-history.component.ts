@@ -0,0 +1,152 @@
+// transaction-history.component.ts
+import {
+  Component,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { SplitLine, Transaction, TransactionFieldChange, TransactionHistoryEntry } from '../models/transaction.model';
+import { Account } from '../models/account.model';
+import { Payee } from '../models/payee.model';
+import { TransactionService } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { AuthService } from '../auth/auth';
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  originalAmount: 'Amount paid',
+  type: 'Type',
+  category: 'Category',
+  description: 'Description',
+  date: 'Date',
+  accountId: 'Account',
+  toAccountId: 'To account',
+  payeeId: 'Payee',
+  splits: 'Split',
+  tags: 'Tags',
+  attachments: 'Attachments'
+};
+
+const ACTION_LABELS: Record<TransactionHistoryEntry['action'], string> = {
+  created: 'created this transaction',
+  updated: 'edited',
+  deleted: 'moved it to the trash',
+  restored: 'restored it from the trash'
+};
+
+@Component({
+  selector: 'app-transaction-history',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './transaction-history.component.html',
+  styleUrls: ['./transaction-history.component.scss']
+})
+export class TransactionHistoryComponent implements OnChanges, OnDestroy {
+  @Input() transaction: Transaction | null = null;
+  // For showing names instead of ids
+  @Input() accounts: Account[] = [];
+  @Input() payees: Payee[] = [];
+  @Output() closed = new EventEmitter<void>();
+
+  entries: TransactionHistoryEntry[] = [];
+  isLoading = false;
+
+  private loadSub: Subscription | null = null;
+
+  constructor(
+    private transactionService: TransactionService,
+    private settingsService: SettingsService,
+    private authService: AuthService
+  ) { }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['transaction']) {
+      this.load();
+    }
+  }
+
+  ngOnDestroy() {
+    this.loadSub?.unsubscribe();
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    if (event.key === 'Escape') {
+      this.closed.emit();
+    }
+  }
+
+  load() {
+    this.loadSub?.unsubscribe();
+    this.entries = [];
+    if (!this.transaction) return;
+
+    this.isLoading = true;
+    this.loadSub = this.transactionService.getTransactionHistory(this.transaction.id).subscribe(entries => {
+      this.entries = entries;
+      this.isLoading = false;
+    });
+  }
+
+  getAuthor(entry: TransactionHistoryEntry): string {
+    return entry.changedBy.id && entry.changedBy.id === this.authService.getCurrentUser()?.id
+      ? 'You'
+      : entry.changedBy.username;
+  }
+
+  getActionLabel(entry: TransactionHistoryEntry): string {
+    return ACTION_LABELS[entry.action];
+  }
+
+  getFieldLabel(change: TransactionFieldChange): string {
+    return FIELD_LABELS[change.field] ?? change.field;
+  }
+
+  /**
+   * A stored value as the table would show it: amounts in the currency,
+   * dates in the date format, ids as account and payee names
+   */
+  describeValue(field: string, value: unknown): string {
+    if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return '—';
+    }
+
+    switch (field) {
+      case 'amount':
+        return this.settingsService.formatCurrency(Number(value));
+      case 'date':
+        return this.settingsService.formatDate(String(value));
+      case 'accountId':
+      case 'toAccountId':
+        return this.accounts.find(account => account.id === String(value))?.name ?? 'Deleted account';
+      case 'payeeId':
+        return this.payees.find(payee => payee.id === String(value))?.name ?? 'Deleted payee';
+      case 'tags':
+        return Array.isArray(value) ? value.map(tag => `#${tag}`).join(' ') : String(value);
+      case 'splits':
+        return Array.isArray(value)
+          ? (value as SplitLine[]).map(line => `${line.category} ${this.settingsService.formatCurrency(line.amount)}`).join(' · ')
+          : String(value);
+      case 'attachments':
+        return Array.isArray(value) ? `${value.length} file(s)` : String(value);
+      default:
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  }
+
+  formatTimestamp(date: Date): string {
+    const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `${this.settingsService.formatDate(date)} ${time}`;
+  }
+
+  trackEntry(_: number, entry: TransactionHistoryEntry): string {
+    return entry.id;
+  }
+}
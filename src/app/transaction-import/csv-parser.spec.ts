@@ -0,0 +1,41 @@
+import { detectDelimiter, parseAmount, parseCsv, parseCsvDate } from './csv-parser';
+
+describe('csv-parser', () => {
+  it('should detect common delimiters', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',');
+    expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\tc')).toBe('\t');
+  });
+
+  it('should parse quoted cells, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsv('date,description,amount\r\n2026-01-02,"Rent, January",-800\r\n2026-01-03,"He said ""hi""",5\r\n\r\n');
+    expect(rows).toEqual([
+      ['date', 'description', 'amount'],
+      ['2026-01-02', 'Rent, January', '-800'],
+      ['2026-01-03', 'He said "hi"', '5']
+    ]);
+  });
+
+  it('should keep line breaks inside quoted cells', () => {
+    expect(parseCsv('a,b\n"line 1\nline 2",x')).toEqual([['a', 'b'], ['line 1\nline 2', 'x']]);
+  });
+
+  it('should parse bank amount formats', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56', ',')).toBe(1234.56);
+    expect(parseAmount('(45.00)')).toBe(-45);
+    expect(parseAmount('-12 TND')).toBe(-12);
+    expect(parseAmount('$ 9.99')).toBe(9.99);
+    expect(parseAmount('12.00-')).toBe(-12);
+    expect(parseAmount('')).toBeNaN();
+    expect(parseAmount('n/a')).toBeNaN();
+  });
+
+  it('should parse dates in the selected format and reject impossible ones', () => {
+    expect(parseCsvDate('2026-05-03', 'YYYY-MM-DD')).toEqual(new Date(2026, 4, 3));
+    expect(parseCsvDate('03/05/2026', 'DD/MM/YYYY')).toEqual(new Date(2026, 4, 3));
+    expect(parseCsvDate('05/03/26', 'MM/DD/YYYY')).toEqual(new Date(2026, 4, 3));
+    expect(parseCsvDate('31/02/2026', 'DD/MM/YYYY')).toBeNull();
+    expect(parseCsvDate('yesterday', 'YYYY-MM-DD')).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+// transaction-import/csv-parser.ts
+
+/**
+ * Guess the delimiter of a CSV export by counting candidates on the first line
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t', '|'];
+
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings).
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(c => c.trim()))
+    .filter(cells => cells.some(c => c !== ''));
+}
+
+/**
+ * Parse a bank-formatted amount such as "1,234.56", "1.234,56", "(45.00)" or "-12 TND".
+ * Returns NaN when the cell holds no number.
+ */
+export function parseAmount(value: string, decimalSeparator: '.' | ',' = '.'): number {
+  if (!value) return NaN;
+
+  let cleaned = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  // Keep digits, separators and signs only (drops currency symbols and spaces)
+  cleaned = cleaned.replace(/[^\d.,+-]/g, '');
+
+  if (cleaned.endsWith('-')) {
+    negative = !negative;
+    cleaned = cleaned.slice(0, -1);
+  }
+
+  if (decimalSeparator === ',') {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  if (!/\d/.test(cleaned)) return NaN;
+
+  const amount = Number(cleaned);
+  if (isNaN(amount)) return NaN;
+  return negative ? -amount : amount;
+}
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/**
+ * Parse a date cell using the format picked in the mapping step.
+ * Accepts "/", "-" and "." as separators. Returns null when invalid.
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): Date | null {
+  const parts = value.trim().split(/[\s T]/)[0].split(/[/.-]/).map(p => parseInt(p, 10));
+  if (parts.length !== 3 || parts.some(p => isNaN(p))) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts;
+      break;
+    case 'DD/MM/YYYY':
+      [day, month, year] = parts;
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts;
+      break;
+  }
+
+  if (year < 100) year += 2000;
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
@@ -0,0 +1,234 @@
+import { isOfx, ofxTransactionToDraft, parseOfx } from './ofx-parser';
+
+// OFX 1.02 SGML, US bank: signed amounts, unclosed leaf elements
+const SGML_BANK_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<SIGNONMSGSRSV1>
+<SONRS>
+<STATUS>
+<CODE>0
+<SEVERITY>INFO
+</STATUS>
+<DTSERVER>20260505120000
+<LANGUAGE>ENG
+</SONRS>
+</SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000248
+<ACCTID>0001234567
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260501
+<DTEND>20260505
+<STMTTRN>
+<TRNTYPE>POS
+<DTPOSTED>20260502120000[-5:EST]
+<TRNAMT>-42.17
+<FITID>2026050201
+<NAME>WHOLE FOODS MKT #10234
+<MEMO>Groceries
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DIRECTDEP
+<DTPOSTED>20260503
+<TRNAMT>2500.00
+<FITID>2026050302
+<NAME>ACME CORP PAYROLL
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20260504
+<TRNAMT>-800.00
+<FITID>2026050403
+<CHECKNUM>1042
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>1657.83
+<DTASOF>20260505
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x XML with processing instructions and closed leaves
+const XML_BANK_STATEMENT = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <BANKMSGSRSV1>
+    <STMTTRNRS>
+      <STMTRS>
+        <CURDEF>EUR</CURDEF>
+        <BANKACCTFROM>
+          <BANKID>30003</BANKID>
+          <ACCTID>FR7630003000</ACCTID>
+          <ACCTTYPE>SAVINGS</ACCTTYPE>
+        </BANKACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>INT</TRNTYPE>
+            <DTPOSTED>20260430000000.000[+1:CET]</DTPOSTED>
+            <TRNAMT>3.21</TRNAMT>
+            <FITID>INT-2026-04</FITID>
+            <NAME>Interest &amp; bonus</NAME>
+          </STMTTRN>
+          <STMTTRN>
+            <TRNTYPE>XFER</TRNTYPE>
+            <DTPOSTED>20260502</DTPOSTED>
+            <DTUSER>20260501</DTUSER>
+            <TRNAMT>-150.00</TRNAMT>
+            <FITID>XF-88</FITID>
+            <PAYEE>
+              <NAME>Landlord SARL</NAME>
+            </PAYEE>
+            <MEMO>Rent May</MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </STMTRS>
+    </STMTTRNRS>
+  </BANKMSGSRSV1>
+</OFX>
+`;
+
+// Quicken QFX credit card statement (Intuit extension tags)
+const QFX_CREDIT_CARD = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20260510<LANGUAGE>ENG<INTU.BID>3101</SONRS></SIGNONMSGSRSV1>
+<CREDITCARDMSGSRSV1><CCSTMTTRNRS><TRNUID>0<CCSTMTRS><CURDEF>USD<CCACCTFROM><ACCTID>4111XXXXXXXX1111</CCACCTFROM>
+<BANKTRANLIST><DTSTART>20260501<DTEND>20260510
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260506<TRNAMT>-15.99<FITID>320260506001<NAME>NETFLIX.COM</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260508<TRNAMT>200.00<FITID>320260508002<NAME>PAYMENT THANK YOU</STMTTRN>
+</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+// European SGML dialect: comma decimals, unsigned debits, CRLF line endings
+const EU_UNSIGNED_STATEMENT = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  '',
+  '<OFX>',
+  '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+  '<CURDEF>TND',
+  '<BANKACCTFROM><BANKID>08<ACCTID>0812345<ACCTTYPE>CHECKING</BANKACCTFROM>',
+  '<BANKTRANLIST>',
+  '<STMTTRN>',
+  '<TRNTYPE>DEBIT',
+  '<DTPOSTED>20260315',
+  '<TRNAMT>35,400',
+  '<FITID>TN-001',
+  '<NAME>CARREFOUR LA MARSA',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>DEP',
+  '<DTPOSTED>20260316',
+  '<TRNAMT>1200,000',
+  '<FITID>TN-002',
+  '<NAME>VIREMENT SALAIRE',
+  '</STMTTRN>',
+  '</BANKTRANLIST>',
+  '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>'
+].join('\r\n');
+
+describe('ofx-parser', () => {
+  it('should recognise OFX and QFX headers', () => {
+    expect(isOfx(SGML_BANK_STATEMENT)).toBe(true);
+    expect(isOfx(XML_BANK_STATEMENT)).toBe(true);
+    expect(isOfx('date,amount\n2026-01-01,5')).toBe(false);
+  });
+
+  it('should parse an OFX 1.x SGML bank statement', () => {
+    const [statement] = parseOfx(SGML_BANK_STATEMENT);
+
+    expect(statement.accountType).toBe('bank');
+    expect(statement.accountId).toBe('0001234567');
+    expect(statement.currency).toBe('USD');
+    expect(statement.transactions.length).toBe(3);
+    expect(statement.transactions[0]).toEqual({
+      fitId: '2026050201',
+      trnType: 'POS',
+      amount: -42.17,
+      date: new Date(2026, 4, 2),
+      name: 'WHOLE FOODS MKT #10234',
+      memo: 'Groceries'
+    });
+    expect(statement.transactions[2].checkNumber).toBe('1042');
+  });
+
+  it('should parse an OFX 2.x XML statement with PAYEE aggregates and entities', () => {
+    const [statement] = parseOfx(XML_BANK_STATEMENT);
+
+    expect(statement.currency).toBe('EUR');
+    expect(statement.transactions[0].name).toBe('Interest & bonus');
+    expect(statement.transactions[0].date).toEqual(new Date(2026, 3, 30));
+    expect(statement.transactions[1].name).toBe('Landlord SARL');
+    // DTUSER (when the payment was made) wins over DTPOSTED
+    expect(statement.transactions[1].date).toEqual(new Date(2026, 4, 1));
+  });
+
+  it('should parse a QFX credit card statement on a single line per transaction', () => {
+    const [statement] = parseOfx(QFX_CREDIT_CARD);
+
+    expect(statement.accountType).toBe('creditcard');
+    expect(statement.accountId).toBe('4111XXXXXXXX1111');
+    expect(statement.transactions.map(t => t.fitId)).toEqual(['320260506001', '320260508002']);
+    expect(statement.transactions[0].amount).toBe(-15.99);
+  });
+
+  it('should parse comma decimals and unsigned debits', () => {
+    const [statement] = parseOfx(EU_UNSIGNED_STATEMENT);
+
+    expect(statement.currency).toBe('TND');
+    expect(statement.transactions[0].amount).toBe(35.4);
+    expect(statement.transactions[1].amount).toBe(1200);
+  });
+
+  it('should turn STMTTRN into drafts using TRNAMT sign and TRNTYPE', () => {
+    const bank = parseOfx(SGML_BANK_STATEMENT)[0].transactions.map(ofxTransactionToDraft);
+    expect(bank[0]).toEqual({
+      amount: 42.17,
+      type: 'expense',
+      category: '',
+      description: 'WHOLE FOODS MKT #10234 · Groceries',
+      date: new Date(2026, 4, 2),
+      externalId: '2026050201'
+    });
+    expect(bank[1].type).toBe('revenue');
+    expect(bank[2].description).toBe('Check #1042');
+
+    const unsigned = parseOfx(EU_UNSIGNED_STATEMENT)[0].transactions.map(ofxTransactionToDraft);
+    expect(unsigned[0].type).toBe('expense');
+    expect(unsigned[0].amount).toBe(35.4);
+    expect(unsigned[1].type).toBe('revenue');
+
+    const card = parseOfx(QFX_CREDIT_CARD)[0].transactions.map(ofxTransactionToDraft);
+    expect(card.map(d => d.type)).toEqual(['expense', 'revenue']);
+  });
+
+  it('should reject documents without an OFX root or statement', () => {
+    expect(() => parseOfx('date,amount')).toThrowError(/OFX/);
+    expect(() => parseOfx('<OFX><SIGNONMSGSRSV1></SIGNONMSGSRSV1></OFX>')).toThrowError(/No bank or credit card statement/);
+  });
+});
@@ -0,0 +1,175 @@
+// transaction-import/ofx-parser.ts
+import { TransactionDraft } from '../models/transaction.model';
+
+export interface OfxTransaction {
+  fitId: string;
+  trnType: string;
+  amount: number;
+  date: Date;
+  name: string;
+  memo: string;
+  checkNumber?: string;
+}
+
+export interface OfxStatement {
+  accountId: string;
+  accountType: 'bank' | 'creditcard';
+  currency: string;
+  transactions: OfxTransaction[];
+}
+
+// TRNTYPE values that always move money out of the account. Some banks send
+// these with positive TRNAMT, so the type is used when the sign says "in".
+const EXPENSE_TRN_TYPES = [
+  'DEBIT', 'FEE', 'SRVCHG', 'ATM', 'POS', 'CHECK', 'PAYMENT', 'CASH', 'DIRECTDEBIT', 'REPEATPMT'
+];
+
+/**
+ * Check whether a file looks like an OFX/QFX statement (either version)
+ */
+export function isOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+/**
+ * Parse an OFX 1.x (SGML) or OFX 2.x (XML) document into its statements.
+ * Works on both dialects by reading leaf values up to the next tag or line end,
+ * since SGML leaves have no closing tags while aggregates are always closed.
+ */
+export function parseOfx(text: string): OfxStatement[] {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('Not an OFX document: <OFX> root element is missing');
+  }
+  const body = text.slice(start);
+
+  const statements: OfxStatement[] = [];
+  for (const block of findAggregates(body, 'STMTRS')) {
+    statements.push(parseStatement(block, 'bank'));
+  }
+  for (const block of findAggregates(body, 'CCSTMTRS')) {
+    statements.push(parseStatement(block, 'creditcard'));
+  }
+
+  if (statements.length === 0) {
+    throw new Error('No bank or credit card statement found in OFX document');
+  }
+  return statements;
+}
+
+/**
+ * Turn a parsed OFX transaction into a draft for the review step.
+ * A negative amount is always an expense; a positive one is an expense only
+ * when the TRNTYPE says money went out.
+ */
+export function ofxTransactionToDraft(transaction: OfxTransaction): TransactionDraft {
+  const isExpense = transaction.amount < 0 ||
+    EXPENSE_TRN_TYPES.includes(transaction.trnType.toUpperCase());
+
+  return {
+    amount: Math.abs(transaction.amount),
+    type: isExpense ? 'expense' : 'revenue',
+    category: '',
+    description: buildDescription(transaction),
+    date: transaction.date,
+    externalId: transaction.fitId
+  };
+}
+
+function parseStatement(block: string, accountType: 'bank' | 'creditcard'): OfxStatement {
+  const accountBlock = findAggregates(block, accountType === 'bank' ? 'BANKACCTFROM' : 'CCACCTFROM')[0] ?? '';
+
+  return {
+    accountId: readLeaf(accountBlock, 'ACCTID'),
+    accountType,
+    currency: readLeaf(block, 'CURDEF'),
+    transactions: findAggregates(block, 'STMTTRN').map(parseTransaction)
+  };
+}
+
+function parseTransaction(block: string): OfxTransaction {
+  // PAYEE may be an aggregate holding NAME instead of a plain NAME leaf
+  const payeeBlock = findAggregates(block, 'PAYEE')[0];
+  const name = readLeaf(block, 'NAME') || (payeeBlock ? readLeaf(payeeBlock, 'NAME') : '');
+  const date = parseOfxDate(readLeaf(block, 'DTUSER')) ?? parseOfxDate(readLeaf(block, 'DTPOSTED'));
+  const amount = parseOfxAmount(readLeaf(block, 'TRNAMT'));
+  const fitId = readLeaf(block, 'FITID');
+
+  if (!fitId) {
+    throw new Error('STMTTRN without FITID');
+  }
+  if (!date) {
+    throw new Error(`Transaction ${fitId} has an invalid DTPOSTED`);
+  }
+  if (isNaN(amount)) {
+    throw new Error(`Transaction ${fitId} has an invalid TRNAMT`);
+  }
+
+  return {
+    fitId,
+    trnType: readLeaf(block, 'TRNTYPE').toUpperCase() || 'OTHER',
+    amount,
+    date,
+    name,
+    memo: readLeaf(block, 'MEMO'),
+    ...(readLeaf(block, 'CHECKNUM') && { checkNumber: readLeaf(block, 'CHECKNUM') })
+  };
+}
+
+function findAggregates(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(text.matchAll(pattern), match => match[1]);
+}
+
+function readLeaf(text: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(text);
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]. Only the calendar date is
+ * kept so a statement line never moves to another day because of time zones.
+ */
+function parseOfxDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+/**
+ * TRNAMT is "-12.50" in the spec, but European banks often send "-12,50"
+ */
+function parseOfxAmount(value: string): number {
+  const normalized = value.replace(/\s/g, '').replace(',', '.');
+  if (!/^[+-]?\d*\.?\d+$/.test(normalized)) return NaN;
+  return Number(normalized);
+}
+
+function buildDescription(transaction: OfxTransaction): string {
+  const { name, memo, checkNumber } = transaction;
+  let description = name || memo;
+
+  if (name && memo && !name.toLowerCase().includes(memo.toLowerCase())) {
+    description = `${name} · ${memo}`;
+  }
+  if (!description && checkNumber) {
+    description = `Check #${checkNumber}`;
+  }
+  return description;
+}
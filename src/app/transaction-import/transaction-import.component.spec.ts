@@ -0,0 +1,115 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TransactionImportComponent } from './transaction-import.component';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+
+describe('TransactionImportComponent', () => {
+  let component: TransactionImportComponent;
+  let fixture: ComponentFixture<TransactionImportComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TransactionImportComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TransactionImportComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should map debit/credit columns to expense and revenue drafts', () => {
+    component.categories = { expense: ['Food'], revenue: ['Salary'] };
+    component.loadCsv('Date;Label;Debit;Credit;Category\n03/05/2026;Market;12,50;;food\n04/05/2026;Pay;;2 500,00;Salary\n');
+    component.dateFormat = 'DD/MM/YYYY';
+    component.decimalSeparator = ',';
+
+    expect(component.signConvention).toBe('debitCredit');
+
+    component.buildPreview();
+
+    expect(component.previewRows.length).toBe(2);
+    expect(component.previewRows[0].draft).toEqual(expect.objectContaining({
+      type: 'expense', amount: 12.5, category: 'Food', description: 'Market'
+    }));
+    expect(component.previewRows[1].draft).toEqual(expect.objectContaining({
+      type: 'revenue', amount: 2500, category: 'Salary'
+    }));
+    expect(component.getValidCount()).toBe(2);
+  });
+
+  it('should flag rows with invalid amounts or dates', () => {
+    component.categories = { expense: ['Food'], revenue: ['Salary'] };
+    component.loadCsv('date,description,amount,category\n2026-05-01,Coffee,-3.20,Food\n2026-13-01,Bad date,-1,Food\n2026-05-02,No amount,,Food\n');
+    component.buildPreview();
+
+    expect(component.previewRows[0].errors).toEqual([]);
+    expect(component.previewRows[0].draft.type).toBe('expense');
+    expect(component.previewRows[1].errors.length).toBe(1);
+    expect(component.previewRows[2].errors).toContain('Amount is missing or not a number');
+    expect(component.getSelectedRows().length).toBe(1);
+  });
+
+  it('should send OFX drafts to review and flag FITIDs that were already imported', () => {
+    component.categories = { expense: ['Food'], revenue: ['Salary'] };
+    component.existingTransactions = [{
+      id: '1', amount: 5, type: 'expense', category: 'Food', description: 'Old',
+      externalId: 'A1', tags: [], createdAt: new Date(), updatedAt: new Date()
+    }];
+    component.defaultExpenseCategory = 'Food';
+    component.loadOfx('<OFX><BANKMSGSRSV1><STMTRS><CURDEF>USD<BANKTRANLIST>' +
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260501<TRNAMT>-5<FITID>A1<NAME>Old</STMTTRN>' +
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260502<TRNAMT>-7<FITID>A2<NAME>New</STMTTRN>' +
+      '</BANKTRANLIST></STMTRS></BANKMSGSRSV1></OFX>');
+
+    expect(component.step).toBe('preview');
+    expect(component.previewRows[0].errors).toContain('Already imported (ID A1)');
+    expect(component.previewRows[1].errors).toEqual([]);
+    expect(component.previewRows[1].draft.category).toBe('Food');
+    expect(component.getSelectedRows().map(r => r.draft.externalId)).toEqual(['A2']);
+  });
+
+  it('should warn about likely duplicates and leave them unselected', () => {
+    component.categories = { expense: ['Food'], revenue: ['Salary'] };
+    component.existingTransactions = [{
+      id: '1', amount: 42.1, type: 'expense', category: 'Food', description: 'Grocery Store',
+      tags: [], createdAt: new Date(2026, 4, 1), updatedAt: new Date(2026, 4, 1)
+    }];
+    component.loadCsv('date,description,amount,category\n2026-05-02,GROCERY STORE #12,-42.10,Food\n2026-05-02,Cinema,-12,Food\n');
+    component.buildPreview();
+
+    expect(component.previewRows[0].warnings[0]).toContain('Possible duplicate of "Grocery Store"');
+    expect(component.previewRows[0].include).toBe(false);
+    expect(component.previewRows[1].warnings).toEqual([]);
+    expect(component.getDuplicateCount()).toBe(1);
+
+    component.previewRows[0].include = true;
+    expect(component.getSelectedRows().length).toBe(2);
+  });
+
+  it('should let categorization rules beat the default categories', () => {
+    const ruleService = TestBed.inject(CategorizationRuleService);
+    const rule = ruleService.add({
+      name: 'Rides',
+      conditions: { descriptionMatch: 'contains', descriptionPattern: 'uber' },
+      actions: { category: 'Transport', tags: ['rides'] },
+      enabled: true
+    });
+    component.categories = { expense: ['Food', 'Transport'], revenue: ['Salary'] };
+    component.defaultExpenseCategory = 'Food';
+
+    component.loadOfx('<OFX><BANKMSGSRSV1><STMTRS><CURDEF>USD<BANKTRANLIST>' +
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260501<TRNAMT>-14<FITID>B1<NAME>UBER TRIP</STMTTRN>' +
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260502<TRNAMT>-7<FITID>B2<NAME>Bakery</STMTTRN>' +
+      '</BANKTRANLIST></STMTRS></BANKMSGSRSV1></OFX>');
+    ruleService.remove(rule.id);
+
+    expect(component.previewRows[0].draft).toEqual(expect.objectContaining({ category: 'Transport', tags: ['rides'] }));
+    expect(component.previewRows[0].ruleNames).toEqual(['Rides']);
+    expect(component.previewRows[1].draft.category).toBe('Food');
+  });
+});
@@ -0,0 +1,511 @@
+// transaction-import.component.ts
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { from, of, Subscription } from 'rxjs';
+import { catchError, concatMap, map } from 'rxjs/operators';
+import { TransactionService, getTransactionDate } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { Transaction, TransactionDraft } from '../models/transaction.model';
+import { CsvDateFormat, detectDelimiter, parseAmount, parseCsv, parseCsvDate } from './csv-parser';
+import { isOfx, ofxTransactionToDraft, parseOfx } from './ofx-parser';
+import { findLikelyDuplicates } from '../duplicate-finder/duplicate-detector';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'summary';
+
+type ImportSource = 'csv' | 'ofx';
+
+type MappedField = 'date' | 'description' | 'category' | 'type' | 'amount' | 'debit' | 'credit';
+
+/**
+ * How the statement encodes money direction:
+ * - signed: one amount column, the sign decides expense vs revenue
+ * - debitCredit: separate debit (expense) and credit (revenue) columns
+ */
+type SignConvention = 'signed' | 'debitCredit';
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  draft: TransactionDraft;
+  // Errors from reading the file; validation errors are recomputed on edit
+  parseErrors: string[];
+  errors: string[];
+  // Likely duplicates of existing transactions; importable, but not pre-selected
+  warnings: string[];
+  include: boolean;
+  categoryEdited: boolean;
+  // Categorization rules that matched; a category they set beats the defaults
+  ruleNames: string[];
+  categoryFromRule: boolean;
+}
+
+export interface ImportFailure {
+  rowNumber: number;
+  description: string;
+  message: string;
+}
+
+// Header names commonly found in bank exports, used to pre-fill the mapping
+const HEADER_HINTS: Record<MappedField, RegExp> = {
+  date: /^(date|booking date|transaction date|value date|posted|posting date)$/i,
+  description: /^(description|details|memo|label|libell[eé]|narrative|payee|name)$/i,
+  category: /^(category|cat[eé]gorie)$/i,
+  type: /^(type|transaction type|direction)$/i,
+  amount: /^(amount|montant|value|sum)$/i,
+  debit: /^(debit|withdrawal|withdrawals|money out|paid out|d[eé]bit)$/i,
+  credit: /^(credit|deposit|deposits|money in|paid in|cr[eé]dit)$/i
+};
+
+@Component({
+  selector: 'app-transaction-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './transaction-import.component.html',
+  styleUrls: ['./transaction-import.component.scss']
+})
+export class TransactionImportComponent implements OnDestroy {
+  @Input() categories: { expense: string[]; revenue: string[] } = { expense: [], revenue: [] };
+  @Input() existingTransactions: Transaction[] = [];
+  @Output() imported = new EventEmitter<Transaction[]>();
+  @Output() closed = new EventEmitter<void>();
+
+  step: ImportStep = 'upload';
+  source: ImportSource = 'csv';
+
+  // Upload
+  fileName = '';
+  fileError = '';
+  hasHeaderRow = true;
+  private rawRows: string[][] = [];
+
+  // Mapping
+  headers: string[] = [];
+  mapping: Record<MappedField, number> = {
+    date: -1,
+    description: -1,
+    category: -1,
+    type: -1,
+    amount: -1,
+    debit: -1,
+    credit: -1
+  };
+  signConvention: SignConvention = 'signed';
+  negativeIsExpense = true;
+  dateFormat: CsvDateFormat = 'YYYY-MM-DD';
+  decimalSeparator: '.' | ',' = '.';
+  defaultExpenseCategory = '';
+  defaultRevenueCategory = '';
+
+  dateFormats: CsvDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+  // Preview
+  previewRows: ImportPreviewRow[] = [];
+  showInvalidOnly = false;
+
+  // Import progress
+  progressDone = 0;
+  progressTotal = 0;
+  createdTransactions: Transaction[] = [];
+  failures: ImportFailure[] = [];
+  private importSubscription: Subscription | null = null;
+
+  constructor(
+    private transactionService: TransactionService,
+    private settingsService: SettingsService,
+    private ruleService: CategorizationRuleService
+  ) { }
+
+  ngOnDestroy() {
+    this.importSubscription?.unsubscribe();
+  }
+
+  // ===============================
+  // UPLOAD
+  // ===============================
+
+  onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.fileName = file.name;
+    this.fileError = '';
+
+    file.text().then(
+      text => /\.(ofx|qfx)$/i.test(file.name) || isOfx(text) ? this.loadOfx(text) : this.loadCsv(text),
+      () => this.fileError = 'Could not read the selected file.'
+    );
+  }
+
+  /**
+   * OFX/QFX statements carry typed fields, so they skip column mapping
+   * and go straight to the review step
+   */
+  loadOfx(text: string) {
+    let drafts: TransactionDraft[];
+    try {
+      drafts = parseOfx(text).flatMap(statement => statement.transactions.map(ofxTransactionToDraft));
+    } catch (error) {
+      this.fileError = (error as Error).message;
+      return;
+    }
+
+    if (drafts.length === 0) {
+      this.fileError = 'The statement does not contain any transactions.';
+      return;
+    }
+
+    this.source = 'ofx';
+    this.previewRows = drafts.map((draft, index) => ({
+      rowNumber: index + 1,
+      draft,
+      parseErrors: [],
+      errors: [],
+      warnings: [],
+      include: false,
+      categoryEdited: false,
+      ruleNames: [],
+      categoryFromRule: false
+    }));
+    this.previewRows.forEach(row => this.applyRules(row));
+    this.applyDefaultCategories();
+    this.step = 'preview';
+  }
+
+  loadCsv(text: string) {
+    this.source = 'csv';
+    const rows = parseCsv(text, detectDelimiter(text));
+    if (rows.length === 0) {
+      this.fileError = 'The file does not contain any rows.';
+      return;
+    }
+
+    this.rawRows = rows;
+    this.setupColumns();
+    this.step = 'mapping';
+  }
+
+  onHeaderRowToggle() {
+    this.setupColumns();
+  }
+
+  private setupColumns() {
+    const columnCount = Math.max(...this.rawRows.map(r => r.length));
+    this.headers = Array.from({ length: columnCount }, (_, i) =>
+      this.hasHeaderRow && this.rawRows[0][i] ? this.rawRows[0][i] : `Column ${i + 1}`
+    );
+
+    (Object.keys(this.mapping) as MappedField[]).forEach(field => {
+      this.mapping[field] = this.hasHeaderRow
+        ? this.headers.findIndex(h => HEADER_HINTS[field].test(h.trim()))
+        : -1;
+    });
+
+    this.signConvention = this.mapping.amount === -1 && (this.mapping.debit !== -1 || this.mapping.credit !== -1)
+      ? 'debitCredit'
+      : 'signed';
+  }
+
+  private get dataRows(): string[][] {
+    return this.hasHeaderRow ? this.rawRows.slice(1) : this.rawRows;
+  }
+
+  getSampleValue(column: number): string {
+    if (column < 0) return '';
+    return this.dataRows[0]?.[column] ?? '';
+  }
+
+  // ===============================
+  // MAPPING
+  // ===============================
+
+  getMappingErrors(): string[] {
+    const errors: string[] = [];
+    if (this.mapping.date === -1) errors.push('Map a date column.');
+    if (this.mapping.description === -1) errors.push('Map a description column.');
+
+    if (this.signConvention === 'signed' && this.mapping.amount === -1) {
+      errors.push('Map the amount column.');
+    }
+    if (this.signConvention === 'debitCredit' && this.mapping.debit === -1 && this.mapping.credit === -1) {
+      errors.push('Map a debit and/or credit column.');
+    }
+    if (this.mapping.category === -1 && (!this.defaultExpenseCategory || !this.defaultRevenueCategory)) {
+      errors.push('Map a category column or pick default categories.');
+    }
+    return errors;
+  }
+
+  buildPreview() {
+    if (this.getMappingErrors().length > 0) return;
+
+    const firstDataRow = this.hasHeaderRow ? 2 : 1;
+    this.previewRows = this.dataRows.map((cells, index) => this.mapRow(cells, index + firstDataRow));
+    this.previewRows.forEach(row => this.applyRules(row));
+    this.validateRows();
+    this.step = 'preview';
+  }
+
+  private mapRow(cells: string[], rowNumber: number): ImportPreviewRow {
+    const errors: string[] = [];
+    const cell = (field: MappedField) => this.mapping[field] === -1 ? '' : (cells[this.mapping[field]] ?? '');
+
+    // Amount and direction
+    let amount = NaN;
+    let type: 'expense' | 'revenue' = 'expense';
+
+    if (this.signConvention === 'signed') {
+      const signed = parseAmount(cell('amount'), this.decimalSeparator);
+      if (!isNaN(signed)) {
+        amount = Math.abs(signed);
+        type = (signed < 0) === this.negativeIsExpense ? 'expense' : 'revenue';
+      }
+    } else {
+      const debit = parseAmount(cell('debit'), this.decimalSeparator);
+      const credit = parseAmount(cell('credit'), this.decimalSeparator);
+      if (!isNaN(debit) && debit !== 0) {
+        amount = Math.abs(debit);
+        type = 'expense';
+      } else if (!isNaN(credit) && credit !== 0) {
+        amount = Math.abs(credit);
+        type = 'revenue';
+      }
+    }
+
+    // An explicit type column wins over the sign convention
+    const explicitType = this.parseType(cell('type'));
+    if (explicitType) {
+      type = explicitType;
+    }
+
+    if (isNaN(amount)) {
+      errors.push('Amount is missing or not a number');
+    }
+
+    const date = parseCsvDate(cell('date'), this.dateFormat);
+    if (!date) {
+      errors.push(`Date "${cell('date')}" does not match ${this.dateFormat}`);
+    }
+
+    return {
+      rowNumber,
+      draft: {
+        amount: isNaN(amount) ? 0 : amount,
+        type,
+        category: this.resolveCategory(cell('category'), type),
+        description: cell('description'),
+        ...(date && { date })
+      },
+      parseErrors: errors,
+      errors: [],
+      warnings: [],
+      include: false,
+      categoryEdited: false,
+      ruleNames: [],
+      categoryFromRule: false
+    };
+  }
+
+  /**
+   * Let the categorization rules set category, tags and description
+   */
+  private applyRules(row: ImportPreviewRow) {
+    const { changes, ruleNames } = this.ruleService.apply(row.draft);
+    row.draft = { ...row.draft, ...changes };
+    row.ruleNames = ruleNames;
+    row.categoryFromRule = changes.category !== undefined;
+  }
+
+  private parseType(value: string): 'expense' | 'revenue' | null {
+    const normalized = value.trim().toLowerCase();
+    if (['expense', 'debit', 'dr', 'withdrawal', 'out'].includes(normalized)) return 'expense';
+    if (['revenue', 'income', 'credit', 'cr', 'deposit', 'in'].includes(normalized)) return 'revenue';
+    return null;
+  }
+
+  /**
+   * Match the CSV category against known categories (case-insensitive),
+   * keep unknown ones as-is and fall back to the default for the type
+   */
+  private resolveCategory(value: string, type: 'expense' | 'revenue'): string {
+    const known = this.categories[type].find(c => c.toLowerCase() === value.trim().toLowerCase());
+    if (known) return known;
+    if (value.trim()) return value.trim();
+    return type === 'expense' ? this.defaultExpenseCategory : this.defaultRevenueCategory;
+  }
+
+  // ===============================
+  // PREVIEW
+  // ===============================
+
+  /**
+   * Recompute validation for every row and pre-select the valid ones that
+   * do not look like duplicates
+   */
+  validateRows() {
+    const knownIds = new Set(this.existingTransactions.map(t => t.externalId).filter(id => !!id));
+
+    this.previewRows.forEach(row => {
+      row.errors = [...row.parseErrors, ...this.validateDraft(row.draft)];
+
+      const externalId = row.draft.externalId;
+      if (externalId) {
+        if (knownIds.has(externalId)) {
+          row.errors.push(`Already imported (ID ${externalId})`);
+        }
+        knownIds.add(externalId);
+      }
+
+      this.checkDuplicates(row);
+    });
+  }
+
+  private checkDuplicates(row: ImportPreviewRow) {
+    const [match] = row.errors.length === 0 ? findLikelyDuplicates(row.draft, this.existingTransactions) : [];
+    row.warnings = match
+      ? [`Possible duplicate of "${match.transaction.description}" on ${this.formatDate(getTransactionDate(match.transaction))} (${Math.round(match.score * 100)}% match)`]
+      : [];
+    row.include = row.errors.length === 0 && row.warnings.length === 0;
+  }
+
+  private validateDraft(draft: TransactionDraft): string[] {
+    const errors: string[] = [];
+    if (draft.amount === 0) errors.push('Amount is zero');
+    if (!draft.description) errors.push('Description is empty');
+    if (!draft.category) errors.push('No category');
+    return errors;
+  }
+
+  onRowCategoryChange(row: ImportPreviewRow) {
+    row.categoryEdited = true;
+    row.errors = [...row.parseErrors, ...this.validateDraft(row.draft)];
+    this.checkDuplicates(row);
+  }
+
+  /**
+   * Fill the default categories into rows the user or a rule has not
+   * categorized
+   */
+  applyDefaultCategories() {
+    this.previewRows
+      .filter(row => !row.categoryEdited && !row.categoryFromRule)
+      .forEach(row => {
+        row.draft.category = row.draft.type === 'expense' ? this.defaultExpenseCategory : this.defaultRevenueCategory;
+      });
+    this.validateRows();
+  }
+
+  getRowCategories(row: ImportPreviewRow): string[] {
+    // Statements only yield expenses and revenue
+    const known = row.draft.type === 'revenue' ? this.categories.revenue : this.categories.expense;
+    return row.draft.category && !known.includes(row.draft.category) ? [row.draft.category, ...known] : known;
+  }
+
+  getVisibleRows(): ImportPreviewRow[] {
+    return this.showInvalidOnly ? this.previewRows.filter(r => r.errors.length > 0) : this.previewRows;
+  }
+
+  getValidCount(): number {
+    return this.previewRows.filter(r => r.errors.length === 0).length;
+  }
+
+  getInvalidCount(): number {
+    return this.previewRows.length - this.getValidCount();
+  }
+
+  getDuplicateCount(): number {
+    return this.previewRows.filter(r => r.warnings.length > 0).length;
+  }
+
+  getSelectedRows(): ImportPreviewRow[] {
+    return this.previewRows.filter(r => r.include && r.errors.length === 0);
+  }
+
+  // ===============================
+  // COMMIT
+  // ===============================
+
+  startImport() {
+    const rows = this.getSelectedRows();
+    if (rows.length === 0) return;
+
+    this.step = 'importing';
+    this.progressDone = 0;
+    this.progressTotal = rows.length;
+    this.createdTransactions = [];
+    this.failures = [];
+
+    this.importSubscription = from(rows).pipe(
+      concatMap(row => {
+        const payload = { ...row.draft, source: row.draft.category };
+        return this.transactionService.addTransaction(payload).pipe(
+          map(transaction => ({ row, transaction, error: null as unknown })),
+          catchError(error => of({ row, transaction: null, error: error as unknown }))
+        );
+      })
+    ).subscribe({
+      next: ({ row, transaction, error }) => {
+        this.progressDone++;
+        if (transaction) {
+          this.createdTransactions.push(transaction);
+        } else {
+          this.failures.push({
+            rowNumber: row.rowNumber,
+            description: row.draft.description,
+            message: this.getErrorMessage(error)
+          });
+        }
+      },
+      complete: () => this.finishImport()
+    });
+  }
+
+  cancelImport() {
+    this.importSubscription?.unsubscribe();
+    this.importSubscription = null;
+    this.finishImport();
+  }
+
+  private finishImport() {
+    this.step = 'summary';
+    console.log(`📥 Import finished: ${this.createdTransactions.length} created, ${this.failures.length} failed`);
+    if (this.createdTransactions.length > 0) {
+      this.imported.emit(this.createdTransactions);
+    }
+  }
+
+  private getErrorMessage(error: unknown): string {
+    const err = error as { error?: { message?: string }; message?: string } | null;
+    return err?.error?.message || err?.message || 'Request failed';
+  }
+
+  getProgressPercentage(): number {
+    return this.progressTotal === 0 ? 0 : (this.progressDone / this.progressTotal) * 100;
+  }
+
+  // ===============================
+  // NAVIGATION
+  // ===============================
+
+  goToStep(step: ImportStep) {
+    this.step = step;
+  }
+
+  goBackFromPreview() {
+    this.goToStep(this.source === 'ofx' ? 'upload' : 'mapping');
+  }
+
+  close() {
+    if (this.step === 'importing') return;
+    this.closed.emit();
+  }
+
+  formatCurrency(amount: number): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+
+  formatDate(date: Date | string | undefined): string {
+    return date ? this.settingsService.formatDate(date) : '—';
+  }
+}
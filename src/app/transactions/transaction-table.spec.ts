@@ -0,0 +1,65 @@
+import { Transaction } from '../models/transaction.model';
+import {
+  formatSortParam,
+  getPeriodStart,
+  groupTransactions,
+  parseSortParam,
+  sortTransactions,
+  toggleSort
+} from './transaction-table';
+
+function transaction(id: string, changes: Partial<Transaction>): Transaction {
+  const day = new Date(2026, 4, 1);
+  return { id, amount: 10, type: 'expense', category: 'Food', description: id, tags: [], createdAt: day, updatedAt: day, ...changes };
+}
+
+describe('transaction table', () => {
+  const rows = [
+    transaction('a', { amount: 5, category: 'Transport', date: new Date(2026, 4, 4) }),
+    transaction('b', { amount: 20, category: 'Food', date: new Date(2026, 4, 12) }),
+    transaction('c', { amount: 5, category: 'Food', date: new Date(2026, 3, 30), type: 'revenue' }),
+    transaction('d', { amount: 12, category: 'Transport', date: new Date(2026, 4, 5) })
+  ];
+
+  it('should sort by several keys in turn', () => {
+    const sorted = sortTransactions(rows, [{ field: 'amount', direction: 'asc' }, { field: 'date', direction: 'desc' }]);
+    expect(sorted.map(t => t.id)).toEqual(['a', 'c', 'd', 'b']);
+
+    expect(sortTransactions(rows, [{ field: 'category', direction: 'asc' }, { field: 'amount', direction: 'desc' }]).map(t => t.id))
+      .toEqual(['b', 'c', 'd', 'a']);
+  });
+
+  it('should flip a leading column and add keys on shift-click', () => {
+    const byDate = toggleSort([], 'date', false);
+    expect(byDate).toEqual([{ field: 'date', direction: 'desc' }]);
+    expect(toggleSort(byDate, 'date', false)).toEqual([{ field: 'date', direction: 'asc' }]);
+
+    const multi = toggleSort(byDate, 'category', true);
+    expect(multi).toEqual([{ field: 'date', direction: 'desc' }, { field: 'category', direction: 'asc' }]);
+    expect(toggleSort(multi, 'category', true)[1].direction).toBe('desc');
+    expect(toggleSort(multi, 'amount', false)).toEqual([{ field: 'amount', direction: 'desc' }]);
+  });
+
+  it('should round-trip the sort order through a URL parameter', () => {
+    const sort = [{ field: 'date' as const, direction: 'desc' as const }, { field: 'category' as const, direction: 'asc' as const }];
+    expect(formatSortParam(sort)).toBe('-date,category');
+    expect(parseSortParam('-date,category')).toEqual(sort);
+    expect(parseSortParam(null)).toBeNull();
+    expect(parseSortParam('-payee')).toBeNull();
+    expect(parseSortParam('amount,-amount')).toBeNull();
+  });
+
+  it('should group by period and category', () => {
+    expect(getPeriodStart(new Date(2026, 4, 7), 'week')).toEqual(new Date(2026, 4, 4));
+    expect(getPeriodStart(new Date(2026, 4, 7), 'week', 0)).toEqual(new Date(2026, 4, 3));
+
+    const weeks = groupTransactions(rows, 'week');
+    expect(weeks.map(g => g.key)).toEqual(['2026-05-11', '2026-05-04', '2026-04-27']);
+    expect(weeks[1].transactions.map(t => t.id)).toEqual(['a', 'd']);
+
+    const months = groupTransactions(rows, 'month', [{ field: 'date', direction: 'asc' }]);
+    expect(months.map(g => g.key)).toEqual(['2026-04-01', '2026-05-01']);
+
+    expect(groupTransactions(rows, 'category').map(g => [g.key, g.transactions.length])).toEqual([['Food', 2], ['Transport', 2]]);
+  });
+});
@@ -0,0 +1,138 @@
+// transactions/transaction-table.ts
+import { Transaction, TransactionSort, TransactionSortField } from '../models/transaction.model';
+import { getTransactionDate, toDateKey } from '../services/transaction.service';
+
+export type TransactionGroupBy = 'none' | 'day' | 'week' | 'month' | 'category' | 'type';
+
+export interface TransactionGroup {
+  key: string;
+  // First day of the period, for day/week/month groups
+  start?: Date;
+  transactions: Transaction[];
+}
+
+export const DEFAULT_TRANSACTION_SORT: TransactionSort[] = [{ field: 'date', direction: 'desc' }];
+
+// Direction a column starts with when first clicked
+const DEFAULT_DIRECTIONS: Record<TransactionSortField, 'asc' | 'desc'> = {
+  date: 'desc',
+  amount: 'desc',
+  category: 'asc',
+  type: 'asc'
+};
+
+function compareField(a: Transaction, b: Transaction, field: TransactionSortField): number {
+  switch (field) {
+    case 'date':
+      return getTransactionDate(a).getTime() - getTransactionDate(b).getTime();
+    case 'amount':
+      return a.amount - b.amount;
+    case 'category':
+      return a.category.localeCompare(b.category);
+    case 'type':
+      return a.type.localeCompare(b.type);
+  }
+}
+
+/**
+ * Order by each key in turn; ties on every key keep their current order
+ */
+export function sortTransactions(transactions: Transaction[], sort: TransactionSort[]): Transaction[] {
+  return [...transactions].sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const result = compareField(a, b, field);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Sort after a click on a column header. A click sorts by that column alone
+ * (flipping it if it already leads); with `addKey` (shift-click) the column
+ * is added as an extra key, or flipped if it is one already.
+ */
+export function toggleSort(sort: TransactionSort[], field: TransactionSortField, addKey: boolean): TransactionSort[] {
+  const existing = sort.find(key => key.field === field);
+  const flipped = existing?.direction === 'asc' ? 'desc' : 'asc';
+
+  if (addKey) {
+    return existing
+      ? sort.map(key => key.field === field ? { field, direction: flipped } : key)
+      : [...sort, { field, direction: DEFAULT_DIRECTIONS[field] }];
+  }
+  return [{ field, direction: sort[0]?.field === field ? flipped : DEFAULT_DIRECTIONS[field] }];
+}
+
+/**
+ * Sort order as a URL parameter: keys most significant first, descending
+ * ones prefixed with '-' ("-date,category")
+ */
+export function formatSortParam(sort: TransactionSort[]): string {
+  return sort.map(key => `${key.direction === 'desc' ? '-' : ''}${key.field}`).join(',');
+}
+
+/**
+ * Sort order from a URL parameter; null when it is missing or names an
+ * unknown or repeated column
+ */
+export function parseSortParam(value: string | null): TransactionSort[] | null {
+  if (!value) return null;
+
+  const sort: TransactionSort[] = [];
+  for (const part of value.split(',')) {
+    const field = part.replace(/^-/, '');
+    if (!(field in DEFAULT_DIRECTIONS) || sort.some(key => key.field === field)) return null;
+    sort.push({ field: field as TransactionSortField, direction: part.startsWith('-') ? 'desc' : 'asc' });
+  }
+  return sort;
+}
+
+/**
+ * Start of the day, week or month a date falls in; weeks start on
+ * `weekStartsOn` (0 = Sunday, 1 = Monday...)
+ */
+export function getPeriodStart(date: Date, period: 'day' | 'week' | 'month', weekStartsOn = 1): Date {
+  if (period === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'week') {
+    day.setDate(day.getDate() - (day.getDay() - weekStartsOn + 7) % 7);
+  }
+  return day;
+}
+
+/**
+ * Split sorted transactions into groups, keeping their order inside each
+ * group. Date groups follow the date sort (newest first unless sorted
+ * oldest first); category and type groups are alphabetical.
+ */
+export function groupTransactions(
+  transactions: Transaction[],
+  groupBy: Exclude<TransactionGroupBy, 'none'>,
+  sort: TransactionSort[] = DEFAULT_TRANSACTION_SORT,
+  weekStartsOn = 1
+): TransactionGroup[] {
+  const groups = new Map<string, TransactionGroup>();
+
+  transactions.forEach(transaction => {
+    let key: string;
+    let start: Date | undefined;
+    if (groupBy === 'category' || groupBy === 'type') {
+      key = transaction[groupBy];
+    } else {
+      start = getPeriodStart(getTransactionDate(transaction), groupBy, weekStartsOn);
+      key = toDateKey(start);
+    }
+
+    const group = groups.get(key) ?? { key, ...(start && { start }), transactions: [] };
+    group.transactions.push(transaction);
+    groups.set(key, group);
+  });
+
+  const oldestFirst = sort.find(key => key.field === 'date')?.direction === 'asc';
+  return [...groups.values()].sort((a, b) => {
+    if (!a.start || !b.start) return a.key.localeCompare(b.key);
+    return oldestFirst ? a.key.localeCompare(b.key) : b.key.localeCompare(a.key);
+  });
+}
@@ -0,0 +1,120 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+
+import { TransactionsComponent } from './transactions.component';
+import { Transaction } from '../models/transaction.model';
+
+// Renders a multi-year history through the virtualized table and checks that
+// the DOM stays small and updates stay fast. Budgets are loose so the spec
+// holds on slow CI machines; a regression to rendering every row blows them.
+describe('TransactionsComponent (50k rows benchmark)', () => {
+  const ROW_COUNT = 50000;
+  const categories = ['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Healthcare'];
+
+  let component: TransactionsComponent;
+  let fixture: ComponentFixture<TransactionsComponent>;
+  let history: Transaction[];
+
+  const createHistory = (): Transaction[] => {
+    const start = new Date(2020, 0, 1).getTime();
+    return Array.from({ length: ROW_COUNT }, (_, i) => ({
+      id: `tx-${i}`,
+      amount: (i % 500) + 0.99,
+      type: i % 7 === 0 ? 'revenue' : 'expense',
+      category: i % 7 === 0 ? 'Salary' : categories[i % categories.length],
+      description: `Synthetic transaction ${i}`,
+      tags: i % 3 === 0 ? ['synthetic'] : [],
+      createdAt: new Date(start + i * 3600000),
+      updatedAt: new Date(start + i * 3600000)
+    }));
+  };
+
+  const time = (work: () => void): number => {
+    const started = performance.now();
+    work();
+    return performance.now() - started;
+  };
+
+  const renderedRows = (): HTMLElement[] =>
+    Array.from(fixture.nativeElement.querySelectorAll('.table-row'));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TransactionsComponent],
+      providers: [provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TransactionsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+    history = createHistory();
+  });
+
+  it('should render only the rows in view', () => {
+    const elapsed = time(() => {
+      component.filteredTransactions = history;
+      fixture.detectChanges();
+    });
+
+    expect(renderedRows().length).toBeGreaterThan(0);
+    expect(renderedRows().length).toBeLessThan(60);
+    expect(elapsed).toBeLessThan(1500);
+  });
+
+  it('should scroll smoothly through the history', () => {
+    component.filteredTransactions = history;
+    fixture.detectChanges();
+
+    // Three rows per frame, as a wheel or trackpad scroll would move
+    const frames = 200;
+    const elapsed = time(() => {
+      for (let frame = 1; frame <= frames; frame++) {
+        component.table!.scrollToIndex(30000 + frame * 3);
+        fixture.detectChanges();
+      }
+    });
+
+    expect(renderedRows()[component.table!.overscan].textContent).toContain(`Synthetic transaction ${30000 + frames * 3}`);
+    expect(elapsed / frames).toBeLessThan(50);
+  });
+
+  it('should jump deep into the history quickly', () => {
+    component.filteredTransactions = history;
+    fixture.detectChanges();
+
+    const elapsed = time(() => {
+      component.table!.scrollToIndex(45000);
+      fixture.detectChanges();
+    });
+
+    expect(renderedRows()[component.table!.overscan].textContent).toContain('Synthetic transaction 45000');
+    expect(elapsed).toBeLessThan(500);
+  });
+
+  it('should apply a filter over the full history quickly', () => {
+    component.filteredTransactions = history;
+    fixture.detectChanges();
+    component.table!.scrollToIndex(10000);
+    fixture.detectChanges();
+
+    // A structured query keeps the filtering in the browser, over the loaded history
+    component.transactions = history;
+    component.historyLoaded = true;
+    component.selectedCategory = 'Food';
+    component.selectedTag = 'synthetic';
+    component.searchTerm = 'amount>0';
+    component.searchQuery = { kind: 'amount', op: '>', value: 0 };
+
+    const elapsed = time(() => {
+      component.applyFilters();
+      fixture.detectChanges();
+    });
+
+    expect(component.filteredTransactions.length).toBe(history.filter(t => t.category === 'Food' && t.tags.includes('synthetic')).length);
+
+    expect(renderedRows().length).toBeLessThan(60);
+    expect(renderedRows().every(row => row.textContent!.includes('Food'))).toBe(true);
+    expect(elapsed).toBeLessThan(500);
+  });
+});
@@ -1,6 +1,9 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
 
 import { TransactionsComponent } from './transactions.component';
+import { Transaction } from '../models/transaction.model';
+import { ExchangeRateService } from '../services/exchange-rate.service';
 
 describe('TransactionsComponent', () => {
   let component: TransactionsComponent;
@@ -8,7 +11,8 @@ describe('TransactionsComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [TransactionsComponent]
+      imports: [TransactionsComponent],
+      providers: [provideRouter([])]
     })
     .compileComponents();
 
@@ -20,4 +24,164 @@ describe('TransactionsComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should restore filters, sort and page from the URL and write changes back', async () => {
+    const router = TestBed.inject(Router);
+    await router.navigateByUrl('/?category=Food&type=expense&from=2026-05-01&sort=amount,-date&page=2');
+
+    expect(component.selectedCategory).toBe('Food');
+    expect(component.selectedType).toBe('expense');
+    expect(component.dateRange).toEqual({ start: '2026-05-01', end: '' });
+    expect(component.sortOrder).toEqual([{ field: 'amount', direction: 'asc' }, { field: 'date', direction: 'desc' }]);
+    expect(component.page).toBe(2);
+
+    component.selectedType = 'all';
+    component.applyFilters();
+    await fixture.whenStable();
+    expect(router.parseUrl(router.url).queryParams).toEqual({ category: 'Food', from: '2026-05-01', sort: 'amount,-date' });
+
+    await router.navigateByUrl('/');
+    expect(component.getCurrentFilters().category).toBe('all');
+    expect(component.sortOrder).toEqual([{ field: 'date', direction: 'desc' }]);
+  });
+
+  it('should derive the page count from the server total', () => {
+    component.pageSize = 25;
+    component.totalCount = 51;
+
+    expect(component.getPageCount()).toBe(3);
+    component.page = 2;
+    expect(component.hasMorePages()).toBe(true);
+    component.page = 3;
+    expect(component.hasMorePages()).toBe(false);
+  });
+
+  it('should select ranges with shift-click and clear the selection on filter changes', () => {
+    const rows: Transaction[] = ['a', 'b', 'c', 'd', 'e'].map(id => ({
+      id, amount: 10, type: 'expense', category: 'Food', description: id, tags: [],
+      createdAt: new Date(), updatedAt: new Date()
+    }));
+    component.filteredTransactions = rows;
+    component.totalCount = 12;
+    const click = (shiftKey: boolean) => new MouseEvent('click', { shiftKey });
+
+    component.toggleSelection(rows[1], 1, click(false));
+    component.toggleSelection(rows[3], 3, click(true));
+    expect(component.getSelection().map(t => t.id)).toEqual(['b', 'c', 'd']);
+
+    component.toggleSelection(rows[2], 2, click(false));
+    expect(component.getSelection().map(t => t.id)).toEqual(['b', 'd']);
+
+    component.toggleAllLoaded();
+    expect(component.areAllLoadedSelected()).toBe(true);
+    expect(component.canSelectAllMatching()).toBe(true);
+
+    component.applyFilters();
+    expect(component.selectedTransactions.size).toBe(0);
+  });
+
+  it('should group loaded rows with subtotals and collapse groups', () => {
+    const day = (date: number) => new Date(2026, 4, date);
+    component.filteredTransactions = [
+      { id: 'a', amount: 30, type: 'expense', category: 'Food', description: 'a', tags: [], date: day(3), createdAt: day(3), updatedAt: day(3) },
+      { id: 'b', amount: 100, type: 'revenue', category: 'Salary', description: 'b', tags: [], date: day(2), createdAt: day(2), updatedAt: day(2) },
+      { id: 'c', amount: 12.5, type: 'expense', category: 'Food', description: 'c', tags: [], date: day(1), createdAt: day(1), updatedAt: day(1) }
+    ];
+    component.groupBy = 'category';
+    component.onGroupByChange();
+
+    expect(component.getTableRows().map(row => row.group?.key ?? row.transaction!.id)).toEqual(['Food', 'a', 'c', 'Salary', 'b']);
+    expect(component.getTableRows()[0].group).toEqual(expect.objectContaining({ count: 2, expenses: 42.5, revenue: 0 }));
+    expect(component.getTableRows()[3].group).toEqual(expect.objectContaining({ revenue: 100, expenses: 0 }));
+
+    component.toggleGroup('Food');
+    expect(component.getTableRows().map(row => row.group?.key ?? row.transaction!.id)).toEqual(['Food', 'Salary', 'b']);
+    expect(component.getTableRows()[2].index).toBe(0);
+  });
+
+  it('should edit cells in place, move with Tab and roll back a rejected save', () => {
+    const row: Transaction = {
+      id: 'a', amount: 10, type: 'expense', category: 'Food', description: 'Lunch', tags: [],
+      date: new Date(2026, 4, 1), createdAt: new Date(2026, 4, 1), updatedAt: new Date(2026, 4, 1)
+    };
+    component.transactions = [row];
+    component.filteredTransactions = [row];
+
+    component.startInlineEdit(row, 'description');
+    component.inlineEdit!.value = '  ';
+    component.onInlineKeydown(new KeyboardEvent('keydown', { key: 'Enter' }), row);
+    expect(component.inlineEdit).toEqual(expect.objectContaining({ field: 'description', error: 'Description is required' }));
+
+    // Without a signed-in user the server call fails, so the row rolls back
+    component.inlineEdit!.value = 'Lunch with Sam';
+    component.onInlineKeydown(new KeyboardEvent('keydown', { key: 'Tab' }), row);
+    expect(component.filteredTransactions[0].description).toBe('Lunch');
+    expect(component.inlineEdit).toEqual(expect.objectContaining({ field: 'category', value: 'Food', error: null }));
+
+    component.onInlineKeydown(new KeyboardEvent('keydown', { key: 'Tab', shiftKey: true }), row);
+    expect(component.inlineEdit?.field).toBe('description');
+    component.onInlineKeydown(new KeyboardEvent('keydown', { key: 'Escape' }), row);
+    expect(component.inlineEdit).toBeNull();
+
+    component.startInlineEdit(row, 'amount');
+    component.inlineEdit!.value = '-3';
+    component.saveInlineEdit(row);
+    expect(component.inlineEdit?.error).toBe('Enter an amount greater than zero');
+
+    const split = { ...row, splits: [{ category: 'Food', amount: 6 }, { category: 'Bills', amount: 4 }] };
+    expect(component.canEditInline(split, 'amount')).toBe(false);
+    expect(component.canEditInline(split, 'description')).toBe(true);
+  });
+
+  it('should convert amounts paid in another currency into the base currency', () => {
+    TestBed.inject(ExchangeRateService).add({ date: '2026-05-01', from: 'EUR', to: 'USD', rate: 1.1 });
+    const form: Partial<Transaction> = { amount: 20, currency: 'EUR', date: new Date(2026, 4, 3) };
+
+    expect(component.getConversionHint(form)).toBe(`≈ ${component.formatCurrency(22)} at 1.1000`);
+    expect(component.getConversionHint({ ...form, currency: 'GBP' })).toContain('No GBP → USD rate');
+    expect(component.getConversionHint({ ...form, currency: 'USD' })).toBeNull();
+
+    const paid: Transaction = {
+      id: 't1', amount: 22, currency: 'EUR', originalAmount: 20, type: 'expense', category: 'Food',
+      description: 'Dinner in Rome', tags: [], splits: [{ category: 'Food', amount: 11 }, { category: 'Fun', amount: 11 }],
+      createdAt: new Date(2026, 4, 3), updatedAt: new Date(2026, 4, 3)
+    };
+    component.editTransaction(paid);
+    // Edited in what was actually paid
+    expect(component.editingTransaction.amount).toBe(20);
+    expect(component.editingTransaction.splits?.map(line => line.amount)).toEqual([10, 10]);
+    expect(component.canEditInline(paid, 'amount')).toBe(false);
+    expect(component.getOriginalAmount(paid)).toContain('(EUR)');
+  });
+
+  it('should reconcile cleared transactions against a statement and lock them', () => {
+    const account = { id: 'acc-1', name: 'Checking', kind: 'checking' as const, openingBalance: 100, currency: 'USD', createdAt: new Date() };
+    const day = new Date(2026, 4, 1);
+    const rows: Transaction[] = [
+      { id: 'a', amount: 30, type: 'expense', category: 'Food', description: 'Groceries', tags: [], accountId: 'acc-1', date: day, createdAt: day, updatedAt: day },
+      { id: 'b', amount: 50, type: 'revenue', category: 'Salary', description: 'Pay', tags: [], accountId: 'acc-1', date: day, createdAt: day, updatedAt: day },
+      { id: 'c', amount: 5, type: 'expense', category: 'Food', description: 'Other card', tags: [], accountId: 'acc-2', date: day, createdAt: day, updatedAt: day }
+    ];
+    component.accounts = [account];
+    component.selectedAccountId = 'acc-1';
+
+    component.openReconcileSetup();
+    component.reconcileForm!.statementDate = '2026-05-31';
+    component.reconcileForm!.statementBalance = 120;
+    component.startReconciliation();
+    expect(component.getCurrentFilters()).toEqual(expect.objectContaining({ accountId: 'acc-1', endDate: '2026-05-31' }));
+
+    component.filteredTransactions = rows;
+    component.toggleCleared(rows[0]);
+    expect(component.getReconcileDifference()).toBe(50);
+    component.toggleAllLoadedCleared();
+    expect(component.canClear(rows[2])).toBe(false);
+    expect(component.getClearedBalance()).toBe(120);
+    expect(component.getReconcileDifference()).toBe(0);
+
+    component.finishReconciliation();
+    expect(component.reconciliation).toBeNull();
+    expect(component.isReconciled(rows[0])).toBe(true);
+    expect(component.isReconciled(rows[2])).toBe(false);
+  });
 });
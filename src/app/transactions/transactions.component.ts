@@ -1,32 +1,259 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, ElementRef, OnInit, OnDestroy, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
 import { FormsModule } from '@angular/forms';
-import { TransactionService } from '../services/transaction.service';
+import {
+  TransactionService,
+  fromDateKey,
+  getSplitParentCategory,
+  getSplitsError,
+  getTransactionDate,
+  roundCents,
+  toDateKey
+} from '../services/transaction.service';
 import { SettingsService } from '../services/settings.service';
-import { Transaction } from '../models/transaction.model';
-import { Subscription } from 'rxjs';
+import {
+  AccountService,
+  getAccountBalances,
+  getAccountEffect,
+  getAffectedAccountIds,
+  getBalanceEffect,
+  getRunningBalances
+} from '../services/account.service';
+import {
+  DEFAULT_TRANSACTION_FILTERS,
+  FilterPresetService,
+  areFiltersEqual,
+  filtersFromQueryParams,
+  filtersToQueryParams,
+  matchesTransactionFilters,
+  resolvePresetFilters
+} from '../services/filter-preset.service';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { PayeeService, findPayeeByDescription } from '../services/payee.service';
+import { ReconciliationService, getClearedBalance, getStartingBalance } from '../services/reconciliation.service';
+import { ExchangeRateService, convertAmount, rescaleSplits } from '../services/exchange-rate.service';
+import { Account, AccountBalance } from '../models/account.model';
+import { FilterPreset, TransactionFilters } from '../models/filter-preset.model';
+import { Payee } from '../models/payee.model';
+import { Reconciliation } from '../models/reconciliation.model';
+import {
+  Attachment,
+  BulkResult,
+  SplitLine,
+  Transaction,
+  TransactionDraft,
+  TransactionQuery,
+  TransactionSort,
+  TransactionSortField,
+  TransactionType,
+  TransactionUpdate
+} from '../models/transaction.model';
+import { EMPTY, from, Subject, Subscription } from 'rxjs';
+import { catchError, concatMap, debounceTime, toArray } from 'rxjs/operators';
+import { TransactionImportComponent } from '../transaction-import/transaction-import.component';
+import { RecurringTransactionsComponent } from '../recurring-transactions/recurring-transactions.component';
+import { SplitEditorComponent } from '../split-editor/split-editor.component';
+import { TagInputComponent, normalizeTag } from '../tag-input/tag-input.component';
+import { AttachmentPickerComponent } from '../attachment-picker/attachment-picker.component';
+import { AttachmentThumbnailComponent } from '../attachment-thumbnail/attachment-thumbnail.component';
+import { AttachmentLightboxComponent } from '../attachment-lightbox/attachment-lightbox.component';
+import { AccountManagerComponent } from '../account-manager/account-manager.component';
+import { VirtualScrollComponent } from '../virtual-scroll/virtual-scroll.component';
+import { SearchBoxComponent } from '../search-box/search-box.component';
+import { EMPTY_SEARCH_QUERY, SearchNode, getPlainSearchText, parseSearchQuery } from '../search-box/search-query';
+import { FilterPresetsComponent } from '../filter-presets/filter-presets.component';
+import { TrashComponent } from '../trash/trash.component';
+import { DuplicateFinderComponent, DuplicateMerge } from '../duplicate-finder/duplicate-finder.component';
+import { DuplicateMatch, findLikelyDuplicates } from '../duplicate-finder/duplicate-detector';
+import { CategorizationRulesComponent } from '../categorization-rules/categorization-rules.component';
+import { PayeeInputComponent } from '../payee-input/payee-input.component';
+import { TransactionHistoryComponent } from '../transaction-history/transaction-history.component';
+import {
+  DEFAULT_TRANSACTION_SORT,
+  TransactionGroup,
+  TransactionGroupBy,
+  formatSortParam,
+  groupTransactions,
+  parseSortParam,
+  sortTransactions,
+  toggleSort
+} from './transaction-table';
+
+// "Select all matching" stops here; bulk edits beyond it should be split up
+const MAX_BULK_SELECTION = 1000;
+
+// How long toasts with an Undo button stay up (ms)
+const UNDO_TIMEOUT = 8000;
+
+interface ToastAction {
+  label: string;
+  run: () => void;
+}
+
+// A line of the table: a group header with its subtotals, or a transaction
+interface TableRow {
+  group?: {
+    key: string;
+    label: string;
+    count: number;
+    revenue: number;
+    expenses: number;
+    collapsed: boolean;
+  };
+  transaction?: Transaction;
+  // Position among the transactions shown, for shift-click ranges
+  index: number;
+}
+
+// Cells that can be edited in place, in the order Tab moves through them
+type InlineField = 'date' | 'description' | 'category' | 'amount';
+const INLINE_FIELDS: InlineField[] = ['date', 'description', 'category', 'amount'];
+
+// The cell being edited in place and what has been typed so far
+interface InlineEdit {
+  transactionId: string;
+  field: InlineField;
+  value: string;
+  error: string | null;
+}
+
+// Statement being reconciled; the cleared balance counts from startingBalance
+interface ActiveReconciliation {
+  account: Account;
+  statementDate: string; // YYYY-MM-DD
+  statementBalance: number;
+  startingBalance: number;
+}
+
+// Statement details typed in before reconciling starts
+interface ReconcileForm {
+  accountId: string;
+  statementDate: string;
+  statementBalance: number | null;
+}
+
+const TYPE_GROUP_LABELS: Record<TransactionType, string> = {
+  expense: 'Expenses',
+  revenue: 'Revenue',
+  transfer: 'Transfers'
+};
 
 @Component({
   selector: 'app-transactions',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    TransactionImportComponent,
+    RecurringTransactionsComponent,
+    SplitEditorComponent,
+    TagInputComponent,
+    AttachmentPickerComponent,
+    AttachmentThumbnailComponent,
+    AttachmentLightboxComponent,
+    AccountManagerComponent,
+    VirtualScrollComponent,
+    SearchBoxComponent,
+    FilterPresetsComponent,
+    TrashComponent,
+    DuplicateFinderComponent,
+    CategorizationRulesComponent,
+    PayeeInputComponent,
+    TransactionHistoryComponent
+  ],
   templateUrl: './transactions.component.html',
   styleUrls: ['./transactions.component.scss']
 })
 export class TransactionsComponent implements OnInit, OnDestroy {
+  @ViewChild(VirtualScrollComponent) table?: VirtualScrollComponent<Transaction>;
+  @ViewChild('inlineInput') inlineInput?: ElementRef<HTMLInputElement | HTMLSelectElement>;
+
+  // The whole history, for balances, tag suggestions and budget checks; the
+  // list itself is filtered and paged on the server
   transactions: Transaction[] = [];
+  // Balances are only shown once the whole history has been read
+  historyLoaded = false;
+  // Rows of the current page, or of every page loaded so far with infinite scroll
   filteredTransactions: Transaction[] = [];
+
+  // Pagination
+  page = 1;
+  pageSize = 25;
+  pageSizes = [10, 25, 50, 100];
+  totalCount = 0;
+  infiniteScroll = false;
+  isLoadingPage = false;
+
+  // Every table row has this height (px) so the table can be virtualized
+  readonly rowHeight = 56;
+
   showAddModal = false;
   showEditModal = false;
+  showImportModal = false;
+  showAccountManager = false;
+  showDuplicateFinder = false;
+  activeTab: 'transactions' | 'recurring' | 'rules' | 'trash' = 'transactions';
+
+  // Accounts; running balances are keyed by transaction id, then account id
+  accounts: Account[] = [];
+  accountBalances: AccountBalance[] = [];
+  runningBalances = new Map<string, Map<string, number>>();
 
   // Filters
+  selectedAccountId = 'all';
   searchTerm = '';
-  selectedType: 'all' | 'expense' | 'revenue' = 'all';
+  // Last query that parsed; plain text is searched on the server, anything
+  // structured is evaluated against the whole history
+  searchQuery: SearchNode = { kind: 'and', children: [] };
+  selectedType: 'all' | TransactionType = 'all';
   selectedCategory = 'all';
+  selectedTag = 'all';
   dateRange = {
     start: '',
     end: ''
   };
+  // Saved view currently opened (?view=<id> in the URL, next to the filters)
+  activePresetId: string | null = null;
+
+  // Bulk selection by id; kept across pages and infinite scroll, cleared
+  // when the filters change
+  selectedTransactions = new Map<string, Transaction>();
+  isSelectingAll = false;
+  isBulkRunning = false;
+  bulkCategory = '';
+  bulkType: '' | 'expense' | 'revenue' = '';
+  bulkTag = '';
+  // Rows the last bulk action could not change, with the server's reason
+  bulkFailures: { transaction: Transaction; error: string }[] = [];
+  private lastSelectedIndex: number | null = null;
+
+  // Table order (most significant key first); grouping applies to the loaded rows
+  sortOrder: TransactionSort[] = [{ field: 'date', direction: 'desc' }];
+  groupBy: TransactionGroupBy = 'none';
+  readonly groupByOptions: { value: TransactionGroupBy; label: string }[] = [
+    { value: 'none', label: 'No grouping' },
+    { value: 'day', label: 'Group by day' },
+    { value: 'week', label: 'Group by week' },
+    { value: 'month', label: 'Group by month' },
+    { value: 'category', label: 'Group by category' },
+    { value: 'type', label: 'Group by type' }
+  ];
+  collapsedGroups = new Set<string>();
+  // Rows built for the current filteredTransactions; cleared when grouping changes
+  private tableRows: { source: Transaction[]; rows: TableRow[] } | null = null;
+
+  // Cell edited in place (double-click); one at a time
+  inlineEdit: InlineEdit | null = null;
+
+  // Bank reconciliation: the statement being checked and the rows ticked off
+  // as cleared on it (by id, kept across pages like the selection)
+  reconcileForm: ReconcileForm | null = null;
+  reconciliation: ActiveReconciliation | null = null;
+  clearedTransactions = new Map<string, Transaction>();
+
+  // Account lookup for search queries and view descriptions
+  readonly getAccountNameFn = (id: string) => this.getAccountName(id);
 
   // New transaction form
   newTransaction: Partial<Transaction> = {
@@ -34,7 +261,8 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     amount: 0,
     category: '',
     description: '',
-    createdAt: new Date(),
+    tags: [],
+    date: new Date(),
     updatedAt: new Date()
   };
 
@@ -42,6 +270,29 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   editingTransaction: Partial<Transaction> = {};
   editingTransactionId: string = '';
 
+  // Existing transactions the new one looks like; the add modal then asks
+  // to save anyway or cancel
+  duplicateMatches: DuplicateMatch[] = [];
+
+  // Category the rules filled into the add form, and which rules matched
+  ruleCategory: string | null = null;
+  ruleNames: string[] = [];
+
+  payees: Payee[] = [];
+  // Whether the add form's payee was chosen by hand; otherwise it follows the description
+  payeePicked = false;
+
+  // Receipts picked in the add/edit modals, uploaded once the transaction is saved
+  newAttachmentFiles: File[] = [];
+  editAttachmentFiles: File[] = [];
+
+  // Attachment lightbox
+  lightboxTransaction: Transaction | null = null;
+  lightboxIndex = 0;
+
+  // Change history drawer
+  historyTransaction: Transaction | null = null;
+
   // Categories from settings or defaults
   categories = {
     expense: ['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Healthcare'],
@@ -57,20 +308,41 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }> = [];
 
   private subscriptions: Subscription[] = [];
+  private pageRequest: Subscription | null = null;
+  private searchChanges = new Subject<void>();
 
   constructor(
     private transactionService: TransactionService,
-    private settingsService: SettingsService
+    private settingsService: SettingsService,
+    private accountService: AccountService,
+    private filterPresetService: FilterPresetService,
+    private ruleService: CategorizationRuleService,
+    private payeeService: PayeeService,
+    private reconciliationService: ReconciliationService,
+    private exchangeRateService: ExchangeRateService,
+    private route: ActivatedRoute,
+    private router: Router
   ) { }
 
   ngOnInit() {
     this.loadSettings();
     this.loadTransactions();
+    this.loadAccounts();
+    this.loadPayees();
     this.subscribeToSettingsChanges();
+    this.subscribeToQuickAdds();
+    this.subscribeToQueryParams();
+
+    // Wait for a pause in typing before querying the server; the URL keeps
+    // one history entry per search rather than one per pause
+    const searchSub = this.searchChanges.pipe(debounceTime(300)).subscribe(() => this.applyFilters(true));
+    this.subscriptions.push(searchSub);
   }
 
   ngOnDestroy() {
     this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.pageRequest?.unsubscribe();
+    this.accountService.setSelectedAccount(null);
   }
 
   /**
@@ -80,8 +352,9 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     const appSettings = this.settingsService.getAppSettings();
     const budgetSettings = this.settingsService.getBudgetSettings();
 
-    // Set default transaction type from settings
+    // Set default transaction type and currency from settings
     this.newTransaction.type = appSettings.defaultTransactionType as 'expense' | 'revenue';
+    this.newTransaction.currency = appSettings.currency;
 
     // Load custom categories from budget settings if available
     if (budgetSettings.categories && budgetSettings.categories.length > 0) {
@@ -100,217 +373,1494 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Subscribe to settings changes for real-time updates
+   * Subscribe to settings changes for real-time updates
+   */
+  subscribeToSettingsChanges() {
+    const appSettingsSub = this.settingsService.appSettings$.subscribe(() => {
+      // Currency and date formats are read when rendering, nothing to reload
+      console.log('🔄 App settings changed, updating UI');
+    });
+
+    const budgetSettingsSub = this.settingsService.budgetSettings$.subscribe(budgetSettings => {
+      console.log('🔄 Budget settings changed, updating categories');
+      // Update categories if budget categories changed
+      if (budgetSettings.categories && budgetSettings.categories.length > 0) {
+        const customCategories = budgetSettings.categories.map(cat => cat.name);
+        this.categories.expense = [
+          ...new Set([...['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Healthcare'], ...customCategories])
+        ];
+      }
+    });
+
+    this.subscriptions.push(appSettingsSub, budgetSettingsSub);
+  }
+
+  /**
+   * Show transactions added from the quick-add bar; it already counted them
+   * towards the budgets
+   */
+  subscribeToQuickAdds() {
+    const quickAddSub = this.transactionService.addedElsewhere$.subscribe(transaction => {
+      this.transactions.unshift(transaction);
+      this.refreshList();
+      this.checkBudgetAfterTransaction();
+    });
+    this.subscriptions.push(quickAddSub);
+  }
+
+  loadTransactions() {
+    this.loadPage();
+    this.transactionService.getAllTransactions('all').subscribe({
+      next: transactions => {
+        this.transactions = transactions;
+        this.historyLoaded = true;
+        this.refreshAccountBalances();
+        if (this.isLocalSearch()) {
+          this.loadPage();
+        }
+      },
+      error: (err) => {
+        console.error('❌ Failed to load the transaction history', err);
+        this.showNotification('Could not load your full history; account balances and advanced search are unavailable', 'error');
+        if (this.isLocalSearch()) {
+          this.isLoadingPage = false;
+        }
+      }
+    });
+  }
+
+  /**
+   * Fetch the current page with the active filters; with infinite scroll
+   * the page is appended to the rows already shown
+   */
+  loadPage(append = false) {
+    this.pageRequest?.unsubscribe();
+
+    if (this.isLocalSearch()) {
+      // Matching a partly read history would leave older matches out;
+      // loadTransactions runs the search again once it is all in
+      this.filteredTransactions = this.historyLoaded ? this.getLocalMatches() : [];
+      this.totalCount = this.filteredTransactions.length;
+      this.page = 1;
+      this.isLoadingPage = !this.historyLoaded;
+      return;
+    }
+
+    this.isLoadingPage = true;
+
+    this.pageRequest = this.transactionService.getTransactionPage(this.buildQuery()).subscribe(result => {
+      this.filteredTransactions = append ? [...this.filteredTransactions, ...result.items] : result.items;
+      this.totalCount = result.total;
+      this.isLoadingPage = false;
+    });
+  }
+
+  loadAccounts() {
+    const accountsSub = this.accountService.accounts$.subscribe(accounts => {
+      this.accounts = accounts;
+      this.refreshAccountBalances();
+      if (this.selectedAccountId !== 'all' && !accounts.some(a => a.id === this.selectedAccountId)) {
+        this.selectedAccountId = 'all';
+        this.applyFilters();
+      }
+    });
+    this.subscriptions.push(accountsSub);
+    this.accountService.loadAccounts().subscribe();
+  }
+
+  loadPayees() {
+    const payeesSub = this.payeeService.payees$.subscribe(payees => this.payees = payees);
+    this.subscriptions.push(payeesSub);
+    this.payeeService.loadPayees().subscribe();
+  }
+
+  getPayee(payeeId: string | undefined): Payee | undefined {
+    return payeeId ? this.payees.find(payee => payee.id === payeeId) : undefined;
+  }
+
+  refreshAccountBalances() {
+    const context = this.exchangeRateService.getCurrencyContext();
+    this.accountBalances = getAccountBalances(this.accounts, this.transactions, context);
+    this.runningBalances = getRunningBalances(this.accounts, this.transactions, context);
+  }
+
+  selectAccount(accountId: string) {
+    this.selectedAccountId = accountId;
+    this.applyFilters();
+  }
+
+  /**
+   * Filters changed: start again from the first page
+   */
+  applyFilters(replaceUrl = false) {
+    this.accountService.setSelectedAccount(this.selectedAccountId);
+    this.clearSelection();
+    this.page = 1;
+    this.loadPage();
+    this.table?.scrollToIndex(0);
+    this.syncUrl(replaceUrl);
+  }
+
+  onSearchChange() {
+    this.searchChanges.next();
+  }
+
+  onSearchQueryChange(query: SearchNode) {
+    this.searchQuery = query;
+    this.onSearchChange();
+  }
+
+  /**
+   * Structured queries (fields, comparisons, OR, exclusions) go beyond the
+   * server's substring search
+   */
+  isLocalSearch(): boolean {
+    return getPlainSearchText(this.searchQuery) === null;
+  }
+
+  /**
+   * The transactions matching the search query and the filter dropdowns,
+   * in the table's sort order
+   */
+  getLocalMatches(): Transaction[] {
+    const filters = this.getCurrentFilters();
+    const context = { getAccountName: this.getAccountNameFn };
+    return sortTransactions(
+      this.transactions.filter(t => matchesTransactionFilters(t, filters, context, this.searchQuery)),
+      this.sortOrder
+    );
+  }
+
+  getCurrentFilters(): TransactionFilters {
+    return {
+      accountId: this.selectedAccountId,
+      search: this.searchTerm,
+      type: this.selectedType,
+      category: this.selectedCategory,
+      tag: this.selectedTag,
+      startDate: this.dateRange.start,
+      endDate: this.dateRange.end
+    };
+  }
+
+  /**
+   * Replace every filter at once and reload the list
+   */
+  setFilters(filters: TransactionFilters) {
+    this.assignFilters(filters);
+    this.applyFilters();
+  }
+
+  private assignFilters(filters: TransactionFilters) {
+    const parsed = parseSearchQuery(filters.search);
+    this.selectedAccountId = filters.accountId;
+    this.accountService.setSelectedAccount(filters.accountId);
+    this.searchTerm = filters.search;
+    this.searchQuery = parsed.ok ? parsed.query : EMPTY_SEARCH_QUERY;
+    this.selectedType = filters.type;
+    this.selectedCategory = filters.category;
+    this.selectedTag = filters.tag;
+    this.dateRange = { start: filters.startDate, end: filters.endDate };
+  }
+
+  // ========== URL STATE ==========
+
+  /**
+   * Filters, sort, page and saved view live in the URL, so drill-down links
+   * land on a filtered list and back/forward restore it. A saved view
+   * supplies the filters when the URL has none of its own.
+   */
+  private subscribeToQueryParams() {
+    const paramsSub = this.route.queryParamMap.subscribe(params => {
+      const viewId = params.get('view');
+      const preset = viewId ? this.filterPresetService.get(viewId) : undefined;
+      if (viewId && !preset) {
+        this.showNotification('That saved view no longer exists', 'error');
+      }
+
+      const presetId = preset?.id ?? null;
+      const filters = filtersFromQueryParams(params, preset ? resolvePresetFilters(preset) : DEFAULT_TRANSACTION_FILTERS);
+      const sort = parseSortParam(params.get('sort')) ?? DEFAULT_TRANSACTION_SORT;
+      const page = this.infiniteScroll ? 1 : Math.max(1, Number.parseInt(params.get('page') ?? '', 10) || 1);
+
+      if (presetId === this.activePresetId &&
+        areFiltersEqual(filters, this.getCurrentFilters()) &&
+        formatSortParam(sort) === formatSortParam(this.sortOrder) &&
+        page === this.page) {
+        return;
+      }
+
+      this.activePresetId = presetId;
+      this.assignFilters(filters);
+      this.sortOrder = sort;
+      this.clearSelection();
+      this.page = page;
+      this.loadPage();
+      this.table?.scrollToIndex(0);
+    });
+    this.subscriptions.push(paramsSub);
+  }
+
+  /**
+   * Write the list state into the URL, leaving defaults out
+   */
+  private syncUrl(replaceUrl = false) {
+    const sort = formatSortParam(this.sortOrder);
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        ...filtersToQueryParams(this.getCurrentFilters()),
+        sort: sort !== formatSortParam(DEFAULT_TRANSACTION_SORT) ? sort : null,
+        page: !this.infiniteScroll && this.page > 1 ? this.page : null,
+        view: this.activePresetId
+      },
+      queryParamsHandling: 'merge',
+      replaceUrl
+    });
+  }
+
+  // ========== SAVED VIEWS ==========
+
+  openPreset(preset: FilterPreset) {
+    this.activePresetId = preset.id;
+    this.setFilters(resolvePresetFilters(preset));
+  }
+
+  closePreset() {
+    this.activePresetId = null;
+    this.setFilters(DEFAULT_TRANSACTION_FILTERS);
+  }
+
+  /**
+   * Export every transaction in a view, not just the loaded page
+   */
+  exportPreset(preset: FilterPreset) {
+    this.filterPresetService.getPresetTransactions(preset).subscribe({
+      next: transactions => this.exportTransactions(transactions, preset),
+      error: (err) => {
+        console.error('❌ Failed to load the view for export', err);
+        this.showNotification(`Could not load "${preset.name}" to export it`, 'error');
+      }
+    });
+  }
+
+  private buildQuery(): TransactionQuery {
+    const search = (getPlainSearchText(this.searchQuery) ?? '').trim();
+    return {
+      page: this.page,
+      limit: this.pageSize,
+      ...(search && { search }),
+      ...(this.selectedType !== 'all' && { type: this.selectedType }),
+      ...(this.selectedCategory !== 'all' && { category: this.selectedCategory }),
+      ...(this.selectedTag !== 'all' && { tag: this.selectedTag }),
+      ...(this.selectedAccountId !== 'all' && { accountId: this.selectedAccountId }),
+      ...(this.dateRange.start && { startDate: this.dateRange.start }),
+      ...(this.dateRange.end && { endDate: this.dateRange.end }),
+      sort: this.sortOrder
+    };
+  }
+
+  getPageCount(): number {
+    return Math.max(1, Math.ceil(this.totalCount / this.pageSize));
+  }
+
+  hasMorePages(): boolean {
+    return this.page < this.getPageCount();
+  }
+
+  goToPage(page: number) {
+    if (page < 1 || page > this.getPageCount() || page === this.page) return;
+    this.page = page;
+    this.loadPage();
+    this.table?.scrollToIndex(0);
+    this.syncUrl();
+  }
+
+  /**
+   * Page size or paging mode changed
+   */
+  onPagingChange() {
+    this.applyFilters();
+  }
+
+  onListScrolledToEnd() {
+    if (!this.infiniteScroll || this.isLoadingPage || !this.hasMorePages()) return;
+
+    this.page++;
+    this.loadPage(true);
+  }
+
+  trackRow(_: number, row: TableRow): string {
+    return row.group ? `group:${row.group.key}` : row.transaction!.id;
+  }
+
+  // ========== SORTING & GROUPING ==========
+
+  /**
+   * Header click; shift-click adds the column as an extra sort key
+   */
+  sortBy(field: TransactionSortField, event: MouseEvent) {
+    this.sortOrder = toggleSort(this.sortOrder, field, event.shiftKey);
+    this.applyFilters();
+  }
+
+  /**
+   * Arrow for a sorted column, numbered when several columns are sorted
+   */
+  getSortIndicator(field: TransactionSortField): string {
+    const index = this.sortOrder.findIndex(key => key.field === field);
+    if (index === -1) return '';
+    const arrow = this.sortOrder[index].direction === 'asc' ? '▲' : '▼';
+    return this.sortOrder.length > 1 ? `${arrow}${index + 1}` : arrow;
+  }
+
+  getAriaSort(field: TransactionSortField): 'ascending' | 'descending' | 'none' {
+    const key = this.sortOrder.find(k => k.field === field);
+    return key ? (key.direction === 'asc' ? 'ascending' : 'descending') : 'none';
+  }
+
+  onGroupByChange() {
+    this.collapsedGroups.clear();
+    this.tableRows = null;
+    this.table?.scrollToIndex(0);
+  }
+
+  toggleGroup(key: string) {
+    if (this.collapsedGroups.has(key)) {
+      this.collapsedGroups.delete(key);
+    } else {
+      this.collapsedGroups.add(key);
+    }
+    this.tableRows = null;
+  }
+
+  /**
+   * Rows for the table: the loaded transactions, under a header per group
+   * when grouping, with each group's subtotals. Rebuilt only when the
+   * loaded rows or the grouping change.
+   */
+  getTableRows(): TableRow[] {
+    if (this.tableRows?.source !== this.filteredTransactions) {
+      this.tableRows = { source: this.filteredTransactions, rows: this.buildTableRows() };
+    }
+    return this.tableRows.rows;
+  }
+
+  private buildTableRows(): TableRow[] {
+    if (this.groupBy === 'none') {
+      return this.filteredTransactions.map((transaction, index) => ({ transaction, index }));
+    }
+
+    const groups = groupTransactions(this.filteredTransactions, this.groupBy, this.sortOrder, this.settingsService.getWeekStartDay());
+    const rows: TableRow[] = [];
+    let shown = 0;
+
+    groups.forEach(group => {
+      const collapsed = this.collapsedGroups.has(group.key);
+      rows.push({
+        group: {
+          key: group.key,
+          label: this.getGroupLabel(group),
+          count: group.transactions.length,
+          revenue: this.getTotalRevenue(group.transactions),
+          expenses: this.getTotalExpenses(group.transactions),
+          collapsed
+        },
+        index: shown
+      });
+      if (collapsed) return;
+
+      group.transactions.forEach(transaction => rows.push({ transaction, index: shown++ }));
+    });
+    return rows;
+  }
+
+  /**
+   * Transactions in the order shown, without collapsed groups
+   */
+  private getDisplayedTransactions(): Transaction[] {
+    if (this.groupBy === 'none') return this.filteredTransactions;
+    return this.getTableRows().filter(row => row.transaction).map(row => row.transaction!);
+  }
+
+  private getGroupLabel(group: TransactionGroup): string {
+    switch (this.groupBy) {
+      case 'day':
+        return this.formatDate(group.start!);
+      case 'week':
+        return `Week of ${this.formatDate(group.start!)}`;
+      case 'month':
+        return group.start!.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+      case 'type':
+        return TYPE_GROUP_LABELS[group.key as TransactionType];
+      default:
+        return group.key;
+    }
+  }
+
+  /**
+   * Reload the list after a change; infinite scroll starts over from the top
+   * since the loaded pages may have shifted
+   */
+  private refreshList() {
+    this.refreshAccountBalances();
+    if (this.infiniteScroll) {
+      this.page = 1;
+    }
+    this.loadPage();
+  }
+
+  /**
+   * Save the add form; entries that look like an existing transaction are
+   * held back until the user confirms with `saveAnyway`
+   */
+  addTransaction(saveAnyway = false) {
+    if (!this.prepareTransfer(this.newTransaction) || !this.prepareSplits(this.newTransaction)) return;
+
+    if (
+      !this.newTransaction.amount ||
+      !this.newTransaction.category ||
+      !this.newTransaction.description ||
+      !this.newTransaction.type ||
+      !this.newTransaction.date
+    ) {
+      this.showNotification('Please fill in all required fields', 'error');
+      return;
+    }
+
+    // Rules add their tags and may rename; the category was suggested while typing
+    const { changes } = this.ruleService.apply({
+      amount: this.newTransaction.amount,
+      type: this.newTransaction.type,
+      category: this.newTransaction.category,
+      description: this.newTransaction.description,
+      splits: this.newTransaction.splits,
+      tags: this.newTransaction.tags ?? []
+    });
+
+    const money = this.toBaseCurrency(this.newTransaction);
+    if (!money) return;
+
+    const payload = {
+      amount: money.amount,
+      ...(money.currency && { currency: money.currency, originalAmount: money.originalAmount }),
+      type: this.newTransaction.type,
+      category: this.newTransaction.category,
+      source: this.newTransaction.category,
+      description: changes.description ?? this.newTransaction.description,
+      date: this.newTransaction.date,
+      ...(this.newTransaction.accountId && { accountId: this.newTransaction.accountId }),
+      ...(this.newTransaction.toAccountId && { toAccountId: this.newTransaction.toAccountId }),
+      ...(this.newTransaction.payeeId && this.newTransaction.type !== 'transfer' && { payeeId: this.newTransaction.payeeId }),
+      ...(money.splits && { splits: money.splits }),
+      tags: changes.tags ?? this.newTransaction.tags ?? []
+    };
+
+    if (!saveAnyway) {
+      this.duplicateMatches = findLikelyDuplicates(
+        payload,
+        this.transactions
+      );
+      if (this.duplicateMatches.length > 0) {
+        console.log('⚠️ Possible duplicate of', this.duplicateMatches.map(m => m.transaction.id));
+        return;
+      }
+    }
+
+    const attachmentFiles = this.newAttachmentFiles;
+
+    this.transactionService.addTransaction(payload).subscribe({
+      next: (createdTransaction) => {
+        this.transactions.unshift(createdTransaction);
+        this.uploadAttachments(createdTransaction.id, attachmentFiles);
+        this.refreshList();
+        this.closeAddModal();
+        this.resetForm();
+
+        // Update budget category spent amount
+        this.updateBudgetCategorySpent(createdTransaction);
+
+        // Show success notification if enabled
+        this.showNotification('Transaction added successfully', 'success');
+
+        // Check budget alerts
+        this.checkBudgetAfterTransaction();
+      },
+      error: (err) => {
+        console.error('❌ Failed to add transaction', err);
+        this.showNotification('Failed to add transaction', 'error');
+      }
+    });
+  }
+
+  /**
+   * Fill the add form's category from the rules as the user types; a
+   * category picked by hand is left alone
+   */
+  suggestFromRules() {
+    const form = this.newTransaction;
+    if (!form.type || form.type === 'transfer' || form.splits) return;
+    if (form.category && form.category !== this.ruleCategory) return;
+
+    const { changes, ruleNames } = this.ruleService.apply({
+      amount: form.amount ?? 0,
+      type: form.type,
+      category: '',
+      description: form.description ?? ''
+    });
+    form.category = changes.category ?? '';
+    this.ruleCategory = changes.category ?? null;
+    this.ruleNames = ruleNames;
+  }
+
+  /**
+   * Link the add form to the payee named in its description, unless one was
+   * picked by hand; its default category fills an empty category
+   */
+  suggestPayee() {
+    if (this.payeePicked) return;
+    const form = this.newTransaction;
+    const payee = findPayeeByDescription(this.payees, form.description ?? '');
+    form.payeeId = payee?.id;
+    if (payee?.defaultCategory && !form.category && !form.splits && form.type !== 'transfer'
+      && this.getFormCategories(form).includes(payee.defaultCategory)) {
+      form.category = payee.defaultCategory;
+    }
+  }
+
+  /**
+   * A payee chosen in a form brings its default category, unless the user
+   * already picked one by hand
+   */
+  onPayeePicked(form: Partial<Transaction>, payee: Payee) {
+    const category = payee.defaultCategory;
+    if (!category || form.splits || form.type === 'transfer') return;
+    if (!this.getFormCategories(form).includes(category)) return;
+
+    const isNewForm = form === this.newTransaction;
+    if (form.category && !(isNewForm && form.category === this.ruleCategory)) return;
+
+    form.category = category;
+    if (isNewForm) {
+      this.ruleCategory = null;
+      this.ruleNames = [];
+    }
+  }
+
+  /**
+   * Create a payee from the autocomplete and select it in the form
+   */
+  createPayee(form: Partial<Transaction>, name: string) {
+    this.payeeService.addPayee({ name, aliases: [] }).subscribe({
+      next: payee => {
+        form.payeeId = payee.id;
+        if (form === this.newTransaction) this.payeePicked = true;
+        this.showNotification(`Payee "${payee.name}" added`, 'success');
+      },
+      error: () => this.showNotification('Failed to add payee', 'error')
+    });
+  }
+
+  /**
+   * Merge transactions created by the import wizard into the list
+   */
+  onTransactionsImported(created: Transaction[]) {
+    this.transactions.unshift(...created);
+    this.refreshList();
+
+    created.forEach(transaction => this.updateBudgetCategorySpent(transaction));
+    this.checkBudgetAfterTransaction();
+  }
+
+  /**
+   * A group merged in the duplicate finder; the removed copies are in the trash
+   */
+  onDuplicatesMerged({ kept, removed }: DuplicateMerge) {
+    this.replaceTransaction(kept);
+    const removedIds = new Set(removed.map(t => t.id));
+    this.transactions = this.transactions.filter(t => !removedIds.has(t.id));
+    removed.forEach(t => this.selectedTransactions.delete(t.id));
+    this.updateBudgetSpent([], removed);
+    this.refreshList();
+
+    this.showNotification(`Merged ${removed.length + 1} transactions into one`, 'success', {
+      label: 'Undo',
+      run: () => this.restoreDeleted(removed)
+    });
+  }
+
+  /**
+   * Recurring occurrences confirmed from the Recurring tab
+   */
+  onRecurringCreated(created: Transaction[]) {
+    this.onTransactionsImported(created);
+    this.showNotification(`${created.length} recurring transaction(s) created`, 'success');
+  }
+
+  editTransaction(transaction: Transaction) {
+    console.log('Opening edit modal for transaction:', transaction);
+    this.editingTransactionId = transaction.id;
+    // Foreign-currency transactions are edited in what was actually paid
+    const amount = transaction.originalAmount ?? transaction.amount;
+    this.editingTransaction = {
+      type: transaction.type,
+      amount,
+      currency: transaction.currency ?? this.getBaseCurrency(),
+      category: transaction.category,
+      description: transaction.description,
+      accountId: transaction.accountId,
+      toAccountId: transaction.toAccountId,
+      payeeId: transaction.payeeId,
+      ...(transaction.splits?.length && { splits: rescaleSplits(transaction.splits, amount) }),
+      tags: [...transaction.tags],
+      attachments: [...(transaction.attachments ?? [])],
+      date: getTransactionDate(transaction)
+    };
+    this.editAttachmentFiles = [];
+    this.showEditModal = true;
+  }
+
+  updateTransaction() {
+    console.log('Update transaction called');
+    if (!this.prepareTransfer(this.editingTransaction) || !this.prepareSplits(this.editingTransaction)) return;
+
+    if (
+      !this.editingTransaction.amount ||
+      !this.editingTransaction.category ||
+      !this.editingTransaction.description ||
+      !this.editingTransaction.type ||
+      !this.editingTransaction.date
+    ) {
+      console.log('Validation failed');
+      this.showNotification('Please fill in all required fields', 'error');
+      return;
+    }
+
+    const money = this.toBaseCurrency(this.editingTransaction);
+    if (!money) return;
+
+    const payload = {
+      amount: money.amount,
+      // An empty currency drops a previous conversion
+      currency: money.currency ?? '',
+      ...(money.currency && { originalAmount: money.originalAmount }),
+      type: this.editingTransaction.type,
+      category: this.editingTransaction.category,
+      source: this.editingTransaction.category,
+      description: this.editingTransaction.description,
+      date: this.editingTransaction.date,
+      ...(this.editingTransaction.accountId && { accountId: this.editingTransaction.accountId }),
+      ...(this.editingTransaction.toAccountId && { toAccountId: this.editingTransaction.toAccountId }),
+      // An empty id clears the payee
+      payeeId: this.editingTransaction.type !== 'transfer' ? this.editingTransaction.payeeId ?? '' : '',
+      // An empty list tells the server to drop a previous split
+      splits: money.splits ?? [],
+      tags: this.editingTransaction.tags ?? []
+    };
+
+    const original = this.transactions.find(t => t.id === this.editingTransactionId)
+      ?? this.filteredTransactions.find(t => t.id === this.editingTransactionId);
+    if (original && !this.confirmReconciledChange([{ transaction: original, changes: payload }])) return;
+
+    console.log('Updating transaction with payload:', payload);
+
+    const attachmentFiles = this.editAttachmentFiles;
+
+    if (typeof this.transactionService.updateTransaction === 'function') {
+      this.transactionService.updateTransaction(
+        this.editingTransactionId,
+        this.editingTransaction.type!,
+        payload
+      ).subscribe({
+        next: (updatedTransaction) => {
+          console.log('✅ Transaction updated successfully', updatedTransaction);
+          const index = this.transactions.findIndex(t => t.id === this.editingTransactionId);
+          const previous = index !== -1
+            ? this.transactions[index]
+            : this.filteredTransactions.find(t => t.id === this.editingTransactionId) ?? null;
+          const current = {
+            ...updatedTransaction,
+            attachments: updatedTransaction.attachments ?? previous?.attachments
+          };
+          if (index !== -1) {
+            this.transactions[index] = current;
+          }
+          this.uploadAttachments(updatedTransaction.id, attachmentFiles);
+          this.refreshList();
+          this.closeEditModal();
+
+          // Update budget tracking (lines may have moved between categories)
+          if (previous) {
+            this.updateBudgetCategorySpent(previous, true);
+          }
+          this.updateBudgetCategorySpent(updatedTransaction);
+
+          // Show success notification
+          if (previous) {
+            this.showNotification('Transaction updated', 'success', {
+              label: 'Undo',
+              run: () => this.revertEdits([{ previous, current }])
+            });
+          } else {
+            this.showNotification('Transaction updated successfully', 'success');
+          }
+
+          // Check budget alerts
+          this.checkBudgetAfterTransaction();
+        },
+        error: (err) => {
+          console.error('❌ Failed to update transaction', err);
+          this.showNotification('Failed to update transaction', 'error');
+        }
+      });
+    } else {
+      console.error('❌ updateTransaction method not found in service');
+      this.showNotification('Update functionality not available', 'error');
+    }
+  }
+
+  /**
+   * Deleting moves the transaction to the trash right away; the toast offers
+   * an Undo for a few seconds and the Trash tab keeps it after that
+   */
+  deleteTransaction(transaction: Transaction) {
+    if (!this.confirmReconciledChange([{ transaction }])) return;
+    console.log('Deleting transaction:', transaction.id, 'type:', transaction.type);
+
+    this.transactionService.deleteTransaction(transaction.id, transaction.type).subscribe({
+      next: () => {
+        console.log('✅ Transaction moved to trash');
+        this.transactions = this.transactions.filter(t => t.id !== transaction.id);
+        this.selectedTransactions.delete(transaction.id);
+        this.clearedTransactions.delete(transaction.id);
+        this.refreshList();
+
+        // Update budget tracking
+        this.updateBudgetCategorySpent(transaction, true);
+
+        this.showNotification('Transaction moved to trash', 'success', {
+          label: 'Undo',
+          run: () => this.restoreDeleted([transaction])
+        });
+      },
+      error: (err) => {
+        console.error('❌ Failed to delete transaction', err);
+        this.showNotification('Failed to delete transaction', 'error');
+      }
+    });
+  }
+
+  // ========== INLINE EDITING ==========
+
+  /**
+   * Split amounts and categories, transfer categories and amounts paid in
+   * another currency are only edited in the modal
+   */
+  canEditInline(transaction: Transaction, field: InlineField): boolean {
+    if (field === 'category') return transaction.type !== 'transfer' && !transaction.splits?.length;
+    if (field === 'amount') return !transaction.splits?.length && !transaction.currency;
+    return true;
+  }
+
+  getInlineEdit(transaction: Transaction, field: InlineField): InlineEdit | null {
+    const edit = this.inlineEdit;
+    return edit?.transactionId === transaction.id && edit.field === field ? edit : null;
+  }
+
+  startInlineEdit(transaction: Transaction, field: InlineField) {
+    if (!this.canEditInline(transaction, field)) return;
+    this.inlineEdit = { transactionId: transaction.id, field, value: this.getInlineValue(transaction, field), error: null };
+    setTimeout(() => this.inlineInput?.nativeElement.focus());
+  }
+
+  cancelInlineEdit() {
+    this.inlineEdit = null;
+  }
+
+  /**
+   * Enter saves, Escape cancels, Tab and Shift+Tab save and move to the
+   * next or previous editable cell of the row
+   */
+  onInlineKeydown(event: KeyboardEvent, transaction: Transaction) {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.saveInlineEdit(transaction);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.cancelInlineEdit();
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      this.saveInlineEdit(transaction, event.shiftKey ? -1 : 1);
+    }
+  }
+
+  // Clicking away keeps a valid value, like Enter
+  onInlineBlur(transaction: Transaction, field: InlineField) {
+    if (this.getInlineEdit(transaction, field)) {
+      this.saveInlineEdit(transaction);
+    }
+  }
+
+  /**
+   * Check the edited cell and save it; an invalid value keeps the editor
+   * open with the error. `move` then opens the next (1) or previous (-1)
+   * editable cell of the row.
+   */
+  saveInlineEdit(transaction: Transaction, move: -1 | 0 | 1 = 0) {
+    const edit = this.inlineEdit;
+    if (!edit || edit.transactionId !== transaction.id) return;
+
+    const error = this.validateInlineValue(transaction, edit.field, edit.value);
+    if (error) {
+      edit.error = error;
+      return;
+    }
+
+    this.inlineEdit = null;
+    if (edit.value !== this.getInlineValue(transaction, edit.field)) {
+      const changes = this.parseInlineValue(edit.field, edit.value);
+      if (!this.confirmReconciledChange([{ transaction, changes }])) return;
+      this.saveInlineChange(transaction, changes);
+    }
+
+    if (move !== 0) {
+      // The save may have swapped the row for its new version
+      const current = this.filteredTransactions.find(t => t.id === transaction.id) ?? transaction;
+      const fields = INLINE_FIELDS.filter(field => this.canEditInline(current, field));
+      const next = fields[fields.indexOf(edit.field) + move];
+      if (next) {
+        this.startInlineEdit(current, next);
+      }
+    }
+  }
+
+  /**
+   * Categories offered when editing a category in place; a category that
+   * is no longer in the list stays selectable
+   */
+  getInlineCategories(transaction: Transaction): string[] {
+    const categories = transaction.type === 'revenue' ? this.categories.revenue : this.categories.expense;
+    return categories.includes(transaction.category) ? categories : [transaction.category, ...categories];
+  }
+
+  private getInlineValue(transaction: Transaction, field: InlineField): string {
+    switch (field) {
+      case 'date':
+        return this.toDateInput(getTransactionDate(transaction));
+      case 'amount':
+        return String(transaction.amount);
+      default:
+        return transaction[field];
+    }
+  }
+
+  private validateInlineValue(transaction: Transaction, field: InlineField, value: string): string | null {
+    switch (field) {
+      case 'date':
+        return /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateKey(fromDateKey(value)) === value ? null : 'Enter a valid date';
+      case 'amount': {
+        const amount = Number(value.trim().replace(',', '.'));
+        return value.trim() && amount > 0 ? null : 'Enter an amount greater than zero';
+      }
+      case 'description':
+        return value.trim() ? null : 'Description is required';
+      case 'category':
+        return this.getInlineCategories(transaction).includes(value) ? null : 'Pick a category';
+    }
+  }
+
+  private parseInlineValue(field: InlineField, value: string): Partial<Transaction> {
+    switch (field) {
+      case 'date':
+        return { date: fromDateKey(value) };
+      case 'amount':
+        return { amount: roundCents(Number(value.trim().replace(',', '.'))) };
+      case 'description':
+        return { description: value.trim() };
+      case 'category':
+        return { category: value };
+    }
+  }
+
+  /**
+   * Show the change right away and send it through updateTransaction; the
+   * row goes back to its previous values if the server rejects it
+   */
+  private saveInlineChange(previous: Transaction, changes: Partial<Transaction>) {
+    const optimistic: Transaction = { ...previous, ...changes };
+    this.swapTransaction(optimistic);
+
+    const payload = {
+      amount: optimistic.amount,
+      currency: optimistic.currency ?? '',
+      ...(optimistic.originalAmount !== undefined && { originalAmount: optimistic.originalAmount }),
+      type: optimistic.type,
+      category: optimistic.category,
+      source: optimistic.category,
+      description: optimistic.description,
+      date: getTransactionDate(optimistic),
+      ...(optimistic.accountId && { accountId: optimistic.accountId }),
+      ...(optimistic.toAccountId && { toAccountId: optimistic.toAccountId }),
+      payeeId: optimistic.type !== 'transfer' ? optimistic.payeeId ?? '' : '',
+      splits: optimistic.splits ?? [],
+      tags: optimistic.tags
+    };
+
+    this.transactionService.updateTransaction(previous.id, optimistic.type, payload).subscribe({
+      next: (updatedTransaction) => {
+        const current = {
+          ...updatedTransaction,
+          attachments: updatedTransaction.attachments ?? previous.attachments
+        };
+        this.swapTransaction(current);
+        this.updateBudgetSpent([current], [previous]);
+        this.showNotification('Transaction updated', 'success', {
+          label: 'Undo',
+          run: () => this.revertEdits([{ previous, current }])
+        });
+        this.checkBudgetAfterTransaction();
+      },
+      error: (err) => {
+        console.error('❌ Failed to update transaction', err);
+        this.swapTransaction(previous);
+        this.showNotification('Failed to update transaction, the change was undone', 'error');
+      }
+    });
+  }
+
+  /**
+   * Show a new version of a transaction in place, without reloading the page
+   */
+  private swapTransaction(updated: Transaction) {
+    const swap = (list: Transaction[]) => list.map(t => t.id === updated.id ? updated : t);
+    this.transactions = swap(this.transactions);
+    this.filteredTransactions = swap(this.filteredTransactions);
+    if (this.selectedTransactions.has(updated.id)) {
+      this.selectedTransactions.set(updated.id, updated);
+    }
+    if (this.clearedTransactions.has(updated.id)) {
+      this.clearedTransactions.set(updated.id, updated);
+    }
+    this.refreshAccountBalances();
+  }
+
+  // ========== UNDO ==========
+
+  /**
+   * Take transactions back out of the trash (Undo on a delete toast)
+   */
+  restoreDeleted(transactions: Transaction[]) {
+    this.transactionService.restoreTransactions(transactions).subscribe(result => {
+      this.onTransactionsRestored(result.succeeded);
+      if (result.failed.length > 0) {
+        console.error('❌ Restore failures:', result.failed);
+        this.showNotification(`${result.failed.length} transaction(s) could not be restored`, 'error');
+      }
+    });
+  }
+
+  /**
+   * Restored from the Trash tab or by an Undo
+   */
+  onTransactionsRestored(restored: Transaction[]) {
+    if (restored.length === 0) return;
+
+    this.transactions = [...restored, ...this.transactions]
+      .sort((a, b) => getTransactionDate(b).getTime() - getTransactionDate(a).getTime());
+    this.refreshList();
+    this.updateBudgetSpent(restored, []);
+    this.checkBudgetAfterTransaction();
+    this.showNotification(`${restored.length} transaction(s) restored`, 'success');
+  }
+
+  /**
+   * Put edited transactions back the way they were (Undo on an edit toast)
+   */
+  revertEdits(edits: { previous: Transaction; current: Transaction }[]) {
+    const updates: TransactionUpdate[] = edits.map(({ previous, current }) => ({
+      transaction: current,
+      changes: {
+        amount: previous.amount,
+        // An empty currency drops a conversion the edit added
+        currency: previous.currency ?? '',
+        originalAmount: previous.originalAmount,
+        type: previous.type,
+        category: previous.category,
+        description: previous.description,
+        date: getTransactionDate(previous),
+        accountId: previous.accountId,
+        toAccountId: previous.toAccountId,
+        payeeId: previous.payeeId,
+        splits: previous.splits ?? [],
+        tags: previous.tags
+      }
+    }));
+
+    this.transactionService.updateTransactions(updates).subscribe(result => {
+      const edited = new Map(edits.map(edit => [edit.current.id, edit.current]));
+      result.succeeded.forEach(reverted => this.replaceTransaction(reverted));
+      this.updateBudgetSpent(result.succeeded, result.succeeded.map(reverted => edited.get(reverted.id)!));
+      this.refreshList();
+      this.checkBudgetAfterTransaction();
+
+      if (result.failed.length > 0) {
+        console.error('❌ Undo failures:', result.failed);
+        this.showNotification(`${result.failed.length} change(s) could not be undone`, 'error');
+      } else {
+        this.showNotification('Change undone', 'success');
+      }
+    });
+  }
+
+  private replaceTransaction(updated: Transaction) {
+    const index = this.transactions.findIndex(t => t.id === updated.id);
+    if (index !== -1) {
+      this.transactions[index] = updated;
+    }
+    if (this.clearedTransactions.has(updated.id)) {
+      this.clearedTransactions.set(updated.id, updated);
+    }
+  }
+
+  // ========== RECONCILIATION ==========
+
+  /**
+   * Ask for the statement of the account being viewed (or the first one)
+   */
+  openReconcileSetup() {
+    const accountId = this.selectedAccountId !== 'all' ? this.selectedAccountId : this.accounts[0]?.id;
+    if (!accountId) {
+      this.showNotification('Add an account before reconciling', 'error');
+      return;
+    }
+    this.activeTab = 'transactions';
+    this.reconcileForm = { accountId, statementDate: toDateKey(new Date()), statementBalance: null };
+  }
+
+  closeReconcileSetup() {
+    this.reconcileForm = null;
+  }
+
+  getLastReconciliation(accountId: string): Reconciliation | null {
+    return this.reconciliationService.getLast(accountId);
+  }
+
+  /**
+   * Filter the list down to the account's transactions up to the statement
+   * date and start ticking them off; the cleared balance starts where the
+   * last reconciliation ended
+   */
+  startReconciliation() {
+    const form = this.reconcileForm;
+    const account = this.getAccount(form?.accountId);
+    if (!form || !account) return;
+
+    if (!form.statementDate || form.statementBalance === null || isNaN(form.statementBalance)) {
+      this.showNotification('Enter the statement date and ending balance', 'error');
+      return;
+    }
+    const last = this.reconciliationService.getLast(account.id);
+    if (last && form.statementDate < last.statementDate) {
+      this.showNotification(`${account.name} is already reconciled up to ${this.formatDateKey(last.statementDate)}`, 'error');
+      return;
+    }
+
+    this.reconciliation = {
+      account,
+      statementDate: form.statementDate,
+      statementBalance: roundCents(form.statementBalance),
+      startingBalance: getStartingBalance(account, last)
+    };
+    this.clearedTransactions.clear();
+    this.reconcileForm = null;
+    this.setFilters({ ...DEFAULT_TRANSACTION_FILTERS, accountId: account.id, endDate: form.statementDate });
+  }
+
+  isReconciled(transaction: Transaction): boolean {
+    return this.reconciliationService.isReconciled(transaction.id);
+  }
+
+  getReconciledLabel(transaction: Transaction): string {
+    const reconciliation = this.reconciliationService.getReconciliationFor(transaction.id);
+    return reconciliation ? `Reconciled with the statement of ${this.formatDateKey(reconciliation.statementDate)}` : '';
+  }
+
+  isCleared(transaction: Transaction): boolean {
+    return this.clearedTransactions.has(transaction.id);
+  }
+
+  /**
+   * Only rows of the account being reconciled that no earlier statement
+   * cleared, and that convert into the account's currency, can be ticked off
+   */
+  canClear(transaction: Transaction): boolean {
+    return !!this.reconciliation
+      && !this.isReconciled(transaction)
+      && getAffectedAccountIds(transaction).includes(this.reconciliation.account.id)
+      && getAccountEffect(transaction, this.reconciliation.account, this.exchangeRateService.getCurrencyContext()) !== null;
+  }
+
+  toggleCleared(transaction: Transaction) {
+    if (!this.canClear(transaction)) return;
+    if (this.isCleared(transaction)) {
+      this.clearedTransactions.delete(transaction.id);
+    } else {
+      this.clearedTransactions.set(transaction.id, transaction);
+    }
+  }
+
+  areAllLoadedCleared(): boolean {
+    const clearable = this.filteredTransactions.filter(t => this.canClear(t));
+    return clearable.length > 0 && clearable.every(t => this.isCleared(t));
+  }
+
+  toggleAllLoadedCleared() {
+    const clear = !this.areAllLoadedCleared();
+    this.filteredTransactions
+      .filter(t => this.canClear(t))
+      .forEach(t => clear ? this.clearedTransactions.set(t.id, t) : this.clearedTransactions.delete(t.id));
+  }
+
+  getClearedBalance(): number {
+    const active = this.reconciliation;
+    return active
+      ? getClearedBalance(
+        active.startingBalance,
+        active.account,
+        [...this.clearedTransactions.values()],
+        this.exchangeRateService.getCurrencyContext()
+      )
+      : 0;
+  }
+
+  /**
+   * What the statement says minus what has been ticked off; the
+   * reconciliation can be finished once it is zero
+   */
+  getReconcileDifference(): number {
+    return this.reconciliation ? roundCents(this.reconciliation.statementBalance - this.getClearedBalance()) : 0;
+  }
+
+  /**
+   * Record the statement and lock the cleared rows
+   */
+  finishReconciliation() {
+    const active = this.reconciliation;
+    if (!active || this.getReconcileDifference() !== 0) return;
+
+    this.reconciliationService.add({
+      accountId: active.account.id,
+      statementDate: active.statementDate,
+      statementBalance: active.statementBalance,
+      transactionIds: [...this.clearedTransactions.keys()]
+    });
+    this.showNotification(
+      `${active.account.name} reconciled up to ${this.formatDateKey(active.statementDate)}`,
+      'success'
+    );
+    this.endReconciliation();
+  }
+
+  cancelReconciliation() {
+    if (this.clearedTransactions.size > 0 && !confirm('Stop reconciling? The ticked transactions will not be saved.')) return;
+    this.endReconciliation();
+  }
+
+  private endReconciliation() {
+    this.reconciliation = null;
+    this.clearedTransactions.clear();
+    this.setFilters(DEFAULT_TRANSACTION_FILTERS);
+  }
+
+  /**
+   * Reconciled rows are locked: deleting them, or changing what they do to
+   * an account balance or their date, needs a confirmation. Rows without
+   * changes are about to be deleted.
    */
-  subscribeToSettingsChanges() {
-    const appSettingsSub = this.settingsService.appSettings$.subscribe(settings => {
-      console.log('🔄 App settings changed, updating UI');
-      // Re-render transactions with new currency/date formats
-      this.applyFilters();
-    });
+  private confirmReconciledChange(updates: { transaction: Transaction; changes?: Partial<Transaction> }[]): boolean {
+    const locked = updates.filter(({ transaction, changes }) =>
+      this.isReconciled(transaction) && (!changes || this.changesReconciledFigures(transaction, changes)));
+    if (locked.length === 0) return true;
+
+    const subject = locked.length === 1 ? 'This transaction has' : `${locked.length} of these transactions have`;
+    const action = locked[0].changes ? 'Changing' : 'Deleting';
+    return confirm(`${subject} been reconciled with a bank statement. ${action} ${locked.length === 1 ? 'it' : 'them'} will make the statement stop matching. Continue?`);
+  }
 
-    const budgetSettingsSub = this.settingsService.budgetSettings$.subscribe(budgetSettings => {
-      console.log('🔄 Budget settings changed, updating categories');
-      // Update categories if budget categories changed
-      if (budgetSettings.categories && budgetSettings.categories.length > 0) {
-        const customCategories = budgetSettings.categories.map(cat => cat.name);
-        this.categories.expense = [
-          ...new Set([...['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Healthcare'], ...customCategories])
-        ];
-      }
-    });
+  private changesReconciledFigures(transaction: Transaction, changes: Partial<Transaction>): boolean {
+    const changed: Transaction = { ...transaction, ...changes };
+    if (toDateKey(getTransactionDate(changed)) !== toDateKey(getTransactionDate(transaction))) return true;
 
-    this.subscriptions.push(appSettingsSub, budgetSettingsSub);
+    const accountIds = new Set([...getAffectedAccountIds(transaction), ...getAffectedAccountIds(changed)]);
+    return [...accountIds].some(id => getBalanceEffect(changed, id) !== getBalanceEffect(transaction, id));
   }
 
-  loadTransactions() {
-    this.transactionService.getTransactions('all').subscribe(transactions => {
-      this.transactions = transactions;
-      this.applyFilters();
-    });
+  // ========== BULK ACTIONS ==========
+
+  isSelected(transaction: Transaction): boolean {
+    return this.selectedTransactions.has(transaction.id);
   }
 
-  applyFilters() {
-    this.filteredTransactions = this.transactions.filter(transaction => {
-      const matchesSearch = transaction.description.toLowerCase().includes(this.searchTerm.toLowerCase()) ||
-        transaction.category.toLowerCase().includes(this.searchTerm.toLowerCase());
+  getSelection(): Transaction[] {
+    return [...this.selectedTransactions.values()];
+  }
 
-      const matchesType = this.selectedType === 'all' || transaction.type === this.selectedType;
+  /**
+   * Shift-click selects (or clears) every row between the last clicked
+   * row and this one
+   */
+  toggleSelection(transaction: Transaction, index: number, event: MouseEvent) {
+    const select = !this.isSelected(transaction);
+    const rows = event.shiftKey && this.lastSelectedIndex !== null
+      ? this.getDisplayedTransactions().slice(Math.min(this.lastSelectedIndex, index), Math.max(this.lastSelectedIndex, index) + 1)
+      : [transaction];
+
+    rows.forEach(row => select ? this.selectedTransactions.set(row.id, row) : this.selectedTransactions.delete(row.id));
+    this.lastSelectedIndex = index;
+  }
 
-      const matchesCategory = this.selectedCategory === 'all' || transaction.category === this.selectedCategory;
+  areAllLoadedSelected(): boolean {
+    return this.filteredTransactions.length > 0 && this.filteredTransactions.every(t => this.isSelected(t));
+  }
 
-      const matchesDate = !this.dateRange.start || !this.dateRange.end ||
-        (new Date(transaction.createdAt) >= new Date(this.dateRange.start) &&
-          new Date(transaction.createdAt) <= new Date(this.dateRange.end));
+  toggleAllLoaded() {
+    const select = !this.areAllLoadedSelected();
+    this.filteredTransactions.forEach(t => select ? this.selectedTransactions.set(t.id, t) : this.selectedTransactions.delete(t.id));
+  }
 
-      return matchesSearch && matchesType && matchesCategory && matchesDate;
-    });
+  canSelectAllMatching(): boolean {
+    return this.areAllLoadedSelected() && this.selectedTransactions.size < this.totalCount;
   }
 
-  addTransaction() {
-    if (
-      !this.newTransaction.amount ||
-      !this.newTransaction.category ||
-      !this.newTransaction.description ||
-      !this.newTransaction.type
-    ) {
-      this.showNotification('Please fill in all required fields', 'error');
+  /**
+   * Select every transaction matching the filters, not only the loaded rows
+   */
+  selectAllMatching() {
+    if (this.isLocalSearch()) {
+      if (!this.historyLoaded) return;
+      this.getLocalMatches().forEach(t => this.selectedTransactions.set(t.id, t));
       return;
     }
 
-    const payload = {
-      amount: this.newTransaction.amount,
-      type: this.newTransaction.type,
-      category: this.newTransaction.category,
-      source: this.newTransaction.category,
-      description: this.newTransaction.description
-    };
+    this.isSelectingAll = true;
+    const limit = Math.min(this.totalCount, MAX_BULK_SELECTION);
+    this.transactionService.getTransactionPage({ ...this.buildQuery(), page: 1, limit }).subscribe(result => {
+      result.items.forEach(t => this.selectedTransactions.set(t.id, t));
+      this.isSelectingAll = false;
+      if (this.totalCount > MAX_BULK_SELECTION) {
+        this.showNotification(`Only the first ${MAX_BULK_SELECTION} matching transactions were selected`, 'error');
+      }
+    });
+  }
 
-    this.transactionService.addTransaction(payload).subscribe({
-      next: (createdTransaction) => {
-        this.transactions.unshift(createdTransaction);
-        this.applyFilters();
-        this.closeAddModal();
-        this.resetForm();
+  clearSelection() {
+    this.selectedTransactions.clear();
+    this.lastSelectedIndex = null;
+    this.bulkFailures = [];
+  }
 
-        // Update budget category spent amount
-        this.updateBudgetCategorySpent(createdTransaction);
+  bulkSetCategory() {
+    const category = this.bulkCategory;
+    this.bulkCategory = '';
+    if (!category) return;
 
-        // Show success notification if enabled
-        this.showNotification('Transaction added successfully', 'success');
+    // A new category replaces any split; transfers have no category
+    this.runBulkUpdate(`Moved to ${category}`, t =>
+      t.type === 'transfer' || (t.category === category && !t.splits?.length) ? null : { category, splits: [] });
+  }
 
-        // Check budget alerts
-        this.checkBudgetAfterTransaction();
-      },
-      error: (err) => {
-        console.error('❌ Failed to add transaction', err);
-        this.showNotification('Failed to add transaction', 'error');
-      }
-    });
+  bulkSetType() {
+    const type = this.bulkType;
+    this.bulkType = '';
+    if (!type) return;
+
+    this.runBulkUpdate(`Changed to ${type}`, t => t.type === 'transfer' || t.type === type ? null : { type });
   }
 
-  editTransaction(transaction: Transaction) {
-    console.log('Opening edit modal for transaction:', transaction);
-    this.editingTransactionId = transaction.id;
-    this.editingTransaction = {
-      type: transaction.type,
-      amount: transaction.amount,
-      category: transaction.category,
-      description: transaction.description,
-      createdAt: transaction.createdAt
-    };
-    this.showEditModal = true;
+  bulkAddTag() {
+    const tag = normalizeTag(this.bulkTag);
+    if (!tag) return;
+    this.bulkTag = '';
+
+    this.runBulkUpdate(`Tagged #${tag}`, t => t.tags.includes(tag) ? null : { tags: [...t.tags, tag] });
   }
 
-  updateTransaction() {
-    console.log('Update transaction called');
-    if (
-      !this.editingTransaction.amount ||
-      !this.editingTransaction.category ||
-      !this.editingTransaction.description ||
-      !this.editingTransaction.type
-    ) {
-      console.log('Validation failed');
-      this.showNotification('Please fill in all required fields', 'error');
-      return;
-    }
+  bulkRemoveTag() {
+    const tag = normalizeTag(this.bulkTag);
+    if (!tag) return;
+    this.bulkTag = '';
 
-    const payload = {
-      amount: this.editingTransaction.amount,
-      type: this.editingTransaction.type,
-      category: this.editingTransaction.category,
-      source: this.editingTransaction.category,
-      description: this.editingTransaction.description
-    };
+    this.runBulkUpdate(`Removed #${tag}`, t => t.tags.includes(tag) ? { tags: t.tags.filter(existing => existing !== tag) } : null);
+  }
 
-    console.log('Updating transaction with payload:', payload);
+  bulkApplyRules() {
+    this.runBulkUpdate('Rules applied', t => {
+      const { changes } = this.ruleService.apply(t);
+      return Object.keys(changes).length > 0 ? changes : null;
+    });
+  }
 
-    if (typeof this.transactionService.updateTransaction === 'function') {
-      this.transactionService.updateTransaction(
-        this.editingTransactionId,
-        this.editingTransaction.type!,
-        payload
-      ).subscribe({
-        next: (updatedTransaction) => {
-          console.log('✅ Transaction updated successfully', updatedTransaction);
-          const index = this.transactions.findIndex(t => t.id === this.editingTransactionId);
-          if (index !== -1) {
-            this.transactions[index] = updatedTransaction;
-          }
-          this.applyFilters();
-          this.closeEditModal();
+  bulkExport() {
+    this.exportTransactions(this.getSelection());
+  }
 
-          // Update budget tracking
-          this.updateBudgetCategorySpent(updatedTransaction);
+  bulkDelete() {
+    const selection = this.getSelection();
+    if (!this.confirmReconciledChange(selection.map(transaction => ({ transaction })))) return;
 
-          // Show success notification
-          this.showNotification('Transaction updated successfully', 'success');
+    this.isBulkRunning = true;
+    this.transactionService.deleteTransactions(selection).subscribe(result => {
+      this.isBulkRunning = false;
+      const deleted = new Set(result.succeeded);
+      const removed = selection.filter(t => deleted.has(t.id));
 
-          // Check budget alerts
-          this.checkBudgetAfterTransaction();
-        },
-        error: (err) => {
-          console.error('❌ Failed to update transaction', err);
-          this.showNotification('Failed to update transaction', 'error');
-        }
-      });
-    } else {
-      console.error('❌ updateTransaction method not found in service');
-      this.showNotification('Update functionality not available', 'error');
-    }
+      this.transactions = this.transactions.filter(t => !deleted.has(t.id));
+      removed.forEach(t => this.clearedTransactions.delete(t.id));
+      this.updateBudgetSpent([], removed);
+      this.finishBulkAction('Moved to trash', selection, result, () => this.restoreDeleted(removed));
+    });
   }
 
-  deleteTransaction(transaction: Transaction) {
-    if (confirm('Are you sure you want to delete this transaction?')) {
-      console.log('Deleting transaction:', transaction.id, 'type:', transaction.type);
+  /**
+   * Send one change per selected row (rows the change does not apply to are
+   * skipped), then fix up the list and budget tracking for the ones that went through
+   */
+  private runBulkUpdate(label: string, change: (transaction: Transaction) => Partial<TransactionDraft> | null) {
+    const selection = this.getSelection();
+    const updates: TransactionUpdate[] = selection
+      .map(transaction => ({ transaction, changes: change(transaction) }))
+      .filter((update): update is TransactionUpdate => update.changes !== null);
+
+    if (updates.length === 0) {
+      this.showNotification('Nothing in the selection needs that change', 'error');
+      return;
+    }
+    if (!this.confirmReconciledChange(updates)) return;
 
-      this.transactionService.deleteTransaction(transaction.id, transaction.type).subscribe({
-        next: () => {
-          console.log('✅ Transaction deleted successfully');
-          this.transactions = this.transactions.filter(t => t.id !== transaction.id);
-          this.applyFilters();
+    this.isBulkRunning = true;
+    this.transactionService.updateTransactions(updates).subscribe(result => {
+      this.isBulkRunning = false;
+      const previous = result.succeeded.map(updated => this.selectedTransactions.get(updated.id)!);
 
-          // Update budget tracking
-          this.updateBudgetCategorySpent(transaction, true);
+      result.succeeded.forEach(updated => this.replaceTransaction(updated));
+      this.updateBudgetSpent(result.succeeded, previous);
+      this.finishBulkAction(label, updates.map(u => u.transaction), result, () =>
+        this.revertEdits(result.succeeded.map((current, i) => ({ previous: previous[i], current }))));
+    });
+  }
 
-          // Show success notification
-          this.showNotification('Transaction deleted successfully', 'success');
-        },
-        error: (err) => {
-          console.error('❌ Failed to delete transaction', err);
-          this.showNotification('Failed to delete transaction', 'error');
-        }
-      });
+  /**
+   * Drop the finished rows from the selection and keep the failed ones
+   * selected, so the action can be retried
+   */
+  private finishBulkAction(label: string, attempted: Transaction[], result: BulkResult<unknown>, undo: () => void) {
+    const failedIds = new Set(result.failed.map(f => f.id));
+    attempted.filter(t => !failedIds.has(t.id)).forEach(t => this.selectedTransactions.delete(t.id));
+    this.bulkFailures = result.failed.map(failure => ({
+      transaction: attempted.find(t => t.id === failure.id)!,
+      error: failure.error
+    }));
+
+    this.refreshList();
+    this.checkBudgetAfterTransaction();
+
+    const done = result.succeeded.length;
+    if (result.failed.length > 0) {
+      console.error('❌ Bulk action failures:', result.failed);
+      this.showNotification(`${label}: ${done} done, ${result.failed.length} failed`, 'error');
+    } else {
+      this.showNotification(`${label}: ${done} transaction(s)`, 'success', { label: 'Undo', run: undo });
     }
   }
 
   /**
-   * Update budget category spent amount after transaction changes
+   * Upload receipts one at a time after the transaction exists, then attach
+   * them to the row in the list
    */
-  updateBudgetCategorySpent(transaction: Transaction, isDelete: boolean = false) {
-    if (transaction.type !== 'expense') return;
+  private uploadAttachments(transactionId: string, files: File[]) {
+    if (files.length === 0) return;
+
+    let failed = 0;
+    from(files).pipe(
+      concatMap(file => this.transactionService.uploadAttachment(transactionId, file, file.name).pipe(
+        catchError(err => {
+          console.error('❌ Failed to upload attachment', err);
+          failed++;
+          return EMPTY;
+        })
+      )),
+      toArray()
+    ).subscribe(uploaded => {
+      this.getLoadedCopies(transactionId).forEach(transaction => {
+        transaction.attachments = [...(transaction.attachments ?? []), ...uploaded];
+      });
+      if (failed > 0) {
+        this.showNotification(`${failed} attachment(s) could not be uploaded`, 'error');
+      }
+    });
+  }
 
-    const budgetSettings = this.settingsService.getBudgetSettings();
-    const categoryIndex = budgetSettings.categories.findIndex(
-      cat => cat.name.toLowerCase() === transaction.category.toLowerCase()
-    );
+  /**
+   * Delete an uploaded attachment from the edit modal
+   */
+  removeAttachment(attachment: Attachment) {
+    if (!confirm(`Delete the attachment "${attachment.fileName}"?`)) return;
+
+    const transactionId = this.editingTransactionId;
+    this.transactionService.deleteAttachment(transactionId, attachment.id).subscribe({
+      next: () => {
+        const withoutAttachment = (attachments?: Attachment[]) => (attachments ?? []).filter(a => a.id !== attachment.id);
+        this.editingTransaction.attachments = withoutAttachment(this.editingTransaction.attachments);
+
+        this.getLoadedCopies(transactionId).forEach(transaction => {
+          transaction.attachments = withoutAttachment(transaction.attachments);
+        });
+        this.showNotification('Attachment deleted', 'success');
+      },
+      error: (err) => {
+        console.error('❌ Failed to delete attachment', err);
+        this.showNotification('Failed to delete attachment', 'error');
+      }
+    });
+  }
 
-    if (categoryIndex !== -1) {
-      const category = budgetSettings.categories[categoryIndex];
+  /**
+   * A transaction can be loaded twice: in the recent list and on the page
+   */
+  private getLoadedCopies(transactionId: string): Transaction[] {
+    return [...this.transactions, ...this.filteredTransactions].filter(t => t.id === transactionId);
+  }
 
-      if (isDelete) {
-        // Subtract from spent amount when deleting
-        category.spent = Math.max(0, category.spent - transaction.amount);
-      } else {
-        // Add to spent amount when adding
-        category.spent += transaction.amount;
-      }
+  openLightbox(transaction: Transaction, index: number) {
+    this.lightboxTransaction = transaction;
+    this.lightboxIndex = index;
+  }
 
-      // Update settings
-      this.settingsService.updateBudgetSettings(budgetSettings);
+  closeLightbox() {
+    this.lightboxTransaction = null;
+  }
 
-      console.log(`📊 Updated ${category.name} budget: ${category.spent}/${category.budget}`);
-    }
+  openHistory(transaction: Transaction) {
+    this.historyTransaction = transaction;
+  }
+
+  closeHistory() {
+    this.historyTransaction = null;
+  }
+
+  /**
+   * Update budget category spent amount after transaction changes.
+   */
+  updateBudgetCategorySpent(transaction: Transaction, isDelete: boolean = false) {
+    this.updateBudgetSpent(isDelete ? [] : [transaction], isDelete ? [transaction] : []);
+  }
+
+  /**
+   * Count added expenses towards their budget categories and take removed
+   * ones off
+   */
+  updateBudgetSpent(added: Transaction[], removed: Transaction[]) {
+    this.settingsService.updateBudgetSpent(added, removed);
   }
 
   /**
@@ -327,13 +1877,15 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     console.log('🔍 Checking budget alerts...');
     console.log('Alert threshold:', budgetSettings.alertThreshold);
 
-    // Calculate total expenses this month
+    // Calculate total expenses this month, by value date
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const startOfNextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
     const monthExpenses = this.transactions
       .filter(t =>
         t.type === 'expense' &&
-        new Date(t.createdAt) >= startOfMonth
+        getTransactionDate(t) >= startOfMonth &&
+        getTransactionDate(t) < startOfNextMonth
       )
       .reduce((sum, t) => sum + t.amount, 0);
 
@@ -644,9 +2196,9 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Show notification toast
+   * Show a toast; with an action (e.g. Undo) it stays up longer and shows a button
    */
-  showNotification(message: string, type: 'success' | 'error') {
+  showNotification(message: string, type: 'success' | 'error', action?: ToastAction) {
     const toast = document.createElement('div');
     toast.className = `toast toast-${type}`;
     toast.textContent = message;
@@ -662,12 +2214,32 @@ export class TransactionsComponent implements OnInit, OnDestroy {
       z-index: 10000;
       animation: slideIn 0.3s ease;
     `;
+
+    if (action) {
+      const button = document.createElement('button');
+      button.textContent = action.label;
+      button.style.cssText = `
+        margin-left: 16px;
+        background: none;
+        border: 1px solid rgba(255, 255, 255, 0.7);
+        border-radius: 4px;
+        color: white;
+        font-weight: 600;
+        padding: 2px 10px;
+        cursor: pointer;
+      `;
+      button.addEventListener('click', () => {
+        toast.remove();
+        action.run();
+      }, { once: true });
+      toast.appendChild(button);
+    }
     document.body.appendChild(toast);
 
     setTimeout(() => {
       toast.style.animation = 'slideOut 0.3s ease';
       setTimeout(() => toast.remove(), 300);
-    }, 3000);
+    }, action ? UNDO_TIMEOUT : 3000);
   }
 
   openAddModal() {
@@ -681,10 +2253,35 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     this.resetForm();
   }
 
+  openImportModal() {
+    this.showImportModal = true;
+  }
+
+  closeImportModal() {
+    this.showImportModal = false;
+  }
+
+  openDuplicateFinder() {
+    this.showDuplicateFinder = true;
+  }
+
+  closeDuplicateFinder() {
+    this.showDuplicateFinder = false;
+  }
+
+  openAccountManager() {
+    this.showAccountManager = true;
+  }
+
+  closeAccountManager() {
+    this.showAccountManager = false;
+  }
+
   closeEditModal() {
     this.showEditModal = false;
     this.editingTransaction = {};
     this.editingTransactionId = '';
+    this.editAttachmentFiles = [];
   }
 
   resetForm() {
@@ -694,9 +2291,129 @@ export class TransactionsComponent implements OnInit, OnDestroy {
       amount: 0,
       category: '',
       description: '',
-      createdAt: new Date(),
+      currency: appSettings.currency,
+      // New transactions go to the account being viewed, else the first one
+      accountId: this.selectedAccountId !== 'all' ? this.selectedAccountId : this.accounts[0]?.id,
+      tags: [],
+      date: new Date(),
       updatedAt: new Date()
     };
+    this.newAttachmentFiles = [];
+    this.duplicateMatches = [];
+    this.ruleCategory = null;
+    this.ruleNames = [];
+    this.payeePicked = false;
+  }
+
+  /**
+   * Switch a form between a single category and split lines; the first line
+   * starts with the whole amount in the current category
+   */
+  toggleSplit(form: Partial<Transaction>) {
+    if (form.splits) {
+      form.category = getSplitParentCategory(form.splits);
+      delete form.splits;
+    } else {
+      form.splits = [
+        { category: form.category || '', amount: form.amount || 0 },
+        { category: '', amount: 0 }
+      ];
+    }
+  }
+
+  /**
+   * Transfers need two different accounts and carry no category of their
+   * own. Returns false (after notifying) when the transfer is invalid.
+   */
+  private prepareTransfer(form: Partial<Transaction>): boolean {
+    if (form.type !== 'transfer') {
+      delete form.toAccountId;
+      return true;
+    }
+
+    if (!form.accountId || !form.toAccountId || form.accountId === form.toAccountId) {
+      this.showNotification('A transfer needs two different accounts', 'error');
+      return false;
+    }
+
+    delete form.splits;
+    form.category = 'Transfer';
+    return true;
+  }
+
+  /**
+   * Validate split lines and derive the parent category from them.
+   * Returns false (after notifying) when the split is invalid.
+   */
+  private prepareSplits(form: Partial<Transaction>): boolean {
+    if (!form.splits) return true;
+
+    const error = getSplitsError(form.splits, form.amount || 0);
+    if (error) {
+      this.showNotification(error, 'error');
+      return false;
+    }
+
+    form.splits = form.splits.map((line): SplitLine => ({
+      category: line.category,
+      amount: roundCents(line.amount),
+      ...(line.note?.trim() && { note: line.note.trim() })
+    }));
+    form.category = getSplitParentCategory(form.splits);
+    return true;
+  }
+
+  // ========== CURRENCIES ==========
+
+  getBaseCurrency(): string {
+    return this.settingsService.getAppSettings().currency;
+  }
+
+  getCurrencies(): string[] {
+    return this.settingsService.getCurrencies();
+  }
+
+  /**
+   * Amount and split lines of a form in the base currency. A form in another
+   * currency is converted at the rate closest to its date and keeps what was
+   * paid; null (after notifying) when the currency has no rate on file.
+   */
+  private toBaseCurrency(form: Partial<Transaction>): Pick<Transaction, 'amount' | 'splits' | 'currency' | 'originalAmount'> | null {
+    const base = this.getBaseCurrency();
+    const amount = roundCents(form.amount ?? 0);
+    if (!form.currency || form.currency === base) {
+      return { amount, splits: form.splits };
+    }
+
+    const rate = this.exchangeRateService.getRate(form.currency, base, toDateKey(new Date(form.date ?? new Date())));
+    if (rate === null) {
+      this.showNotification(`No ${form.currency} → ${base} exchange rate yet; add one in Settings`, 'error');
+      return null;
+    }
+    const converted = convertAmount(amount, rate);
+    return {
+      amount: converted,
+      splits: form.splits && rescaleSplits(form.splits, converted),
+      currency: form.currency,
+      originalAmount: amount
+    };
+  }
+
+  /**
+   * The form's amount in the base currency, shown under a foreign amount
+   */
+  getConversionHint(form: Partial<Transaction>): string | null {
+    const base = this.getBaseCurrency();
+    if (!form.currency || form.currency === base) return null;
+
+    const rate = this.exchangeRateService.getRate(form.currency, base, toDateKey(new Date(form.date ?? new Date())));
+    return rate === null
+      ? `No ${form.currency} → ${base} rate yet; add one in Settings`
+      : `≈ ${this.formatCurrency(convertAmount(form.amount ?? 0, rate))} at ${rate.toFixed(4)}`;
+  }
+
+  getOriginalAmount(transaction: Transaction): string | null {
+    return this.settingsService.formatOriginalAmount(transaction);
   }
 
   getCategories() {
@@ -707,6 +2424,10 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     return this.editingTransaction.type === 'expense' ? this.categories.expense : this.categories.revenue;
   }
 
+  private getFormCategories(form: Partial<Transaction>) {
+    return form === this.newTransaction ? this.getCategories() : this.getEditCategories();
+  }
+
   /**
    * Get all unique categories for filter dropdown
    */
@@ -717,10 +2438,59 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Format currency using settings service
+   * Categories the search box suggests: the configured ones plus any in use
+   */
+  getSearchCategories(): string[] {
+    return [...new Set([...this.categories.expense, ...this.categories.revenue, ...this.getAllCategories()])];
+  }
+
+  getAccountName(id: string): string | undefined {
+    return this.getAccount(id)?.name;
+  }
+
+  getAccountNames(): string[] {
+    return this.accounts.map(a => a.name);
+  }
+
+  /**
+   * Get all tags in use, for the tag filter and autocomplete
+   */
+  getAllTags(): string[] {
+    const allTags = new Set<string>();
+    this.transactions.forEach(t => t.tags.forEach(tag => allTags.add(tag)));
+    return Array.from(allTags).sort();
+  }
+
+  /**
+   * Split lines as one line of text, for the row tooltip
+   */
+  describeSplits(transaction: Transaction): string {
+    return (transaction.splits ?? [])
+      .map(line => `${line.category} ${this.formatCurrency(line.amount)}${line.note ? ` (${line.note})` : ''}`)
+      .join(', ');
+  }
+
+  getAccount(accountId?: string): Account | undefined {
+    return accountId ? this.accounts.find(a => a.id === accountId) : undefined;
+  }
+
+  /**
+   * Balance shown next to a row: the account being viewed when the
+   * transaction touches it, otherwise the transaction's (source) account
    */
-  formatCurrency(amount: number): string {
-    return this.settingsService.formatCurrency(amount);
+  getRunningBalance(transaction: Transaction): { account: Account; balance: number } | null {
+    const balances = this.runningBalances.get(transaction.id);
+    const accountId = balances?.has(this.selectedAccountId) ? this.selectedAccountId : transaction.accountId;
+    const account = this.getAccount(accountId);
+    if (!balances || !account || !balances.has(account.id)) return null;
+    return { account, balance: balances.get(account.id)! };
+  }
+
+  /**
+   * Format currency using settings service (in the account's currency when given)
+   */
+  formatCurrency(amount: number, currency?: string): string {
+    return this.settingsService.formatCurrency(amount, currency);
   }
 
   /**
@@ -730,15 +2500,20 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     return this.settingsService.formatDate(date);
   }
 
+  // YYYY-MM-DD keys are local days; parsing them as Date strings would read UTC
+  formatDateKey(key: string): string {
+    return this.formatDate(fromDateKey(key));
+  }
+
   /**
-   * Format date for input field (always YYYY-MM-DD for HTML5 date input)
+   * Value for an <input type="date">, and back; an emptied input gives undefined
    */
-  formatDateForInput(date: Date): string {
-    const d = new Date(date);
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  toDateInput(date: Date | undefined): string {
+    return date ? toDateKey(new Date(date)) : '';
+  }
+
+  fromDateInput(value: string): Date | undefined {
+    return value ? fromDateKey(value) : undefined;
   }
 
   /**
@@ -749,18 +2524,17 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Calculate total for current filter
+   * Calculate total for current filter (transfers only move money around)
    */
   getTotalAmount(): number {
-    return this.filteredTransactions
-      .reduce((sum, t) => sum + (t.type === 'expense' ? -t.amount : t.amount), 0);
+    return this.getTotalRevenue() - this.getTotalExpenses();
   }
 
   /**
    * Calculate total expenses for current filter
    */
-  getTotalExpenses(): number {
-    return this.filteredTransactions
+  getTotalExpenses(transactions: Transaction[] = this.filteredTransactions): number {
+    return transactions
       .filter(t => t.type === 'expense')
       .reduce((sum, t) => sum + t.amount, 0);
   }
@@ -768,37 +2542,44 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   /**
    * Calculate total revenue for current filter
    */
-  getTotalRevenue(): number {
-    return this.filteredTransactions
+  getTotalRevenue(transactions: Transaction[] = this.filteredTransactions): number {
+    return transactions
       .filter(t => t.type === 'revenue')
       .reduce((sum, t) => sum + t.amount, 0);
   }
 
   /**
-   * Export filtered transactions
+   * Export filtered transactions, or the transactions of a saved view
    */
-  exportTransactions() {
+  exportTransactions(transactions: Transaction[] = this.filteredTransactions, preset?: FilterPreset) {
     const appSettings = this.settingsService.getAppSettings();
+    const filters = preset ? resolvePresetFilters(preset) : this.getCurrentFilters();
 
     const exportData = {
-      transactions: this.filteredTransactions.map(t => ({
-        date: this.formatDate(t.createdAt),
+      ...(preset && { view: preset.name }),
+      transactions: transactions.map(t => ({
+        date: this.formatDate(getTransactionDate(t)),
         type: t.type,
+        account: this.getAccount(t.accountId)?.name ?? '',
+        ...(t.type === 'transfer' && { toAccount: this.getAccount(t.toAccountId)?.name ?? '' }),
         category: t.category,
         description: t.description,
+        tags: t.tags,
         amount: this.formatCurrency(t.amount)
       })),
       summary: {
-        totalExpenses: this.formatCurrency(this.getTotalExpenses()),
-        totalRevenue: this.formatCurrency(this.getTotalRevenue()),
-        net: this.formatCurrency(this.getTotalAmount()),
-        count: this.filteredTransactions.length
+        totalExpenses: this.formatCurrency(this.getTotalExpenses(transactions)),
+        totalRevenue: this.formatCurrency(this.getTotalRevenue(transactions)),
+        net: this.formatCurrency(this.getTotalRevenue(transactions) - this.getTotalExpenses(transactions)),
+        count: transactions.length
       },
       filters: {
-        type: this.selectedType,
-        category: this.selectedCategory,
-        dateRange: this.dateRange,
-        search: this.searchTerm
+        account: filters.accountId === 'all' ? 'all' : this.getAccountName(filters.accountId),
+        type: filters.type,
+        category: filters.category,
+        tag: filters.tag,
+        dateRange: { start: filters.startDate, end: filters.endDate },
+        search: filters.search
       },
       exportDate: new Date().toISOString(),
       currency: appSettings.currency
@@ -809,7 +2590,8 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `transactions-${new Date().toISOString().split('T')[0]}.json`;
+    const viewSlug = preset ? `${preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-` : '';
+    link.download = `transactions-${viewSlug}${new Date().toISOString().split('T')[0]}.json`;
     link.click();
     URL.revokeObjectURL(url);
 
@@ -0,0 +1,28 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TrashComponent } from './trash.component';
+
+describe('TrashComponent', () => {
+  let component: TrashComponent;
+  let fixture: ComponentFixture<TrashComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TrashComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TrashComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show an empty trash when nothing is deleted', () => {
+    expect(component.isLoading).toBe(false);
+    expect(fixture.nativeElement.querySelector('.trash-empty').textContent).toContain('The trash is empty.');
+  });
+});
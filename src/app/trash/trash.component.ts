@@ -0,0 +1,106 @@
+// trash.component.ts
+import { Component, EventEmitter, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TransactionService } from '../services/transaction.service';
+import { SettingsService } from '../services/settings.service';
+import { Transaction } from '../models/transaction.model';
+
+/**
+ * Deleted transactions waiting in the trash: restore them or purge them
+ * for good
+ */
+@Component({
+  selector: 'app-trash',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './trash.component.html',
+  styleUrls: ['./trash.component.scss']
+})
+export class TrashComponent implements OnInit {
+  @Output() restored = new EventEmitter<Transaction[]>();
+
+  deleted: Transaction[] = [];
+  isLoading = false;
+  isWorking = false;
+  error = '';
+
+  constructor(
+    private transactionService: TransactionService,
+    private settingsService: SettingsService
+  ) { }
+
+  ngOnInit() {
+    this.loadTrash();
+  }
+
+  loadTrash() {
+    this.isLoading = true;
+    this.transactionService.getDeletedTransactions().subscribe(deleted => {
+      this.deleted = deleted;
+      this.isLoading = false;
+    });
+  }
+
+  restore(transactions: Transaction[]) {
+    this.isWorking = true;
+    this.error = '';
+
+    this.transactionService.restoreTransactions(transactions).subscribe(result => {
+      this.isWorking = false;
+      const restoredIds = new Set(result.succeeded.map(t => t.id));
+      this.deleted = this.deleted.filter(t => !restoredIds.has(t.id));
+      if (result.succeeded.length > 0) {
+        this.restored.emit(result.succeeded);
+      }
+      if (result.failed.length > 0) {
+        this.error = `${result.failed.length} transaction(s) could not be restored: ${result.failed[0].error}`;
+      }
+    });
+  }
+
+  purge(transaction: Transaction) {
+    if (!confirm(`Permanently delete "${transaction.description}"? This cannot be undone.`)) return;
+
+    this.isWorking = true;
+    this.error = '';
+    this.transactionService.purgeTransaction(transaction.id).subscribe({
+      next: () => {
+        this.deleted = this.deleted.filter(t => t.id !== transaction.id);
+        this.isWorking = false;
+      },
+      error: () => {
+        this.error = 'Failed to delete the transaction permanently';
+        this.isWorking = false;
+      }
+    });
+  }
+
+  emptyTrash() {
+    if (!confirm(`Permanently delete all ${this.deleted.length} transaction(s) in the trash? This cannot be undone.`)) return;
+
+    this.isWorking = true;
+    this.error = '';
+    this.transactionService.emptyTrash().subscribe({
+      next: () => {
+        this.deleted = [];
+        this.isWorking = false;
+      },
+      error: () => {
+        this.error = 'Failed to empty the trash';
+        this.isWorking = false;
+      }
+    });
+  }
+
+  formatCurrency(amount: number): string {
+    return this.settingsService.formatCurrency(amount);
+  }
+
+  getOriginalAmount(row: { currency?: string; originalAmount?: number }): string | null {
+    return this.settingsService.formatOriginalAmount(row);
+  }
+
+  formatDate(date: Date | string): string {
+    return this.settingsService.formatDate(date);
+  }
+}
@@ -0,0 +1,48 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { VirtualScrollComponent, getVirtualRange } from './virtual-scroll.component';
+
+describe('VirtualScrollComponent', () => {
+  let component: VirtualScrollComponent<number>;
+  let fixture: ComponentFixture<VirtualScrollComponent<number>>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [VirtualScrollComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(VirtualScrollComponent<number>);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should keep the scroll position when the items change', () => {
+    fixture.componentRef.setInput('items', Array.from({ length: 1000 }, (_, i) => i));
+    fixture.detectChanges();
+    component.scrollToIndex(500);
+
+    fixture.componentRef.setInput('items', Array.from({ length: 999 }, (_, i) => i));
+    fixture.detectChanges();
+
+    expect(component.range.start).toBe(500 - component.overscan);
+    expect(component.getTopPadding() + component.visibleItems.length * 56 + component.getBottomPadding()).toBe(999 * 56);
+  });
+});
+
+describe('getVirtualRange', () => {
+  it('should render the rows in view plus overscan on both sides', () => {
+    expect(getVirtualRange(0, 560, 56, 50000, 5)).toEqual({ start: 0, end: 16 });
+    expect(getVirtualRange(56 * 1000, 560, 56, 50000, 5)).toEqual({ start: 995, end: 1016 });
+  });
+
+  it('should clamp to the list bounds', () => {
+    expect(getVirtualRange(56 * 49999, 560, 56, 50000, 5)).toEqual({ start: 49994, end: 50000 });
+    expect(getVirtualRange(-100, 560, 56, 3, 5)).toEqual({ start: 0, end: 3 });
+    expect(getVirtualRange(0, 560, 56, 0, 5)).toEqual({ start: 0, end: 0 });
+  });
+});
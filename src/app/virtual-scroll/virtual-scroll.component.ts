@@ -0,0 +1,104 @@
+// virtual-scroll.component.ts
+import {
+  Component,
+  ContentChild,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  TemplateRef,
+  TrackByFunction,
+  ViewChild
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+export interface VirtualRange {
+  start: number; // first rendered index
+  end: number; // one past the last rendered index
+}
+
+/**
+ * Rows to render for a viewport scrolled to `scrollTop`, with `overscan`
+ * extra rows on each side so fast scrolling does not show gaps
+ */
+export function getVirtualRange(
+  scrollTop: number,
+  viewportHeight: number,
+  itemHeight: number,
+  itemCount: number,
+  overscan: number
+): VirtualRange {
+  if (itemCount === 0 || itemHeight <= 0) return { start: 0, end: 0 };
+
+  const first = Math.floor(Math.max(0, scrollTop) / itemHeight);
+  const visible = Math.ceil(viewportHeight / itemHeight) + 1;
+  const start = Math.max(0, Math.min(first, itemCount - 1) - overscan);
+  const end = Math.min(itemCount, first + visible + overscan);
+  return { start, end };
+}
+
+/**
+ * Scrollable list that only renders the rows in view. Rows must all be
+ * `itemHeight` pixels tall; content marked `virtualHeader` stays pinned at
+ * the top. The scroll position is kept when `items` changes.
+ */
+@Component({
+  selector: 'app-virtual-scroll',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './virtual-scroll.component.html',
+  styleUrls: ['./virtual-scroll.component.scss']
+})
+export class VirtualScrollComponent<T> implements OnChanges {
+  @Input() items: T[] = [];
+  @Input() itemHeight = 56;
+  @Input() height = 640; // maximum viewport height in pixels
+  @Input() overscan = 8;
+  @Input() trackBy: TrackByFunction<T> = (index: number) => index;
+  @Output() scrolledToEnd = new EventEmitter<void>();
+
+  @ContentChild(TemplateRef) itemTemplate: TemplateRef<{ $implicit: T; index: number }> | null = null;
+  @ViewChild('viewport', { static: true }) viewportRef!: ElementRef<HTMLElement>;
+
+  range: VirtualRange = { start: 0, end: 0 };
+  visibleItems: T[] = [];
+
+  private scrollTop = 0;
+
+  ngOnChanges() {
+    this.updateRange();
+  }
+
+  onScroll() {
+    this.scrollTop = this.viewportRef.nativeElement.scrollTop;
+    this.updateRange();
+
+    if (this.range.end === this.items.length && this.items.length > 0) {
+      this.scrolledToEnd.emit();
+    }
+  }
+
+  /**
+   * Bring a row into view, e.g. after keyboard navigation
+   */
+  scrollToIndex(index: number) {
+    this.viewportRef.nativeElement.scrollTop = index * this.itemHeight;
+    this.onScroll();
+  }
+
+  getTopPadding(): number {
+    return this.range.start * this.itemHeight;
+  }
+
+  getBottomPadding(): number {
+    return (this.items.length - this.range.end) * this.itemHeight;
+  }
+
+  private updateRange() {
+    // jsdom and hidden viewports report no height; fall back to the maximum
+    const viewportHeight = this.viewportRef?.nativeElement.clientHeight || this.height;
+    this.range = getVirtualRange(this.scrollTop, viewportHeight, this.itemHeight, this.items.length, this.overscan);
+    this.visibleItems = this.items.slice(this.range.start, this.range.end);
+  }
+}